@@ -7,7 +7,13 @@ import {useOrientation} from '../timeline/hooks/use-orientation';
 import styles from './control-panel.module.scss';
 import {Mode, Protocol} from '../../utils/types';
 import {useTimelineAuth} from '../../context/timeline-auth-context';
-import {MotionFilterOption, TimelineMotionFilter} from '../../types/motion-filter';
+import {MotionEvent, MotionFilterOption, TimelineMotionFilter} from '../../types/motion-filter';
+import {Bookmark} from '../../types/bookmark';
+import type {MotionFilterPresetsProps} from '../player-controls/motion-filter-presets';
+import type {EventsPlaybackProps} from '../player-controls/events-playback';
+import type {AbLoopProps} from '../player-controls/ab-loop';
+import type {FrameControlsProps} from '../player-controls/frame-controls';
+import {TimelineSelectionBar, TimelineSelectionProps} from './timeline-selection-bar';
 
 interface ControlPanelProps {
     mode: Mode;
@@ -16,6 +22,7 @@ interface ControlPanelProps {
     isFullscreen: boolean;
     isNoSound: boolean;
     playbackSpeed: number;
+    fastForwardSpeeds?: number[];
     url: string;
     port: number;
     credentials: string;
@@ -30,6 +37,8 @@ interface ControlPanelProps {
     onMuteToggle: () => void;
     onSpeedChange: (speed: number) => void;
     onSaveStream: () => void;
+    onSnapshot?: () => void;
+    isSnapshotCapturing?: boolean;
     onTimeClick?: (time: Date) => void;
     onChangeStartDate?: (date: Date) => void;
     onToggleFullscreen?: () => void;
@@ -38,11 +47,28 @@ interface ControlPanelProps {
     onChangeMode?: (mode: Mode) => void;
     motionFilter?: TimelineMotionFilter | null;
     isFilterPanelOpen?: boolean;
-    activeFilterType?: MotionFilterOption | null;
+    activeFilterTypes?: MotionFilterOption[];
+    showMotionLanes?: boolean;
+    onToggleMotionLanes?: () => void;
+    onMotionEventsChange?: (events: MotionEvent[]) => void;
+    isEventsPanelOpen?: boolean;
+    onToggleEventsPanel?: () => void;
     onToggleFilterPanel?: () => void;
     onSelectFilterOption?: (option: MotionFilterOption) => void;
     onClearFilter?: () => void;
+    motionFilterPresets?: MotionFilterPresetsProps;
+    eventsPlayback?: EventsPlaybackProps;
     serverVersion?: number | null;
+    bookmarks?: Bookmark[];
+    isBookmarksPanelOpen?: boolean;
+    onToggleBookmarksPanel?: () => void;
+    /** Лента кадров под полосой записей */
+    showFilmstrip?: boolean;
+    onToggleFilmstrip?: () => void;
+    onBookmarkCreate?: (time: Date) => void;
+    timelineSelection?: TimelineSelectionProps;
+    abLoop?: AbLoopProps;
+    frameControls?: FrameControlsProps;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -52,6 +78,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     isFullscreen,
     isNoSound,
     playbackSpeed,
+    fastForwardSpeeds,
     url,
     port,
     credentials,
@@ -66,6 +93,8 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     onMuteToggle,
     onSpeedChange,
     onSaveStream,
+    onSnapshot,
+    isSnapshotCapturing,
     onTimeClick,
     onChangeStartDate,
     onToggleFullscreen,
@@ -74,11 +103,27 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     onChangeMode,
     motionFilter,
     isFilterPanelOpen,
-    activeFilterType,
+    activeFilterTypes,
+    showMotionLanes,
+    onToggleMotionLanes,
+    onMotionEventsChange,
+    isEventsPanelOpen,
+    onToggleEventsPanel,
     onToggleFilterPanel,
     onSelectFilterOption,
     onClearFilter,
-    serverVersion
+    motionFilterPresets,
+    eventsPlayback,
+    serverVersion,
+    bookmarks,
+    isBookmarksPanelOpen,
+    onToggleBookmarksPanel,
+    showFilmstrip,
+    onToggleFilmstrip,
+    onBookmarkCreate,
+    timelineSelection,
+    abLoop,
+    frameControls
 }) => {
     const {hasTimelineAccess} = useTimelineAuth();
     const {isMobile, orientation} = useOrientation();
@@ -96,6 +141,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 isNoSound={isNoSound}
                 isDownloadAccess={hasTimelineAccess}
                 playbackSpeed={playbackSpeed}
+                fastForwardSpeeds={fastForwardSpeeds}
                 url={url}
                 port={port}
                 credentials={credentials}
@@ -110,17 +156,32 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 onCenterTimeline={hasTimelineAccess ? () => timelineRef.current?.centerOnCurrentTime() : undefined}
                 onChangeStartDate={onChangeStartDate}
                 onSaveStream={onSaveStream}
+                onSnapshot={onSnapshot}
+                isSnapshotCapturing={isSnapshotCapturing}
                 onToggleFullscreen={onToggleFullscreen}
                 disableSpeedChange={disableSpeedChange}
                 disableCenterTimeline={disableCenterTimeline}
                 onChangeMode={onChangeMode}
                 isFilterPanelOpen={isFilterPanelOpen}
-                activeFilterType={activeFilterType}
+                activeFilterTypes={activeFilterTypes}
+                showMotionLanes={showMotionLanes}
+                onToggleMotionLanes={onToggleMotionLanes}
+                isEventsPanelOpen={isEventsPanelOpen}
+                onToggleEventsPanel={onToggleEventsPanel}
                 onToggleFilterPanel={onToggleFilterPanel}
                 onSelectFilterOption={onSelectFilterOption}
                 onClearFilter={onClearFilter}
+                motionFilterPresets={motionFilterPresets}
+                eventsPlayback={eventsPlayback}
                 serverVersion={serverVersion}
+                isBookmarksPanelOpen={isBookmarksPanelOpen}
+                onToggleBookmarksPanel={onToggleBookmarksPanel}
+                showFilmstrip={showFilmstrip}
+                onToggleFilmstrip={onToggleFilmstrip}
+                abLoop={abLoop}
+                frameControls={frameControls}
             />
+            {hasTimelineAccess && timelineSelection && <TimelineSelectionBar {...timelineSelection} />}
             {hasTimelineAccess && (
                 <Timeline
                     ref={timelineRef}
@@ -135,6 +196,14 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                     mode={mode}
                     motionFilter={motionFilter}
                     serverVersion={serverVersion}
+                    bookmarks={bookmarks}
+                    onBookmarkCreate={onBookmarkCreate}
+                    showMotionLanes={showMotionLanes}
+                    onMotionEventsChange={onMotionEventsChange}
+                    selection={timelineSelection?.selection}
+                    onSelectionChange={timelineSelection?.onChange}
+                    loopMarkers={abLoop}
+                    showFilmstrip={showFilmstrip}
                 />
             )}
         </div>
@@ -0,0 +1,112 @@
+import React, {useEffect, useState} from 'react';
+import {format} from 'date-fns';
+
+import {TimeRange} from '../timeline/types';
+import styles from './control-panel.module.scss';
+
+export interface TimelineSelectionProps {
+    /** Выделенный на шкале диапазон */
+    selection: TimeRange | null;
+    onChange: (selection: TimeRange | null) => void;
+    /** Открыть окно сохранения с выделенным периодом */
+    onExport?: () => void;
+    isLooping: boolean;
+    onToggleLoop: () => void;
+    /** Копирует ссылку на период; false, если буфер обмена недоступен */
+    onCopyLink: () => Promise<boolean>;
+    /** Список событий движения и переходы по ним ограничены выделением */
+    isMotionSearchActive: boolean;
+    onToggleMotionSearch: () => void;
+}
+
+const COPY_STATUS_TIMEOUT_MS = 2000;
+
+const formatSelectionDuration = (milliseconds: number): string => {
+    const totalSeconds = Math.round(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) return `${hours} ч ${minutes} мин`;
+    if (minutes > 0) return `${minutes} мин ${seconds} с`;
+    return `${seconds} с`;
+};
+
+/**
+ * Выделенный на шкале период и действия с ним: экспорт, повтор, ссылка, поиск движения
+ */
+export const TimelineSelectionBar: React.FC<TimelineSelectionProps> = ({
+    selection,
+    onChange,
+    onExport,
+    isLooping,
+    onToggleLoop,
+    onCopyLink,
+    isMotionSearchActive,
+    onToggleMotionSearch
+}) => {
+    const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
+
+    useEffect(() => {
+        if (!copyStatus) return;
+        const timer = setTimeout(() => setCopyStatus(null), COPY_STATUS_TIMEOUT_MS);
+        return () => clearTimeout(timer);
+    }, [copyStatus]);
+
+    if (!selection) return null;
+
+    const handleCopyLink = async () => {
+        setCopyStatus((await onCopyLink()) ? 'copied' : 'failed');
+    };
+
+    const isSameDay = format(selection.start, 'yyyy-MM-dd') === format(selection.end, 'yyyy-MM-dd');
+
+    return (
+        <div className={styles.selectionBar}>
+            <span className={styles.selectionRange}>
+                {format(selection.start, 'dd.MM.yyyy HH:mm:ss')} -{' '}
+                {format(selection.end, isSameDay ? 'HH:mm:ss' : 'dd.MM.yyyy HH:mm:ss')} (
+                {formatSelectionDuration(selection.end.getTime() - selection.start.getTime())})
+            </span>
+            <div className={styles.selectionActions}>
+                {onExport && (
+                    <button
+                        type="button"
+                        onClick={onExport}
+                    >
+                        Сохранить
+                    </button>
+                )}
+                <button
+                    type="button"
+                    className={isLooping ? styles.active : ''}
+                    aria-pressed={isLooping}
+                    onClick={onToggleLoop}
+                >
+                    Повтор
+                </button>
+                <button
+                    type="button"
+                    onClick={handleCopyLink}
+                >
+                    {copyStatus === 'copied' ? 'Скопировано' : copyStatus === 'failed' ? 'Не удалось' : 'Ссылка'}
+                </button>
+                <button
+                    type="button"
+                    className={isMotionSearchActive ? styles.active : ''}
+                    aria-pressed={isMotionSearchActive}
+                    onClick={onToggleMotionSearch}
+                >
+                    Движение в периоде
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onChange(null)}
+                    aria-label="Снять выделение"
+                >
+                    ×
+                </button>
+            </div>
+        </div>
+    );
+};
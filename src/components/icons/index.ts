@@ -25,6 +25,12 @@ import {ReactComponent as Person} from './svg/person.svg';
 import {ReactComponent as Brush} from './svg/brush.svg';
 import {ReactComponent as Eraser} from './svg/eraser.svg';
 import {ReactComponent as Settings} from './svg/settings.svg';
+import {ReactComponent as Bookmark} from './svg/bookmark.svg';
+import {ReactComponent as Snapshot} from './svg/snapshot.svg';
+import {ReactComponent as FrameBack} from './svg/frame_back.svg';
+import {ReactComponent as FrameForward} from './svg/frame_forward.svg';
+import {ReactComponent as Reverse} from './svg/reverse.svg';
+import {ReactComponent as Filmstrip} from './svg/filmstrip.svg';
 
 import {IconType} from './types';
 export {getIcon} from './utils';
@@ -55,5 +61,11 @@ export const Icons: {[type: string]: IconType} = {
     Person: makeIcon(Person, 'Person', 20, 20),
     Brush: makeIcon(Brush, 'Brush', 20, 20),
     Eraser: makeIcon(Eraser, 'Eraser', 20, 20),
-    Settings: makeIcon(Settings, 'Settings', 20, 20)
+    Settings: makeIcon(Settings, 'Settings', 20, 20),
+    Bookmark: makeIcon(Bookmark, 'Bookmark', 20, 20),
+    Snapshot: makeIcon(Snapshot, 'Snapshot', 20, 20),
+    FrameBack: makeIcon(FrameBack, 'FrameBack', 20, 20),
+    FrameForward: makeIcon(FrameForward, 'FrameForward', 20, 20),
+    Reverse: makeIcon(Reverse, 'Reverse', 20, 20),
+    Filmstrip: makeIcon(Filmstrip, 'Filmstrip', 20, 20)
 };
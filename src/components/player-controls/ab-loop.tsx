@@ -0,0 +1,41 @@
+import React from 'react';
+import {format} from 'date-fns';
+
+import styles from './player-controls.module.scss';
+
+export interface AbLoopProps {
+    /** Начало повтора */
+    a: Date | null;
+    /** Конец повтора */
+    b: Date | null;
+    /** Ставит точку A, затем B в текущем моменте воспроизведения */
+    onMark: () => void;
+    onClear: () => void;
+}
+
+const formatPoint = (time: Date) => format(time, 'HH:mm:ss');
+
+/**
+ * Кнопка повтора A-B: первое нажатие ставит A, второе - B, третье снимает повтор
+ */
+export const AbLoop: React.FC<AbLoopProps> = ({a, b, onMark, onClear}) => {
+    const isActive = a !== null && b !== null;
+    const title = isActive
+        ? `Повтор ${formatPoint(a)} - ${formatPoint(b)}. Нажмите, чтобы выключить`
+        : a
+          ? `A: ${formatPoint(a)}. Нажмите, чтобы поставить B`
+          : 'Поставить точку A';
+
+    return (
+        <button
+            className={`${styles.abLoopButton} ${isActive ? styles.filterActive : ''}`}
+            onClick={isActive ? onClear : onMark}
+            aria-label="Повтор A-B"
+            aria-pressed={isActive}
+            title={title}
+        >
+            <span className={a ? styles.abLoopPointSet : ''}>A</span>-
+            <span className={b ? styles.abLoopPointSet : ''}>B</span>
+        </button>
+    );
+};
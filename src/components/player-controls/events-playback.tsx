@@ -0,0 +1,65 @@
+import React from 'react';
+
+import {EventsPlaybackSettings} from '../../types/motion-filter';
+import styles from './player-controls.module.scss';
+
+export interface EventsPlaybackProps {
+    enabled: boolean;
+    settings: EventsPlaybackSettings;
+    onToggle: () => void;
+    onSettingsChange: (settings: EventsPlaybackSettings) => void;
+}
+
+const MAX_SECONDS = 60;
+
+const FIELDS: Array<{key: keyof EventsPlaybackSettings; label: string}> = [
+    {key: 'preRollSeconds', label: 'До события, с'},
+    {key: 'postRollSeconds', label: 'После события, с'},
+    {key: 'minEventSeconds', label: 'Мин. длительность, с'}
+];
+
+/**
+ * Режим воспроизведения только событий и его настройки в панели фильтра
+ */
+export const EventsPlayback: React.FC<EventsPlaybackProps> = ({enabled, settings, onToggle, onSettingsChange}) => {
+    const handleChange = (key: keyof EventsPlaybackSettings, value: string) => {
+        const seconds = Number(value);
+        if (!Number.isFinite(seconds)) return;
+        onSettingsChange({...settings, [key]: Math.min(MAX_SECONDS, Math.max(0, seconds))});
+    };
+
+    return (
+        // Ввод чисел не должен переключать воспроизведение горячими клавишами плеера
+        // eslint-disable-next-line jsx-a11y/no-static-element-interactions
+        <div
+            className={styles.eventsPlayback}
+            onKeyDown={e => e.stopPropagation()}
+        >
+            <label className={styles.filterLanesToggle}>
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={onToggle}
+                />
+                Только события
+            </label>
+            {enabled &&
+                FIELDS.map(field => (
+                    <label
+                        key={field.key}
+                        className={styles.eventsPlaybackField}
+                    >
+                        <span>{field.label}</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={MAX_SECONDS}
+                            step={1}
+                            value={settings[field.key]}
+                            onChange={e => handleChange(field.key, e.target.value)}
+                        />
+                    </label>
+                ))}
+        </div>
+    );
+};
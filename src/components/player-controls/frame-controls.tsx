@@ -0,0 +1,50 @@
+import React from 'react';
+
+import {Icons} from '../icons';
+import {REVERSE_SPEEDS, ReverseSpeed} from '../player/hooks/use-reverse-playback';
+import styles from './player-controls.module.scss';
+
+export interface FrameControlsProps {
+    reverseSpeed: ReverseSpeed;
+    onStepFrame: (direction: 1 | -1) => void;
+    onReverseSpeedChange: (speed: ReverseSpeed) => void;
+}
+
+/**
+ * Покадровый переход и обратное воспроизведение в архиве. Кнопка обратного воспроизведения
+ * переключает скорости 1x, 2x, 4x и выключает его
+ */
+export const FrameControls: React.FC<FrameControlsProps> = ({reverseSpeed, onStepFrame, onReverseSpeedChange}) => {
+    const nextReverseSpeed = REVERSE_SPEEDS[(REVERSE_SPEEDS.indexOf(reverseSpeed) + 1) % REVERSE_SPEEDS.length];
+
+    return (
+        <>
+            <button
+                className={styles.controlButton}
+                onClick={() => onStepFrame(-1)}
+                aria-label="Кадр назад"
+                title="Кадр назад (,)"
+            >
+                <Icons.FrameBack />
+            </button>
+            <button
+                className={`${styles.controlButton} ${reverseSpeed !== 0 ? styles.filterActive : ''}`}
+                onClick={() => onReverseSpeedChange(nextReverseSpeed)}
+                aria-label="Обратное воспроизведение"
+                aria-pressed={reverseSpeed !== 0}
+                title={nextReverseSpeed === 0 ? 'Выключить обратное воспроизведение' : `Назад ${nextReverseSpeed}x`}
+            >
+                <Icons.Reverse />
+                {reverseSpeed !== 0 && <span className={styles.reverseSpeed}>{reverseSpeed}x</span>}
+            </button>
+            <button
+                className={styles.controlButton}
+                onClick={() => onStepFrame(1)}
+                aria-label="Кадр вперед"
+                title="Кадр вперед (.)"
+            >
+                <Icons.FrameForward />
+            </button>
+        </>
+    );
+};
@@ -0,0 +1,150 @@
+import React, {useRef, useState} from 'react';
+
+import {MotionFilterPreset} from '../../types/motion-filter';
+import styles from './player-controls.module.scss';
+
+export interface MotionFilterPresetsProps {
+    presets: MotionFilterPreset[];
+    /** Пресет, совпадающий с примененным фильтром */
+    activePresetId: string | null;
+    /** Сохранение доступно, когда применен фильтр */
+    canSave: boolean;
+    onApply: (preset: MotionFilterPreset) => void;
+    onSave: (name: string) => void;
+    onRename: (id: string, name: string) => void;
+    onRemove: (id: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => Promise<number>;
+}
+
+/**
+ * Список сохраненных фильтров камеры в панели фильтра
+ */
+export const MotionFilterPresets: React.FC<MotionFilterPresetsProps> = ({
+    presets,
+    activePresetId,
+    canSave,
+    onApply,
+    onSave,
+    onRename,
+    onRemove,
+    onExport,
+    onImport
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [presetName, setPresetName] = useState<string>('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleSave = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        onSave(name);
+        setPresetName('');
+        setMessage(null);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Сбрасываем значение, чтобы повторный выбор того же файла снова вызывал onChange
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const added = await onImport(file);
+            setMessage(`Импортировано пресетов: ${added}`);
+        } catch (error) {
+            setMessage(`Ошибка импорта: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const commitName = (preset: MotionFilterPreset, value: string) => {
+        const name = value.trim();
+        if (name && name !== preset.name) {
+            onRename(preset.id, name);
+        }
+    };
+
+    return (
+        // Ввод названия не должен переключать воспроизведение горячими клавишами плеера
+        // eslint-disable-next-line jsx-a11y/no-static-element-interactions
+        <div
+            className={styles.presets}
+            onKeyDown={e => e.stopPropagation()}
+        >
+            <div className={styles.presetsTitle}>Сохраненные фильтры</div>
+            {presets.length === 0 && <div className={styles.presetsEmpty}>Пока нет</div>}
+            {presets.map(preset => (
+                <div
+                    key={preset.id}
+                    className={`${styles.presetItem} ${preset.id === activePresetId ? styles.filterOptionActive : ''}`}
+                >
+                    <button
+                        className={styles.presetApply}
+                        onClick={() => onApply(preset)}
+                        title="Применить"
+                        aria-label={`Применить фильтр ${preset.name}`}
+                    >
+                        ▶
+                    </button>
+                    <input
+                        key={`${preset.id}-${preset.name}`}
+                        className={styles.presetName}
+                        defaultValue={preset.name}
+                        aria-label="Название пресета"
+                        onBlur={e => commitName(preset, e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') {
+                                e.currentTarget.blur();
+                            }
+                        }}
+                    />
+                    <button
+                        className={styles.presetRemove}
+                        onClick={() => onRemove(preset.id)}
+                        aria-label="Удалить пресет"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+            {canSave && (
+                <div className={styles.presetItem}>
+                    <input
+                        className={styles.presetName}
+                        value={presetName}
+                        placeholder="Название текущего фильтра"
+                        onChange={e => setPresetName(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') handleSave();
+                        }}
+                    />
+                    <button
+                        className={styles.presetApply}
+                        onClick={handleSave}
+                        disabled={!presetName.trim()}
+                        aria-label="Сохранить текущий фильтр"
+                    >
+                        +
+                    </button>
+                </div>
+            )}
+            <div className={styles.presetsFooter}>
+                <button
+                    onClick={onExport}
+                    disabled={presets.length === 0}
+                >
+                    Экспорт
+                </button>
+                <button onClick={() => fileInputRef.current?.click()}>Импорт</button>
+                <input
+                    ref={fileInputRef}
+                    className={styles.presetsFileInput}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleFileChange}
+                />
+            </div>
+            {message && <div className={styles.presetsEmpty}>{message}</div>}
+        </div>
+    );
+};
@@ -7,16 +7,22 @@ import {addMonths, format, startOfMonth, getDaysInMonth} from 'date-fns';
 
 import {Mode, Protocol} from '../../utils/types';
 import {useTimelineAuth} from '../../context/timeline-auth-context';
-import {buildRequestUrl} from '../../utils/url-builder';
-import {getAuthToken} from '../../utils/getAuthToken';
+import {useTransport} from '../../context/transport-context';
+import {DevlineRpcClient} from '../../utils/rpc-client';
+import {isRpcAuthError} from '../../utils/rpc-errors';
 import {getProtocol} from '../../utils/url-params';
 
 import {Icons} from '../icons';
 import {MotionFilterOption} from '../../types/motion-filter';
 
 import styles from './player-controls.module.scss';
+import {MotionFilterPresets, MotionFilterPresetsProps} from './motion-filter-presets';
+import {EventsPlayback, EventsPlaybackProps} from './events-playback';
+import {AbLoop, AbLoopProps} from './ab-loop';
+import {FrameControls, FrameControlsProps} from './frame-controls';
 import {SpeedSelector} from '../speed-selector';
 import {useOrientation} from '../timeline/hooks/use-orientation';
+import {MOTION_LANE_COLORS} from '../timeline/utils/constants';
 
 import '../../styles/datepicker-custom.scss';
 
@@ -30,6 +36,8 @@ interface PlayerControlsProps {
     isNoSound: boolean;
     isDownloadAccess: boolean;
     playbackSpeed: number;
+    /** Скорости ускоренного просмотра на сервере; не передаются, если сервер их не поддерживает */
+    fastForwardSpeeds?: number[];
     // for fetching month availability
     url?: string;
     port?: number;
@@ -44,17 +52,39 @@ interface PlayerControlsProps {
     onSpeedChange: (speed: number) => void;
     onCenterTimeline?: () => void;
     onSaveStream?: () => void;
+    onSnapshot?: () => void;
+    isSnapshotCapturing?: boolean;
     onChangeStartDate?: (date: Date) => void;
     onToggleFullscreen?: () => void;
     disableSpeedChange?: boolean;
     disableCenterTimeline?: boolean;
     onChangeMode?: (mode: Mode) => void;
     isFilterPanelOpen?: boolean;
-    activeFilterType?: MotionFilterOption | null;
+    /** Типы активного фильтра; пустой список - фильтр не задан */
+    activeFilterTypes?: MotionFilterOption[];
+    /** Показаны ли на таймлайне дорожки по типам */
+    showMotionLanes?: boolean;
+    onToggleMotionLanes?: () => void;
     onToggleFilterPanel?: () => void;
     onSelectFilterOption?: (option: MotionFilterOption) => void;
     onClearFilter?: () => void;
+    /** Сохраненные фильтры камеры в панели фильтра */
+    motionFilterPresets?: MotionFilterPresetsProps;
+    /** Воспроизведение только событий при активном фильтре */
+    eventsPlayback?: EventsPlaybackProps;
     serverVersion?: number | null;
+    isBookmarksPanelOpen?: boolean;
+    onToggleBookmarksPanel?: () => void;
+    /** Лента кадров на горизонтальном таймлайне */
+    showFilmstrip?: boolean;
+    onToggleFilmstrip?: () => void;
+    /** Список событий доступен только при активном фильтре */
+    isEventsPanelOpen?: boolean;
+    onToggleEventsPanel?: () => void;
+    /** Повтор A-B в архиве */
+    abLoop?: AbLoopProps;
+    /** Покадровый переход и обратное воспроизведение в архиве */
+    frameControls?: FrameControlsProps;
 }
 
 export const PlayerControls: React.FC<PlayerControlsProps> = ({
@@ -65,6 +95,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
     isNoSound,
     isDownloadAccess,
     playbackSpeed,
+    fastForwardSpeeds,
     url,
     port,
     credentials,
@@ -78,17 +109,32 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
     onSpeedChange,
     onChangeStartDate,
     onSaveStream,
+    onSnapshot,
+    isSnapshotCapturing = false,
     onToggleFullscreen,
     onChangeMode,
     disableSpeedChange = false,
     isFilterPanelOpen = false,
-    activeFilterType = null,
+    activeFilterTypes = [],
+    showMotionLanes = false,
+    onToggleMotionLanes,
     onToggleFilterPanel,
     onSelectFilterOption,
     onClearFilter,
-    serverVersion: serverVersionProp
+    motionFilterPresets,
+    eventsPlayback,
+    serverVersion: serverVersionProp,
+    isBookmarksPanelOpen = false,
+    onToggleBookmarksPanel,
+    showFilmstrip = false,
+    onToggleFilmstrip,
+    isEventsPanelOpen = false,
+    onToggleEventsPanel,
+    abLoop,
+    frameControls
 }) => {
     const {hasTimelineAccess, setTimelineAccess} = useTimelineAuth();
+    const transport = useTransport();
     const [startDate, setStartDate] = useState(new Date());
     const datePickerRef = useRef<ReactDatePicker | null>(null);
     const rightControlsRef = useRef<HTMLDivElement>(null);
@@ -123,64 +169,15 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
             throw new Error('Missing required parameters');
         }
 
-        const requestParams = {
-            start_time: [
-                startTime.getFullYear(),
-                startTime.getMonth() + 1,
-                startTime.getDate(),
-                startTime.getHours(),
-                startTime.getMinutes(),
-                startTime.getSeconds()
-            ],
-            end_time: [
-                endTime.getFullYear(),
-                endTime.getMonth() + 1,
-                endTime.getDate(),
-                endTime.getHours(),
-                endTime.getMinutes(),
-                endTime.getSeconds()
-            ],
-            unit_len: 86400,
-            ...(camera !== undefined && {channel: camera})
-        };
-
-        const rpcUrl = buildRequestUrl({
+        const client = new DevlineRpcClient({
             host: url,
             port,
+            credentials,
             protocol: preferredProtocol,
             proxy,
-            path: proxy ? '/rpc' : `/rpc?authorization=Basic ${getAuthToken(credentials)}&content-type=application/json`
+            transport
         });
-
-        const headers: HeadersInit = {};
-        if (proxy) {
-            headers['Content-Type'] = 'application/json';
-            headers['Authorization'] = `Basic ${getAuthToken(credentials)}`;
-        }
-
-        return fetch(rpcUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({method: 'archive.get_frames_timeline', params: requestParams, version: 13})
-        })
-            .then(response => {
-                if (!response.ok) {
-                    throw new Error('Failed to fetch timeline data');
-                }
-                return response.json();
-            })
-            .then(data => {
-                if (data.error && data.error.type === 'auth' && data.error.message === 'forbidden') {
-                    throw new Error('FORBIDDEN');
-                }
-                return data.result;
-            })
-            .catch(error => {
-                if (error instanceof Error && error.message === 'FORBIDDEN') {
-                    throw error;
-                }
-                throw new Error('Failed to fetch timeline data');
-            });
+        return client.getFramesTimeline({startTime, endTime, unitLength: 86400, channel: camera});
     };
     const onChangeDatepickerDate = (date: Date | null) => {
         if (!date) return;
@@ -242,7 +239,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
 
                 loadedMonths.current.add(month.key);
             } catch (e) {
-                if (e instanceof Error && e.message === 'FORBIDDEN') {
+                if (isRpcAuthError(e)) {
                     setTimelineAccess(false);
                     return;
                 }
@@ -306,6 +303,8 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
         []
     );
 
+    const isFilterActive = activeFilterTypes.length > 0;
+
     const handleFilterToggle = () => {
         onToggleFilterPanel?.();
     };
@@ -360,6 +359,8 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                         <span className={styles.liveButton}>live</span>
                     </button>
                 )}
+                {mode === Mode.Record && frameControls && <FrameControls {...frameControls} />}
+                {mode === Mode.Record && hasTimelineAccess && abLoop && <AbLoop {...abLoop} />}
             </div>
 
             <div
@@ -372,11 +373,11 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                         ref={filterControlsRef}
                     >
                         <button
-                            className={`${styles.controlButton} ${activeFilterType ? styles.filterActive : ''}`}
+                            className={`${styles.controlButton} ${isFilterActive ? styles.filterActive : ''}`}
                             onClick={handleFilterToggle}
                             aria-label="Фильтр движений"
                             aria-expanded={isFilterPanelOpen}
-                            aria-pressed={activeFilterType !== null}
+                            aria-pressed={isFilterActive}
                         >
                             <Icons.Filter />
                         </button>
@@ -390,16 +391,34 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                                     <button
                                         key={option.type}
                                         className={`${styles.filterOption} ${
-                                            activeFilterType === option.type ? styles.filterOptionActive : ''
+                                            activeFilterTypes.includes(option.type) ? styles.filterOptionActive : ''
                                         }`}
                                         onClick={() => handleFilterSelect(option.type)}
-                                        aria-pressed={activeFilterType === option.type}
+                                        aria-pressed={activeFilterTypes.includes(option.type)}
                                     >
                                         <span className={styles.filterIcon}>{option.icon}</span>
                                         <span>{option.label}</span>
+                                        {showMotionLanes &&
+                                            (option.type === 'motion' || activeFilterTypes.includes(option.type)) && (
+                                                <span
+                                                    className={styles.filterLaneSwatch}
+                                                    style={{background: MOTION_LANE_COLORS[option.type]}}
+                                                />
+                                            )}
                                     </button>
                                 ))}
-                                {activeFilterType !== null && (
+                                {isFilterActive && onToggleMotionLanes && (
+                                    <label className={styles.filterLanesToggle}>
+                                        <input
+                                            type="checkbox"
+                                            checked={showMotionLanes}
+                                            onChange={onToggleMotionLanes}
+                                        />
+                                        Дорожки по типам
+                                    </label>
+                                )}
+                                {isFilterActive && eventsPlayback && <EventsPlayback {...eventsPlayback} />}
+                                {isFilterActive && (
                                     <button
                                         className={styles.filterResetButton}
                                         onClick={onClearFilter}
@@ -408,10 +427,45 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                                         Сброс
                                     </button>
                                 )}
+                                {motionFilterPresets && <MotionFilterPresets {...motionFilterPresets} />}
                             </div>
                         )}
                     </div>
                 )}
+                {hasTimelineAccess && onToggleEventsPanel && (
+                    <button
+                        className={`${styles.controlButton} ${isEventsPanelOpen ? styles.filterActive : ''}`}
+                        onClick={onToggleEventsPanel}
+                        aria-label="События"
+                        aria-pressed={isEventsPanelOpen}
+                    >
+                        <Icons.Movement />
+                    </button>
+                )}
+                {hasTimelineAccess && onToggleBookmarksPanel && (
+                    <button
+                        className={`${styles.controlButton} ${isBookmarksPanelOpen ? styles.filterActive : ''}`}
+                        onClick={onToggleBookmarksPanel}
+                        aria-label="Закладки"
+                        aria-pressed={isBookmarksPanelOpen}
+                    >
+                        <Icons.Bookmark />
+                    </button>
+                )}
+                {hasTimelineAccess &&
+                    onToggleFilmstrip &&
+                    !isMobileLandscape &&
+                    serverVersion !== null &&
+                    serverVersion >= 90 && (
+                        <button
+                            className={`${styles.controlButton} ${showFilmstrip ? styles.filterActive : ''}`}
+                            onClick={onToggleFilmstrip}
+                            aria-label="Лента кадров"
+                            aria-pressed={showFilmstrip}
+                        >
+                            <Icons.Filmstrip />
+                        </button>
+                    )}
                 {hasTimelineAccess && (
                     <DatePicker
                         ref={datePickerRef}
@@ -438,6 +492,16 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                         onMonthChange={handleMonthChange}
                     />
                 )}
+                {onSnapshot && (
+                    <button
+                        className={styles.controlButton}
+                        onClick={onSnapshot}
+                        disabled={isSnapshotCapturing}
+                        aria-label="Снимок кадра"
+                    >
+                        <Icons.Snapshot />
+                    </button>
+                )}
                 {isDownloadAccess && (
                     <button
                         className={styles.controlButton}
@@ -450,6 +514,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                     <SpeedSelector
                         playbackSpeed={playbackSpeed}
                         onSpeedChange={onSpeedChange}
+                        fastForwardSpeeds={fastForwardSpeeds}
                         disabled={disableSpeedChange}
                         isFullscreen={isFullscreen}
                         isMobileLandscape={isMobileLandscape}
@@ -0,0 +1,160 @@
+import React, {useRef, useState} from 'react';
+import {format} from 'date-fns';
+
+import {Bookmark, BookmarksFileFormat} from '../../../../types/bookmark';
+import styles from './bookmarks-panel.module.scss';
+
+interface BookmarksPanelProps {
+    bookmarks: Bookmark[];
+    /** Добавление закладки на текущей позиции воспроизведения; недоступно, если позиция неизвестна */
+    onAdd?: () => void;
+    onJump: (bookmark: Bookmark) => void;
+    onRename: (id: string, label: string) => void;
+    onRemove: (id: string) => void;
+    onExport: (fileFormat: BookmarksFileFormat) => void;
+    onImport: (file: File) => Promise<number>;
+    onClose: () => void;
+}
+
+interface PanelMessage {
+    text: string;
+    type: 'error' | 'success';
+}
+
+export const BookmarksPanel: React.FC<BookmarksPanelProps> = ({
+    bookmarks,
+    onAdd,
+    onJump,
+    onRename,
+    onRemove,
+    onExport,
+    onImport,
+    onClose
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [message, setMessage] = useState<PanelMessage | null>(null);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Сбрасываем значение, чтобы повторный выбор того же файла снова вызывал onChange
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const added = await onImport(file);
+            setMessage({text: `Импортировано закладок: ${added}`, type: 'success'});
+        } catch (error) {
+            const details = error instanceof Error ? error.message : String(error);
+            setMessage({text: `Ошибка импорта: ${details}`, type: 'error'});
+        }
+    };
+
+    const commitLabel = (bookmark: Bookmark, value: string) => {
+        const label = value.trim();
+        if (label !== bookmark.label) {
+            onRename(bookmark.id, label);
+        }
+    };
+
+    return (
+        // Панель не должна пропускать клики и клавиши к обработчикам плеера под ней
+        // eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions
+        <div
+            className={styles.panel}
+            role="dialog"
+            aria-label="Закладки"
+            onClick={e => e.stopPropagation()}
+            onDoubleClick={e => e.stopPropagation()}
+            onKeyDown={e => e.stopPropagation()}
+        >
+            <div className={styles.header}>
+                <span>Закладки</span>
+                <button
+                    className={styles.close}
+                    onClick={onClose}
+                    aria-label="Закрыть"
+                >
+                    ×
+                </button>
+            </div>
+            <button
+                className={styles.addButton}
+                onClick={onAdd}
+                disabled={!onAdd}
+            >
+                Добавить на текущем моменте
+            </button>
+            <div className={styles.hint}>Alt + клик по шкале - закладка в выбранном месте</div>
+            {bookmarks.length === 0 ? (
+                <div className={styles.empty}>Закладок пока нет</div>
+            ) : (
+                <ul className={styles.list}>
+                    {bookmarks.map(bookmark => (
+                        <li
+                            key={bookmark.id}
+                            className={styles.item}
+                        >
+                            <button
+                                className={styles.time}
+                                onClick={() => onJump(bookmark)}
+                                title="Перейти к закладке"
+                            >
+                                {format(bookmark.time, 'dd.MM.yyyy HH:mm:ss')}
+                            </button>
+                            <input
+                                key={`${bookmark.id}-${bookmark.label}`}
+                                className={styles.label}
+                                defaultValue={bookmark.label}
+                                placeholder="Без подписи"
+                                aria-label="Подпись закладки"
+                                onBlur={e => commitLabel(bookmark, e.target.value)}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter') {
+                                        e.currentTarget.blur();
+                                    }
+                                }}
+                            />
+                            <button
+                                className={styles.remove}
+                                onClick={() => onRemove(bookmark.id)}
+                                aria-label="Удалить закладку"
+                            >
+                                ×
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className={styles.footer}>
+                <button
+                    className={styles.footerButton}
+                    onClick={() => onExport('json')}
+                    disabled={bookmarks.length === 0}
+                >
+                    Экспорт JSON
+                </button>
+                <button
+                    className={styles.footerButton}
+                    onClick={() => onExport('csv')}
+                    disabled={bookmarks.length === 0}
+                >
+                    Экспорт CSV
+                </button>
+                <button
+                    className={styles.footerButton}
+                    onClick={() => fileInputRef.current?.click()}
+                >
+                    Импорт
+                </button>
+                <input
+                    ref={fileInputRef}
+                    className={styles.fileInput}
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    onChange={handleFileChange}
+                />
+                {message && <div className={`${styles.message} ${styles[message.type]}`}>{message.text}</div>}
+            </div>
+        </div>
+    );
+};
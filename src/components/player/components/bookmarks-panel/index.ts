@@ -0,0 +1 @@
+export {BookmarksPanel} from './bookmarks-panel';
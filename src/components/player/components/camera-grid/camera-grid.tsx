@@ -0,0 +1,104 @@
+import React from 'react';
+
+import type {CameraInfo} from '../../../../utils/api';
+import styles from './camera-grid.module.scss';
+
+/** Количество тайлов по стороне сетки: 1 - одна камера, 2 - 2x2, 3 - 3x3, 4 - 4x4 */
+export type GridLayout = 1 | 2 | 3 | 4;
+
+export const GRID_LAYOUTS: GridLayout[] = [1, 2, 3, 4];
+
+export interface CameraGridProps {
+    cameras: CameraInfo[];
+    layout: GridLayout;
+    activeCamera?: number;
+    /** Камера, развернутая на всю сетку двойным кликом */
+    expandedCamera: number | null;
+    /** Камеры, у которых нет записи на текущий момент архива */
+    noRecordingCameras?: number[];
+    renderTile: (camera: CameraInfo, isActive: boolean) => React.ReactNode;
+    onSelectTile: (camera: number) => void;
+    onToggleExpand: (camera: number) => void;
+}
+
+/**
+ * Выбирает камеры для тайлов сетки. Активная камера всегда попадает в сетку,
+ * даже если она не входит в первые layout * layout камер списка
+ */
+export const getGridCameras = (
+    cameras: CameraInfo[],
+    layout: GridLayout,
+    activeCamera?: number,
+    expandedCamera: number | null = null
+): CameraInfo[] => {
+    const expanded = expandedCamera !== null ? cameras.find(c => c.id === expandedCamera) : undefined;
+    if (expanded) {
+        return [expanded];
+    }
+
+    const tiles = cameras.slice(0, layout * layout);
+    const active = cameras.find(c => c.id === activeCamera);
+
+    if (active && !tiles.some(c => c.id === active.id)) {
+        tiles[tiles.length - 1] = active;
+    }
+
+    return tiles;
+};
+
+export const CameraGrid: React.FC<CameraGridProps> = ({
+    cameras,
+    layout,
+    activeCamera,
+    expandedCamera,
+    noRecordingCameras = [],
+    renderTile,
+    onSelectTile,
+    onToggleExpand
+}) => {
+    const tiles = getGridCameras(cameras, layout, activeCamera, expandedCamera);
+    const columns = tiles.length === 1 ? 1 : layout;
+
+    return (
+        <div
+            className={styles.grid}
+            style={{
+                gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                gridTemplateRows: `repeat(${columns}, minmax(0, 1fr))`
+            }}
+        >
+            {tiles.map(camera => {
+                const isActive = camera.id === activeCamera;
+                const label = camera.name ?? `Camera ${camera.id}`;
+
+                return (
+                    <div
+                        key={camera.id}
+                        className={`${styles.tile} ${isActive ? styles.active : ''}`}
+                        role="button"
+                        tabIndex={0}
+                        aria-label={label}
+                        aria-pressed={isActive}
+                        onClick={() => onSelectTile(camera.id)}
+                        onDoubleClick={e => {
+                            // Двойной клик по тайлу разворачивает его вместо переключения полноэкранного режима
+                            e.stopPropagation();
+                            onToggleExpand(camera.id);
+                        }}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                onToggleExpand(camera.id);
+                            }
+                        }}
+                    >
+                        <div className={styles.content}>{renderTile(camera, isActive)}</div>
+                        {noRecordingCameras.includes(camera.id) && <div className={styles.noRecording}>Нет записи</div>}
+                        <div className={styles.label}>{label}</div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,2 @@
+export {CameraGrid, GRID_LAYOUTS, getGridCameras} from './camera-grid';
+export type {CameraGridProps, GridLayout} from './camera-grid';
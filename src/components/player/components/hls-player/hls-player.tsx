@@ -49,13 +49,14 @@ export interface HlsPlayerProps {
     onProgress?: (progress: {currentTime: number; duration: number}) => void;
     onPlayPause?: (playing?: boolean) => void;
     onPlaybackStatusChange?: (status: import('../player-interface').PlaybackStatus) => void;
+    onEnded?: () => void;
     overlayText?: string;
     isLandscape?: boolean;
     onFragmentTimeUpdate?: (time: Date) => void;
     onNextTime?: (time: Date) => void;
 }
 
-import type {PlayerRef} from '../player-interface';
+import {stepVideoFrame, type PlayerRef} from '../player-interface';
 
 export const HlsPlayer = forwardRef<PlayerRef, HlsPlayerProps>((props, ref) => {
     const {
@@ -64,6 +65,7 @@ export const HlsPlayer = forwardRef<PlayerRef, HlsPlayerProps>((props, ref) => {
         onProgress,
         onPlayPause,
         onPlaybackStatusChange,
+        onEnded,
         playbackSpeed,
         muted = true,
         isLandscape = false,
@@ -249,6 +251,9 @@ export const HlsPlayer = forwardRef<PlayerRef, HlsPlayerProps>((props, ref) => {
                 // no-op
             }
         },
+        stepFrame: (direction: 1 | -1) => {
+            if (videoRef.current) stepVideoFrame(videoRef.current, direction);
+        },
         getVideoElement: () => videoRef.current
     }));
 
@@ -801,6 +806,7 @@ export const HlsPlayer = forwardRef<PlayerRef, HlsPlayerProps>((props, ref) => {
                 controls={false}
                 controlsList="nodownload nofullscreen noremoteplayback"
                 onTimeUpdate={handleTimeUpdate}
+                onEnded={onEnded}
                 playsInline
                 muted={mutedRef.current}
                 // poster={posterUrl}
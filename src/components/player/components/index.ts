@@ -5,6 +5,10 @@ export {ModeIndicator} from './mode-indicator';
 export {ZoomMagnifier} from './zoom-magnifier';
 export {PlayOverlay} from './play-overlay';
 export {Loader} from './loader';
+export {CameraGrid, GRID_LAYOUTS, getGridCameras} from './camera-grid';
+export {BookmarksPanel} from './bookmarks-panel';
+export {MotionEventsPanel} from './motion-events-panel';
 
 export type {PlayerComponentProps, PlaybackStatus} from './player-interface';
 export type {ZoomMagnifierProps} from './zoom-magnifier';
+export type {GridLayout} from './camera-grid';
@@ -0,0 +1 @@
+export {MotionEventsPanel} from './motion-events-panel';
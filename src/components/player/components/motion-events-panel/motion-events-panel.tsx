@@ -0,0 +1,120 @@
+import React, {useEffect, useRef} from 'react';
+import {format} from 'date-fns';
+
+import {MotionEvent} from '../../../../types/motion-filter';
+import styles from './motion-events-panel.module.scss';
+
+interface MotionEventsPanelProps {
+    events: MotionEvent[];
+    /** Индекс события, которое сейчас воспроизводится, или -1 */
+    activeIndex: number;
+    onJump: (event: MotionEvent) => void;
+    onPrevious?: () => void;
+    onNext?: () => void;
+    /** Адрес кадра для миниатюры; без него миниатюры не показываются */
+    getThumbnailUrl?: (time: Date) => string;
+    onClose: () => void;
+}
+
+const formatDuration = (seconds: number): string => {
+    const rounded = Math.max(1, Math.round(seconds));
+    const minutes = Math.floor(rounded / 60);
+    const secs = rounded % 60;
+    return minutes > 0 ? `${minutes} мин ${secs} с` : `${secs} с`;
+};
+
+/**
+ * Кадр из середины события: в начале объект часто только появляется у края кадра
+ */
+const getThumbnailTime = (event: MotionEvent): Date =>
+    new Date(event.start.getTime() + (event.end.getTime() - event.start.getTime()) / 2);
+
+export const MotionEventsPanel: React.FC<MotionEventsPanelProps> = ({
+    events,
+    activeIndex,
+    onJump,
+    onPrevious,
+    onNext,
+    getThumbnailUrl,
+    onClose
+}) => {
+    const activeItemRef = useRef<HTMLLIElement>(null);
+
+    // Держим воспроизводимое событие в видимой части списка
+    useEffect(() => {
+        activeItemRef.current?.scrollIntoView({block: 'nearest'});
+    }, [activeIndex]);
+
+    return (
+        // Панель не должна пропускать клики и клавиши к обработчикам плеера под ней
+        // eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions
+        <div
+            className={styles.panel}
+            role="dialog"
+            aria-label="События"
+            onClick={e => e.stopPropagation()}
+            onDoubleClick={e => e.stopPropagation()}
+            onKeyDown={e => e.stopPropagation()}
+        >
+            <div className={styles.header}>
+                <span>События: {events.length}</span>
+                <button
+                    className={styles.close}
+                    onClick={onClose}
+                    aria-label="Закрыть"
+                >
+                    ×
+                </button>
+            </div>
+            <div className={styles.navigation}>
+                <button
+                    className={styles.navButton}
+                    onClick={onPrevious}
+                    disabled={!onPrevious}
+                >
+                    ← Предыдущее
+                </button>
+                <button
+                    className={styles.navButton}
+                    onClick={onNext}
+                    disabled={!onNext}
+                >
+                    Следующее →
+                </button>
+            </div>
+            <div className={styles.hint}>События загруженного участка шкалы с учетом фильтра</div>
+            {events.length === 0 ? (
+                <div className={styles.empty}>Событий не найдено</div>
+            ) : (
+                <ul className={styles.list}>
+                    {events.map((event, index) => (
+                        <li
+                            key={event.start.getTime()}
+                            ref={index === activeIndex ? activeItemRef : undefined}
+                            className={`${styles.item} ${index === activeIndex ? styles.active : ''}`}
+                        >
+                            <button
+                                className={styles.event}
+                                onClick={() => onJump(event)}
+                                title="Перейти к событию"
+                            >
+                                {getThumbnailUrl && (
+                                    <img
+                                        className={styles.thumbnail}
+                                        src={getThumbnailUrl(getThumbnailTime(event))}
+                                        alt=""
+                                        loading="lazy"
+                                    />
+                                )}
+                                <span className={styles.details}>
+                                    <span className={styles.time}>{format(event.start, 'dd.MM.yyyy HH:mm:ss')}</span>
+                                    <span className={styles.duration}>{formatDuration(event.duration)}</span>
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -1,94 +1,347 @@
-import React, {useState, useRef} from 'react';
+import React, {useState, useRef, useEffect} from 'react';
 
+import {Icons} from '../../../icons';
+import {
+    createFilledMaskGrid,
+    fillMaskPolygon,
+    fillMaskRectangle,
+    getGridResolution,
+    invertMaskGrid,
+    isSameResolution,
+    MaskGrid,
+    MaskPoint,
+    MotionMaskResolution,
+    paintMaskBrush,
+    resampleMaskGrid
+} from '../../../../utils/motion-mask';
+import {MotionObjectType, normalizeObjectTypes} from '../../../../types/motion-filter';
 import styles from './motion-mask-overlay.module.scss';
 
+type MaskTool = 'brush' | 'rectangle' | 'polygon';
+
 interface MotionMaskOverlayProps {
     isVisible: boolean;
-    maskGrid: number[][];
-    onToggleCell: (rowIndex: number, colIndex: number) => void;
+    maskGrid: MaskGrid;
+    /** Разрешения сетки, доступные на сервере */
+    resolutions: MotionMaskResolution[];
+    /** Типы объектов фильтра; пустой список - любое движение */
+    objectTypes: MotionObjectType[];
+    onChange: (grid: MaskGrid) => void;
+    onObjectTypesChange: (types: MotionObjectType[]) => void;
     onApply: () => void;
 }
 
-export const MotionMaskOverlay: React.FC<MotionMaskOverlayProps> = ({isVisible, maskGrid, onToggleCell, onApply}) => {
-    const [isDrawing, setIsDrawing] = useState(false);
-    // Запоминаем целевое состояние ячеек (0 или 1) для текущей сессии рисования
-    const targetStateRef = useRef<0 | 1 | null>(null);
-    // Отслеживаем ячейки, которые уже были обработаны в текущей сессии
-    const processedCellsRef = useRef<Set<string>>(new Set());
+const TOOLS: Array<{tool: MaskTool; label: string}> = [
+    {tool: 'brush', label: 'Кисть'},
+    {tool: 'rectangle', label: 'Прямоугольник'},
+    {tool: 'polygon', label: 'Многоугольник'}
+];
+
+const OBJECT_TYPE_OPTIONS: Array<{type: MotionObjectType; label: string}> = [
+    {type: 'human', label: 'Люди'},
+    {type: 'transport', label: 'Машины'}
+];
+
+const BRUSH_SIZES = [1, 2, 3, 5];
+
+/** Расстояние до первой вершины (в долях кадра), при котором клик замыкает многоугольник */
+const POLYGON_CLOSE_DISTANCE = 0.02;
+
+export const MotionMaskOverlay: React.FC<MotionMaskOverlayProps> = ({
+    isVisible,
+    maskGrid,
+    resolutions,
+    objectTypes,
+    onChange,
+    onObjectTypesChange,
+    onApply
+}) => {
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState<number>(1);
+    const [isErasing, setIsErasing] = useState<boolean>(false);
+    const [rectangle, setRectangle] = useState<{from: MaskPoint; to: MaskPoint} | null>(null);
+    const [polygon, setPolygon] = useState<MaskPoint[]>([]);
+    const surfaceRef = useRef<HTMLDivElement>(null);
+    // Целевое состояние ячеек (0 или 1) для текущего мазка кистью
+    const brushValueRef = useRef<0 | 1 | null>(null);
+    // Актуальная сетка для обработчиков, срабатывающих чаще, чем обновляется состояние
+    const gridRef = useRef<MaskGrid>(maskGrid);
+    gridRef.current = maskGrid;
+
+    const drawValue: 0 | 1 = isErasing ? 0 : 1;
+
+    const toggleObjectType = (type: MotionObjectType) => {
+        onObjectTypesChange(
+            objectTypes.includes(type)
+                ? objectTypes.filter(item => item !== type)
+                : normalizeObjectTypes([...objectTypes, type])
+        );
+    };
+
+    const updateGrid = (grid: MaskGrid) => {
+        if (grid === gridRef.current) return;
+        gridRef.current = grid;
+        onChange(grid);
+    };
+
+    const closePolygon = () => {
+        if (polygon.length >= 3) {
+            updateGrid(fillMaskPolygon(gridRef.current, polygon, drawValue));
+        }
+        setPolygon([]);
+    };
+
+    // Enter замыкает многоугольник, Escape отменяет построение
+    useEffect(() => {
+        if (!isVisible || polygon.length === 0) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                closePolygon();
+            } else if (event.key === 'Escape') {
+                event.preventDefault();
+                event.stopPropagation();
+                setPolygon([]);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isVisible, polygon, drawValue]);
 
     if (!isVisible) return null;
 
-    const beginDrawing = (rowIndex: number, colIndex: number) => {
-        setIsDrawing(true);
-        // Очищаем список обработанных ячеек для новой сессии
-        processedCellsRef.current.clear();
+    const {width: columnsCount, height: rowsCount} = getGridResolution(maskGrid);
 
-        // Определяем текущее состояние ячейки и запоминаем противоположное (целевое)
-        const currentState = maskGrid[rowIndex][colIndex];
-        const targetState: 0 | 1 = currentState === 1 ? 0 : 1;
-        targetStateRef.current = targetState;
+    const getPoint = (event: React.PointerEvent | React.MouseEvent): MaskPoint | null => {
+        const surface = surfaceRef.current;
+        if (!surface) return null;
 
-        // Добавляем текущую ячейку в список обработанных и переключаем ее
-        const cellKey = `${rowIndex}-${colIndex}`;
-        processedCellsRef.current.add(cellKey);
-        onToggleCell(rowIndex, colIndex);
+        const rect = surface.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return null;
+
+        return {
+            x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+        };
     };
 
-    const stopDrawing = () => {
-        if (!isDrawing) return;
-        setIsDrawing(false);
-        // Очищаем состояние при окончании рисования
-        targetStateRef.current = null;
-        processedCellsRef.current.clear();
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        const point = getPoint(event);
+        if (!point || event.button !== 0) return;
+
+        event.preventDefault();
+
+        if (tool === 'polygon') {
+            const first = polygon[0];
+            if (
+                first &&
+                polygon.length >= 3 &&
+                Math.hypot(first.x - point.x, first.y - point.y) <= POLYGON_CLOSE_DISTANCE
+            ) {
+                closePolygon();
+            } else {
+                setPolygon(prev => [...prev, point]);
+            }
+            return;
+        }
+
+        event.currentTarget.setPointerCapture(event.pointerId);
+
+        if (tool === 'rectangle') {
+            setRectangle({from: point, to: point});
+            return;
+        }
+
+        // Без режима стирания мазок переключает ячейки в состояние, противоположное ячейке под курсором
+        const row = Math.min(rowsCount - 1, Math.floor(point.y * rowsCount));
+        const col = Math.min(columnsCount - 1, Math.floor(point.x * columnsCount));
+        brushValueRef.current = isErasing ? 0 : gridRef.current[row][col] === 1 ? 0 : 1;
+        updateGrid(paintMaskBrush(gridRef.current, point, brushSize, brushValueRef.current));
     };
 
-    const handleCellEnter = (rowIndex: number, colIndex: number) => {
-        if (!isDrawing || targetStateRef.current === null) return;
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (tool === 'brush' && brushValueRef.current !== null) {
+            const point = getPoint(event);
+            if (point) updateGrid(paintMaskBrush(gridRef.current, point, brushSize, brushValueRef.current));
+            return;
+        }
 
-        const cellKey = `${rowIndex}-${colIndex}`;
-        // Пропускаем ячейку, если она уже была обработана в этой сессии
-        if (processedCellsRef.current.has(cellKey)) return;
+        if (tool === 'rectangle' && rectangle) {
+            const point = getPoint(event);
+            if (point) setRectangle({from: rectangle.from, to: point});
+        }
+    };
+
+    const stopDrawing = () => {
+        brushValueRef.current = null;
 
-        const currentState = maskGrid[rowIndex][colIndex];
-        // Переключаем ячейку только если она не в целевом состоянии
-        if (currentState !== targetStateRef.current) {
-            processedCellsRef.current.add(cellKey);
-            onToggleCell(rowIndex, colIndex);
+        if (rectangle) {
+            updateGrid(fillMaskRectangle(gridRef.current, rectangle.from, rectangle.to, drawValue));
+            setRectangle(null);
         }
     };
 
-    const rowsCount = maskGrid.length;
-    const columnsCount = maskGrid[0]?.length ?? 0;
+    const handleResolutionChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+        const resolution = resolutions[Number(event.target.value)];
+        if (resolution) updateGrid(resampleMaskGrid(gridRef.current, resolution));
+    };
+
+    const handleToolChange = (nextTool: MaskTool) => {
+        setTool(nextTool);
+        setPolygon([]);
+        setRectangle(null);
+    };
+
+    const currentResolution = getGridResolution(maskGrid);
+    const resolutionIndex = resolutions.findIndex(resolution => isSameResolution(resolution, currentResolution));
 
     return (
         <div className={styles.overlay}>
-            <div
-                className={styles.gridArea}
-                onPointerUp={stopDrawing}
-                onPointerLeave={stopDrawing}
-            >
+            <div className={styles.gridArea}>
                 <div className={styles.title}>Выберите зоны для поиска событий</div>
                 <div
-                    className={styles.maskGrid}
-                    style={{
-                        gridTemplateColumns: `repeat(${columnsCount}, 1fr)`,
-                        gridTemplateRows: `repeat(${rowsCount}, 1fr)`
-                    }}
+                    ref={surfaceRef}
+                    className={`${styles.maskSurface} ${tool !== 'brush' ? styles.crosshair : ''}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={stopDrawing}
+                    onPointerCancel={stopDrawing}
+                    onDoubleClick={tool === 'polygon' ? closePolygon : undefined}
                 >
-                    {maskGrid.map((row, rowIndex) =>
-                        row.map((cell, colIndex) => (
-                            <button
-                                key={`cell-${rowIndex}-${colIndex}`}
-                                className={`${styles.maskCell} ${cell ? styles.maskCellActive : ''}`}
-                                onPointerDown={event => {
-                                    event.preventDefault();
-                                    beginDrawing(rowIndex, colIndex);
-                                }}
-                                onPointerEnter={() => handleCellEnter(rowIndex, colIndex)}
-                                aria-pressed={cell === 1}
-                                aria-label={`Ячейка ${rowIndex + 1}x${colIndex + 1}`}
+                    <div
+                        className={styles.maskGrid}
+                        style={{
+                            gridTemplateColumns: `repeat(${columnsCount}, 1fr)`,
+                            gridTemplateRows: `repeat(${rowsCount}, 1fr)`,
+                            gap: columnsCount > 16 ? '1px' : undefined
+                        }}
+                    >
+                        {maskGrid.map((row, rowIndex) =>
+                            row.map((cell, colIndex) => (
+                                <div
+                                    key={`cell-${rowIndex}-${colIndex}`}
+                                    className={`${styles.maskCell} ${cell ? styles.maskCellActive : ''}`}
+                                />
+                            ))
+                        )}
+                    </div>
+                    <svg
+                        className={styles.shapePreview}
+                        viewBox="0 0 1 1"
+                        preserveAspectRatio="none"
+                    >
+                        {rectangle && (
+                            <rect
+                                x={Math.min(rectangle.from.x, rectangle.to.x)}
+                                y={Math.min(rectangle.from.y, rectangle.to.y)}
+                                width={Math.abs(rectangle.to.x - rectangle.from.x)}
+                                height={Math.abs(rectangle.to.y - rectangle.from.y)}
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        )}
+                        {polygon.length > 0 && (
+                            <polyline
+                                points={polygon.map(point => `${point.x},${point.y}`).join(' ')}
+                                vectorEffect="non-scaling-stroke"
                             />
-                        ))
+                        )}
+                    </svg>
+                </div>
+                <div
+                    className={styles.objectTypes}
+                    onPointerDown={event => event.stopPropagation()}
+                >
+                    {OBJECT_TYPE_OPTIONS.map(option => (
+                        <button
+                            key={option.type}
+                            className={`${styles.toolButton} ${
+                                objectTypes.includes(option.type) ? styles.toolButtonActive : ''
+                            }`}
+                            onClick={() => toggleObjectType(option.type)}
+                            aria-pressed={objectTypes.includes(option.type)}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                    {objectTypes.length === 0 && <span className={styles.objectTypesHint}>Любое движение</span>}
+                </div>
+                <div
+                    className={styles.toolbar}
+                    onPointerDown={event => event.stopPropagation()}
+                >
+                    {TOOLS.map(item => (
+                        <button
+                            key={item.tool}
+                            className={`${styles.toolButton} ${tool === item.tool ? styles.toolButtonActive : ''}`}
+                            onClick={() => handleToolChange(item.tool)}
+                            aria-pressed={tool === item.tool}
+                        >
+                            {item.tool === 'brush' && <Icons.Brush />}
+                            {item.label}
+                        </button>
+                    ))}
+                    {tool === 'brush' && (
+                        <select
+                            className={styles.toolSelect}
+                            value={brushSize}
+                            onChange={event => setBrushSize(Number(event.target.value))}
+                            aria-label="Размер кисти"
+                        >
+                            {BRUSH_SIZES.map(size => (
+                                <option
+                                    key={size}
+                                    value={size}
+                                >
+                                    Кисть {size}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <button
+                        className={`${styles.toolButton} ${isErasing ? styles.toolButtonActive : ''}`}
+                        onClick={() => setIsErasing(prev => !prev)}
+                        aria-pressed={isErasing}
+                        aria-label="Стирание"
+                    >
+                        <Icons.Eraser />
+                    </button>
+                    <button
+                        className={styles.toolButton}
+                        onClick={() => updateGrid(invertMaskGrid(gridRef.current))}
+                    >
+                        Инвертировать
+                    </button>
+                    <button
+                        className={styles.toolButton}
+                        onClick={() => updateGrid(createFilledMaskGrid(currentResolution, 1))}
+                    >
+                        Заполнить
+                    </button>
+                    <button
+                        className={styles.toolButton}
+                        onClick={() => updateGrid(createFilledMaskGrid(currentResolution, 0))}
+                    >
+                        Очистить
+                    </button>
+                    {resolutions.length > 1 && (
+                        <select
+                            className={styles.toolSelect}
+                            value={resolutionIndex}
+                            onChange={handleResolutionChange}
+                            aria-label="Разрешение сетки"
+                        >
+                            {resolutions.map((resolution, index) => (
+                                <option
+                                    key={`${resolution.width}x${resolution.height}`}
+                                    value={index}
+                                >
+                                    {resolution.width}x{resolution.height}
+                                </option>
+                            ))}
+                        </select>
                     )}
                 </div>
                 <button
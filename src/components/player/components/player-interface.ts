@@ -9,9 +9,37 @@ export interface PlayerComponentProps {
     onPlayPause?: () => void;
     onProgress?: (progress: {currentTime: number; duration: number}) => void;
     onPlaybackStatusChange?: (status: PlaybackStatus) => void;
+    /** Поток проигран до конца */
+    onEnded?: () => void;
 }
 
+/**
+ * Предполагаемая частота кадров для покадрового перехода. Сервер не сообщает частоту кадров потока ни в информации
+ * о камере, ни в плейлисте, поэтому берем типичные для камер 25 к/с
+ */
+export const ASSUMED_FRAME_RATE = 25;
+
+/**
+ * Ставит видео на паузу и переходит на один кадр вперед (1) или назад (-1)
+ */
+export const stepVideoFrame = (
+    video: HTMLVideoElement,
+    direction: 1 | -1,
+    frameRate: number = ASSUMED_FRAME_RATE
+): void => {
+    try {
+        video.pause();
+        const duration = Number.isFinite(video.duration) ? video.duration : undefined;
+        const next = Math.max(0, (video.currentTime || 0) + direction / frameRate);
+        video.currentTime = duration ? Math.min(next, duration) : next;
+    } catch (e) {
+        // no-op
+    }
+};
+
 export interface PlayerRef {
     seekBy: (seconds: number) => void;
+    /** Ставит видео на паузу и переходит на один кадр вперед (1) или назад (-1) */
+    stepFrame: (direction: 1 | -1) => void;
     getVideoElement?: () => HTMLVideoElement | null;
 }
@@ -0,0 +1,102 @@
+import React from 'react';
+import {format} from 'date-fns';
+
+import {ExportJob, ExportJobStatus} from '../../../../types/export';
+import {formatBytes} from '../../../../utils/export-manager';
+import styles from './save-stream-modal.module.scss';
+
+interface ExportQueueProps {
+    jobs: ExportJob[];
+    onCancel?: (id: string) => void;
+    onRetry?: (id: string) => void;
+    onRemove?: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<ExportJobStatus, string> = {
+    queued: 'В очереди',
+    downloading: 'Загрузка',
+    completed: 'Сохранено',
+    failed: 'Ошибка',
+    cancelled: 'Отменено'
+};
+
+const formatSecondsLeft = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    const secs = Math.ceil(seconds % 60);
+    return minutes > 0 ? `~${minutes} мин ${secs} с` : `~${secs} с`;
+};
+
+const getProgressText = (job: ExportJob): string => {
+    if (job.status === 'queued') return STATUS_LABELS.queued;
+    // Загрузку по ссылке ведет браузер, объем полученных данных здесь неизвестен
+    if (job.status === 'completed' && job.savedByLink && job.receivedBytes === 0) {
+        return 'Передано в загрузки браузера';
+    }
+
+    const received = formatBytes(job.receivedBytes);
+    const bytes = job.totalBytes !== null ? `${received} из ${formatBytes(job.totalBytes)}` : received;
+    const size =
+        job.packaging === 'single'
+            ? bytes
+            : `фрагмент ${Math.min(job.completedSegments + 1, job.segments.length)} из ${job.segments.length}, ${bytes}`;
+
+    if (job.status === 'downloading' && job.estimatedSecondsLeft !== null) {
+        return `${size}, осталось ${formatSecondsLeft(job.estimatedSecondsLeft)}`;
+    }
+    return job.status === 'downloading' ? size : `${STATUS_LABELS[job.status]}, ${size}`;
+};
+
+/**
+ * Список заданий экспорта с прогрессом, отменой и повтором
+ */
+export const ExportQueue: React.FC<ExportQueueProps> = ({jobs, onCancel, onRetry, onRemove}) => {
+    if (jobs.length === 0) return null;
+
+    return (
+        <ul className={styles.exportQueue}>
+            {jobs.map(job => {
+                const percent =
+                    job.status === 'completed' ? 100 : job.progress !== null ? Math.min(100, job.progress * 100) : null;
+                const isActive = job.status === 'queued' || job.status === 'downloading';
+                const canRetry = job.status === 'failed' || job.status === 'cancelled';
+
+                return (
+                    <li
+                        key={job.id}
+                        className={`${styles.exportJob} ${styles[job.status]}`}
+                    >
+                        <div className={styles.exportJobHeader}>
+                            <span className={styles.exportJobTitle}>
+                                {format(job.start, 'dd.MM.yyyy HH:mm:ss')} - {format(job.end, 'HH:mm:ss')}
+                            </span>
+                            <div className={styles.exportJobActions}>
+                                {isActive && onCancel && <button onClick={() => onCancel(job.id)}>Отмена</button>}
+                                {canRetry && onRetry && <button onClick={() => onRetry(job.id)}>Повторить</button>}
+                                {!isActive && onRemove && (
+                                    <button
+                                        onClick={() => onRemove(job.id)}
+                                        aria-label="Убрать из списка"
+                                    >
+                                        ×
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        <div className={styles.progressTrack}>
+                            <div
+                                className={`${styles.progressBar} ${
+                                    percent === null && job.status === 'downloading' ? styles.indeterminate : ''
+                                }`}
+                                style={{width: `${percent ?? (job.status === 'downloading' ? 100 : 0)}%`}}
+                            />
+                        </div>
+                        <div className={styles.exportJobStatus}>{getProgressText(job)}</div>
+                        {job.status === 'failed' && job.error && (
+                            <div className={styles.exportJobError}>{job.error}</div>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
@@ -10,20 +10,70 @@ registerLocale('ru', ru);
 import styles from './save-stream-modal.module.scss';
 import {addMinutesToDate} from '../../../../utils/dates';
 import {getFramesTimeline} from '../../../../utils/api';
+import {isRpcAuthError} from '../../../../utils/rpc-errors';
 import {useTimelineAuth} from '../../../../context/timeline-auth-context';
+import {useTransport} from '../../../../context/transport-context';
 import {Protocol} from '../../../../utils/types';
+import {ExportJob, RecordedSegmentsExport} from '../../../../types/export';
+import {FragmentTimeRange} from '../../../timeline/types';
+import {buildFragmentRanges} from '../../../timeline/utils/fragment-utils';
+import {ExportQueue} from './export-queue';
+
+/** Пропуски записи короче этого значения не разбивают фрагмент на отдельные файлы */
+const MIN_GAP_SECONDS = 10;
+
+/**
+ * Объединяет фрагменты, разделенные короткими пропусками, и обрезает их по границам периода
+ */
+const normalizeSegments = (ranges: FragmentTimeRange[], start: Date, end: Date): FragmentTimeRange[] => {
+    const result: FragmentTimeRange[] = [];
+
+    ranges.forEach(range => {
+        const rangeStart = Math.max(range.start.getTime(), start.getTime());
+        const rangeEnd = Math.min(range.end.getTime(), end.getTime());
+        if (rangeEnd <= rangeStart) return;
+
+        const last = result[result.length - 1];
+        if (last && rangeStart - last.end.getTime() <= MIN_GAP_SECONDS * 1000) {
+            last.end = new Date(rangeEnd);
+            return;
+        }
+        result.push({start: new Date(rangeStart), end: new Date(rangeEnd)});
+    });
+
+    return result;
+};
+
+const formatSegmentDuration = (milliseconds: number): string => {
+    const totalSeconds = Math.round(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) return `${hours} ч ${minutes} мин`;
+    if (minutes > 0) return `${minutes} мин ${seconds} с`;
+    return `${seconds} с`;
+};
 
 interface SaveStreamProps {
     isOpen: boolean;
     onClose: () => void;
-    onFinish?: (start: Date, finish: Date) => void;
+    /** options передается, если выбрана выгрузка нескольких записанных фрагментов */
+    onFinish?: (start: Date, finish: Date, options?: RecordedSegmentsExport) => void;
     currentTime: Date;
+    /** Период, выбранный заранее (например, выделением на шкале); по умолчанию ±2 минуты от currentTime */
+    initialRange?: {start: Date; end: Date} | null;
     url?: string;
     port?: number;
     credentials?: string;
     camera?: number;
     protocol?: Protocol;
     proxy?: string;
+    /** Задания экспорта: прогресс, ошибки, отмена и повтор загрузки */
+    exportJobs?: ExportJob[];
+    onCancelExport?: (id: string) => void;
+    onRetryExport?: (id: string) => void;
+    onRemoveExport?: (id: string) => void;
 }
 
 export const SaveStreamModal: React.FC<SaveStreamProps> = ({
@@ -31,22 +81,33 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
     onClose,
     onFinish,
     currentTime,
+    initialRange,
     url,
     port,
     credentials,
     camera,
     protocol,
-    proxy
+    proxy,
+    exportJobs = [],
+    onCancelExport,
+    onRetryExport,
+    onRemoveExport
 }) => {
     const modalRef = useRef<HTMLDivElement>(null);
-    const [startDate, setStartDate] = useState(addMinutesToDate(currentTime, -2));
-    const [endDate, setEndDate] = useState(addMinutesToDate(currentTime, 2));
+    const [startDate, setStartDate] = useState(initialRange?.start ?? addMinutesToDate(currentTime, -2));
+    const [endDate, setEndDate] = useState(initialRange?.end ?? addMinutesToDate(currentTime, 2));
 
     const {hasTimelineAccess, setTimelineAccess} = useTimelineAuth();
+    const transport = useTransport();
     const [highlightedDates, setHighlightedDates] = useState<Date[]>([]);
     const loadedMonths = useRef<Set<string>>(new Set());
     const [exportMessage, setExportMessage] = useState<string>('');
     const [isExporting, setIsExporting] = useState<boolean>(false);
+    const [onlyRecorded, setOnlyRecorded] = useState<boolean>(false);
+    const [packaging, setPackaging] = useState<'zip' | 'playlist'>('zip');
+    const [isEvidence, setIsEvidence] = useState<boolean>(false);
+    const [recordedSegments, setRecordedSegments] = useState<FragmentTimeRange[] | null>(null);
+    const [isLoadingSegments, setIsLoadingSegments] = useState<boolean>(false);
 
     const dayKey = (d: Date) => format(d, 'yyyy-MM-dd');
     const monthKey = (d: Date) => format(d, 'yyyy-MM');
@@ -90,7 +151,8 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
                     unitLength: 86400,
                     channel: camera,
                     protocol,
-                    proxy
+                    proxy,
+                    transport
                 });
 
                 const days: Date[] = [];
@@ -112,7 +174,7 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
 
                 loadedMonths.current.add(month.key);
             } catch (e) {
-                if (e instanceof Error && e.message === 'FORBIDDEN') {
+                if (isRpcAuthError(e)) {
                     setTimelineAccess(false);
                     return;
                 }
@@ -141,7 +203,8 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
                 unitLength: 1,
                 channel: camera,
                 protocol,
-                proxy
+                proxy,
+                transport
             });
 
             return result.timeline.some(hours => hours > 0);
@@ -151,6 +214,58 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
         }
     };
 
+    /**
+     * Записанные фрагменты периода по посекундной шкале кадров
+     */
+    const loadRecordedSegments = async (start: Date, end: Date): Promise<FragmentTimeRange[]> => {
+        if (!url || !port || !credentials || !hasTimelineAccess) return [];
+
+        const result = await getFramesTimeline({
+            url,
+            port,
+            credentials,
+            startTime: start,
+            endTime: end,
+            unitLength: 1,
+            channel: camera,
+            protocol,
+            proxy,
+            transport
+        });
+
+        return normalizeSegments(buildFragmentRanges(result.timeline, start, 1), start, end);
+    };
+
+    // Список фрагментов обновляется при смене периода, чтобы пользователь видел, что попадет в экспорт
+    useEffect(() => {
+        if (!isOpen || !onlyRecorded) return;
+
+        let cancelled = false;
+        setIsLoadingSegments(true);
+        setRecordedSegments(null);
+
+        loadRecordedSegments(startDate, endDate)
+            .then(segments => {
+                if (!cancelled) setRecordedSegments(segments);
+            })
+            .catch(e => {
+                if (cancelled) return;
+                if (isRpcAuthError(e)) {
+                    setTimelineAccess(false);
+                }
+                console.error('Error loading recorded segments:', e);
+                setRecordedSegments([]);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoadingSegments(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen, onlyRecorded, startDate, endDate, url, port, credentials, camera, hasTimelineAccess]);
+
     // Обработка клика вне модального окна для его закрытия
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -204,6 +319,28 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
         setExportMessage('');
 
         try {
+            if (onlyRecorded) {
+                const segments = recordedSegments ?? (await loadRecordedSegments(startDate, endDate));
+
+                if (segments.length === 0) {
+                    setExportMessage('За указанный период записи отсутствуют');
+                    setIsExporting(false);
+                    return;
+                }
+
+                if (isEvidence) {
+                    onFinish(startDate, endDate, {packaging: 'evidence', segments});
+                } else if (segments.length === 1) {
+                    // Один фрагмент сохраняется обычным файлом без пустых участков по краям
+                    onFinish(segments[0].start, segments[0].end);
+                } else {
+                    onFinish(startDate, endDate, {packaging, segments});
+                }
+                setExportMessage('Экспорт добавлен в очередь');
+                setIsExporting(false);
+                return;
+            }
+
             const hasRecords = await checkRecordAvailability(startDate, endDate);
 
             if (!hasRecords) {
@@ -212,13 +349,15 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
                 return;
             }
 
-            setExportMessage('Экспорт архива начался...');
-
-            onFinish(startDate, endDate);
+            if (isEvidence) {
+                onFinish(startDate, endDate, {packaging: 'evidence', segments: [{start: startDate, end: endDate}]});
+            } else {
+                onFinish(startDate, endDate);
+            }
 
-            setTimeout(() => {
-                onClose();
-            }, 1000);
+            // Окно остается открытым: ход загрузки виден в списке экспорта, можно добавить еще период
+            setExportMessage('Экспорт добавлен в очередь');
+            setIsExporting(false);
         } catch (error) {
             console.error('Export error:', error);
             setExportMessage('Ошибка при проверке доступности записей');
@@ -228,11 +367,16 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
 
     if (!isOpen) return null;
 
+    const recordedDuration = (recordedSegments ?? []).reduce(
+        (sum, segment) => sum + segment.end.getTime() - segment.start.getTime(),
+        0
+    );
+
     const getMessageClassName = () => {
         if (exportMessage.includes('отсутствуют') || exportMessage.includes('Ошибка')) {
             return styles.error;
         }
-        if (exportMessage.includes('начался')) {
+        if (exportMessage.includes('добавлен')) {
             return styles.success;
         }
         return styles.info;
@@ -301,10 +445,88 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
                     />
                 </div>
 
+                <div className={styles.mt2}>
+                    <label className={styles.option}>
+                        <input
+                            type="checkbox"
+                            checked={onlyRecorded}
+                            onChange={event => {
+                                setOnlyRecorded(event.target.checked);
+                                setExportMessage('');
+                            }}
+                        />
+                        Только записанные фрагменты
+                    </label>
+                    <label className={styles.option}>
+                        <input
+                            type="checkbox"
+                            checked={isEvidence}
+                            onChange={event => {
+                                setIsEvidence(event.target.checked);
+                                setExportMessage('');
+                            }}
+                        />
+                        Пакет для передачи (ZIP, манифест, SHA-256)
+                    </label>
+                </div>
+
+                {onlyRecorded && (
+                    <div className={styles.recordedSegments}>
+                        {!isEvidence && (
+                            <div className={styles.packaging}>
+                                <label className={styles.option}>
+                                    <input
+                                        type="radio"
+                                        name="export-packaging"
+                                        checked={packaging === 'zip'}
+                                        onChange={() => setPackaging('zip')}
+                                    />
+                                    ZIP-архив
+                                </label>
+                                <label className={styles.option}>
+                                    <input
+                                        type="radio"
+                                        name="export-packaging"
+                                        checked={packaging === 'playlist'}
+                                        onChange={() => setPackaging('playlist')}
+                                    />
+                                    Файлы и плейлист M3U
+                                </label>
+                            </div>
+                        )}
+
+                        {isLoadingSegments && <div className={styles.segmentsSummary}>Поиск записей...</div>}
+                        {!isLoadingSegments && recordedSegments && (
+                            <>
+                                <div className={styles.segmentsSummary}>
+                                    {recordedSegments.length > 0
+                                        ? `Фрагментов: ${recordedSegments.length}, записано ${formatSegmentDuration(
+                                              recordedDuration
+                                          )} из ${formatSegmentDuration(endDate.getTime() - startDate.getTime())}`
+                                        : 'Записи в периоде не найдены'}
+                                </div>
+                                <ul className={styles.segmentList}>
+                                    {recordedSegments.map(segment => (
+                                        <li key={segment.start.getTime()}>
+                                            <span>
+                                                {format(segment.start, 'dd.MM HH:mm:ss')} -{' '}
+                                                {format(segment.end, 'HH:mm:ss')}
+                                            </span>
+                                            <span>
+                                                {formatSegmentDuration(segment.end.getTime() - segment.start.getTime())}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                    </div>
+                )}
+
                 <button
                     className={styles.saveBtn}
                     onClick={onSave}
-                    disabled={isExporting}
+                    disabled={isExporting || (onlyRecorded && isLoadingSegments)}
                 >
                     {isExporting ? 'Проверка...' : 'Сохранить'}
                 </button>
@@ -312,6 +534,13 @@ export const SaveStreamModal: React.FC<SaveStreamProps> = ({
                 {exportMessage && (
                     <div className={`${styles.exportMessage} ${getMessageClassName()}`}>{exportMessage}</div>
                 )}
+
+                <ExportQueue
+                    jobs={exportJobs}
+                    onCancel={onCancelExport}
+                    onRetry={onRetryExport}
+                    onRemove={onRemoveExport}
+                />
             </div>
         </div>
     );
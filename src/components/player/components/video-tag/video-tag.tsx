@@ -1,16 +1,18 @@
 /* eslint-disable jsx-a11y/media-has-caption */
 import React, {forwardRef, useEffect, useImperativeHandle, useRef, useState} from 'react';
 import {VideoContainer} from '../video-container';
-import type {PlayerRef} from '../player-interface';
+import {stepVideoFrame, type PlayerRef} from '../player-interface';
 
 export interface VideoTagProps {
     url: string;
     playing: boolean;
     muted?: boolean;
+    playbackSpeed?: number;
     posterUrl?: string;
     onProgress?: (progress: {currentTime: number; duration: number}) => void;
     onPlayPause?: (playing?: boolean) => void;
     onPlaybackStatusChange?: (status: import('../player-interface').PlaybackStatus) => void;
+    onEnded?: () => void;
     updateServerTime?: () => Promise<Date | undefined>;
     setProgress?: (seconds: number) => void;
     overlayText?: string;
@@ -23,10 +25,12 @@ export const VideoTag = forwardRef<PlayerRef, VideoTagProps>((props, ref) => {
         url,
         playing = true,
         muted = true,
+        playbackSpeed,
         posterUrl,
         onProgress,
         onPlayPause,
         onPlaybackStatusChange,
+        onEnded,
         overlayText,
         updateServerTime,
         setProgress
@@ -53,6 +57,9 @@ export const VideoTag = forwardRef<PlayerRef, VideoTagProps>((props, ref) => {
                 // no-op
             }
         },
+        stepFrame: (direction: 1 | -1) => {
+            if (videoRef.current) stepVideoFrame(videoRef.current, direction);
+        },
         getVideoElement: () => videoRef.current
     }));
 
@@ -135,6 +142,14 @@ export const VideoTag = forwardRef<PlayerRef, VideoTagProps>((props, ref) => {
         handleMuteToggle();
     }, [muted, mutedRef]);
 
+    // defaultPlaybackRate сохраняет скорость после video.load() при смене источника
+    useEffect(() => {
+        if (videoRef.current) {
+            videoRef.current.defaultPlaybackRate = playbackSpeed || 1;
+            videoRef.current.playbackRate = playbackSpeed || 1;
+        }
+    }, [playbackSpeed]);
+
     // Отслеживаем фактический статус воспроизведения и сообщаем родителю
     useEffect(() => {
         const video = videoRef.current;
@@ -293,6 +308,7 @@ export const VideoTag = forwardRef<PlayerRef, VideoTagProps>((props, ref) => {
                 muted={muted}
                 poster={posterUrl}
                 autoPlay={playing}
+                onEnded={onEnded}
             />
         </VideoContainer>
     );
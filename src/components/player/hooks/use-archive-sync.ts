@@ -0,0 +1,352 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {addDays, format, startOfDay} from 'date-fns';
+
+import {useTime} from '../../../context/time-context';
+import {useTransport} from '../../../context/transport-context';
+import {getFramesTimeline} from '../../../utils/api';
+import {getFramesCacheKey, readCachedFramesDay, writeCachedFramesDay} from '../../../utils/frames-cache';
+import {Protocol} from '../../../utils/types';
+import {RunLengthTimeline} from '../../timeline/utils/run-length-timeline';
+import type {PlayerRef} from '../components/player-interface';
+
+/** Расхождение с ведущим плеером, в пределах которого тайл считается синхронным, сек */
+const SYNC_TOLERANCE_SECONDS = 0.3;
+/** Расхождение, начиная с которого тайл перематывается вместо подстройки скорости, сек */
+const SEEK_THRESHOLD_SECONDS = 2;
+/** Относительная поправка скорости воспроизведения для догоняющего или отстающего тайла */
+const RATE_CORRECTION = 0.1;
+const SYNC_INTERVAL_MS = 1000;
+
+const SECONDS_IN_DAY = 86400;
+/** Как часто дозагружаются текущие сутки, когда воспроизведение вышло за загруженные данные, мс */
+const TODAY_RELOAD_INTERVAL_MS = 60000;
+/** Задержка повторной загрузки суток после ошибки; удваивается с каждой неудачей до максимума, мс */
+const RANGES_RETRY_BASE_MS = 2000;
+const RANGES_RETRY_MAX_MS = 60000;
+
+interface UseArchiveSyncParams {
+    /** Синхронизация включена: сетка камер в режиме архива */
+    enabled: boolean;
+    /** Камеры ведомых тайлов (без активной камеры) */
+    cameras: number[];
+    isPlaying: boolean;
+    playbackSpeed: number;
+    url: string;
+    port: number;
+    credentials: string;
+    protocol?: Protocol;
+    proxy?: string;
+}
+
+interface UseArchiveSyncResult {
+    /** ref-callback для плеера тайла */
+    registerTile: (camera: number) => (player: PlayerRef | null) => void;
+    /** Обработчик onFragmentTimeUpdate плеера тайла */
+    handleTileFragmentTime: (camera: number, time: Date) => void;
+    /** Время начала потока тайла */
+    getTileStartTime: (camera: number) => Date | null;
+    /** Камеры, у которых в текущий момент нет записи */
+    noRecordingCameras: number[];
+}
+
+interface TileSyncState {
+    player: PlayerRef | null;
+    /** Абсолютное время нулевой позиции видео тайла; null, пока поток не начал воспроизведение */
+    baseTime: number | null;
+}
+
+interface RecordingDay {
+    /** Посекундное наличие записи; null - загрузка завершилась ошибкой */
+    timeline: RunLengthTimeline | null;
+    /** Момент, до которого загружены данные: начало следующих суток или время запроса для текущих */
+    loadedUntil: number;
+    /** Число ошибок подряд */
+    failures: number;
+    /** Момент, до которого сутки с ошибкой не запрашиваются повторно */
+    retryAt: number;
+}
+
+const getDayKey = (time: number): string => format(startOfDay(time), 'yyyy-MM-dd');
+
+const getRecordingDayKey = (camera: number, time: number): string => `${camera}|${getDayKey(time)}`;
+
+/**
+ * Синхронизирует воспроизведение архива в тайлах сетки с активным плеером.
+ * Ведущим считается абсолютное время активного плеера (serverTime + progress из TimeContext).
+ * Небольшое расхождение устраняется изменением скорости тайла, большое - перемоткой или перезапуском потока.
+ * Если у камеры тайла нет записи на текущий момент, тайл попадает в noRecordingCameras, а остальные продолжают
+ */
+export const useArchiveSync = ({
+    enabled,
+    cameras,
+    isPlaying,
+    playbackSpeed,
+    url,
+    port,
+    credentials,
+    protocol,
+    proxy
+}: UseArchiveSyncParams): UseArchiveSyncResult => {
+    const {serverTime, progress} = useTime();
+    const transport = useTransport();
+
+    const [noRecordingCameras, setNoRecordingCameras] = useState<number[]>([]);
+    const [tileStartTimes, setTileStartTimes] = useState<Record<number, Date>>({});
+
+    const serverTimeRef = useRef<Date | null>(serverTime);
+    const progressRef = useRef<number>(progress);
+    const isPlayingRef = useRef<boolean>(isPlaying);
+    const playbackSpeedRef = useRef<number>(playbackSpeed);
+    const camerasRef = useRef<number[]>(cameras);
+    const noRecordingRef = useRef<number[]>([]);
+
+    const tilesRef = useRef<Map<number, TileSyncState>>(new Map());
+    const tileRefCallbacksRef = useRef<Map<number, (player: PlayerRef | null) => void>>(new Map());
+    // Наличие записи по камерам и суткам: ключ getRecordingDayKey
+    const recordingDaysRef = useRef<Map<string, RecordingDay>>(new Map());
+    const loadingDaysRef = useRef<Set<string>>(new Set());
+    // Поколение запросов: ответы, пришедшие после смены сервера или учетных данных, отбрасываются
+    const requestGenerationRef = useRef<number>(0);
+
+    serverTimeRef.current = serverTime;
+    progressRef.current = progress;
+    isPlayingRef.current = isPlaying;
+    playbackSpeedRef.current = playbackSpeed;
+    camerasRef.current = cameras;
+
+    // Смена серверного времени перезапускает потоки всех тайлов с нового момента
+    useEffect(() => {
+        tilesRef.current.forEach(tile => {
+            tile.baseTime = null;
+        });
+        setTileStartTimes(prev => (Object.keys(prev).length ? {} : prev));
+    }, [serverTime]);
+
+    useEffect(() => {
+        requestGenerationRef.current += 1;
+        recordingDaysRef.current.clear();
+        loadingDaysRef.current.clear();
+    }, [url, port, credentials, protocol, proxy]);
+
+    useEffect(() => {
+        if (!enabled) {
+            noRecordingRef.current = [];
+            setNoRecordingCameras(prev => (prev.length ? [] : prev));
+        }
+    }, [enabled]);
+
+    const registerTile = useCallback((camera: number) => {
+        let callback = tileRefCallbacksRef.current.get(camera);
+        if (!callback) {
+            callback = (player: PlayerRef | null) => {
+                if (player) {
+                    const tile = tilesRef.current.get(camera);
+                    if (tile) {
+                        tile.player = player;
+                    } else {
+                        tilesRef.current.set(camera, {player, baseTime: null});
+                    }
+                } else {
+                    tilesRef.current.delete(camera);
+                }
+            };
+            tileRefCallbacksRef.current.set(camera, callback);
+        }
+        return callback;
+    }, []);
+
+    const handleTileFragmentTime = useCallback((camera: number, time: Date) => {
+        const tile = tilesRef.current.get(camera);
+        if (tile) {
+            tile.baseTime = time.getTime();
+        }
+    }, []);
+
+    const getTileStartTime = useCallback(
+        (camera: number): Date | null => tileStartTimes[camera] ?? serverTime,
+        [tileStartTimes, serverTime]
+    );
+
+    const restartTile = useCallback((camera: number, time: number) => {
+        const tile = tilesRef.current.get(camera);
+        if (tile) {
+            tile.baseTime = null;
+        }
+        setTileStartTimes(prev => ({...prev, [camera]: new Date(time)}));
+    }, []);
+
+    /**
+     * Загружает посекундное наличие записи камеры за сутки, как шкала времени для активной камеры.
+     * Завершившиеся сутки берутся из общего с шкалой кэша frames-cache и сохраняются в него,
+     * поэтому данные камеры скачиваются один раз, чем бы они ни были запрошены
+     */
+    const loadRecordingDay = useCallback(
+        async (camera: number, time: number) => {
+            const key = getRecordingDayKey(camera, time);
+            const dayKey = getDayKey(time);
+            const dayStart = startOfDay(time);
+            const nextDayStart = startOfDay(addDays(dayStart, 1));
+            const loadedUntil = Math.min(nextDayStart.getTime(), Date.now());
+            const generation = requestGenerationRef.current;
+
+            loadingDaysRef.current.add(key);
+
+            let timeline: RunLengthTimeline | null = null;
+            try {
+                const cacheKey = getFramesCacheKey({url, port, protocol, proxy, credentials, camera});
+                const cachedDay = await readCachedFramesDay(cacheKey, dayKey);
+                if (cachedDay) {
+                    timeline = new RunLengthTimeline(dayStart, 1, cachedDay.length, cachedDay.runs);
+                } else {
+                    const response = await getFramesTimeline({
+                        url,
+                        port,
+                        credentials,
+                        startTime: dayStart,
+                        endTime: new Date(loadedUntil),
+                        unitLength: 1,
+                        stream: 'video',
+                        channel: camera,
+                        protocol,
+                        proxy,
+                        transport
+                    });
+                    // Бэкенд возвращает данные за весь месяц: берем только запрошенные сутки
+                    timeline = RunLengthTimeline.fromArray(response.timeline.slice(0, SECONDS_IN_DAY), dayStart);
+                    if (loadedUntil === nextDayStart.getTime()) {
+                        void writeCachedFramesDay(cacheKey, dayKey, nextDayStart, timeline);
+                    }
+                }
+            } catch (error) {
+                console.warn('Не удалось загрузить наличие записи для камеры тайла', camera, error);
+            }
+
+            if (generation !== requestGenerationRef.current) return;
+
+            loadingDaysRef.current.delete(key);
+
+            if (timeline) {
+                recordingDaysRef.current.set(key, {timeline, loadedUntil, failures: 0, retryAt: 0});
+                return;
+            }
+
+            // Ошибка не запоминается на все сутки: запрос повторяется с нарастающей задержкой,
+            // чтобы не дергать сервер на каждом шаге синхронизации
+            const previous = recordingDaysRef.current.get(key);
+            const failures = (previous?.failures ?? 0) + 1;
+            const retryDelay = Math.min(RANGES_RETRY_BASE_MS * 2 ** (failures - 1), RANGES_RETRY_MAX_MS);
+            recordingDaysRef.current.set(key, {
+                timeline: previous?.timeline ?? null,
+                loadedUntil: previous?.loadedUntil ?? 0,
+                failures,
+                retryAt: Date.now() + retryDelay
+            });
+        },
+        [url, port, credentials, protocol, proxy, transport]
+    );
+
+    /**
+     * Проверяет наличие записи у камеры в указанный момент и подгружает сутки, если их данных еще нет.
+     * Пока данных нет, считаем что запись есть
+     */
+    const hasRecordingAt = useCallback(
+        (camera: number, time: number): boolean => {
+            const key = getRecordingDayKey(camera, time);
+            const day = recordingDaysRef.current.get(key);
+            const needsLoad =
+                !day ||
+                (day.failures > 0
+                    ? Date.now() >= day.retryAt
+                    : time >= day.loadedUntil && Date.now() - day.loadedUntil >= TODAY_RELOAD_INTERVAL_MS);
+
+            if (needsLoad && !loadingDaysRef.current.has(key)) {
+                void loadRecordingDay(camera, time);
+            }
+
+            if (!day?.timeline || time >= day.loadedUntil) {
+                return true;
+            }
+
+            return day.timeline.hasFrameAt(new Date(time));
+        },
+        [loadRecordingDay]
+    );
+
+    const syncTile = useCallback(
+        (camera: number, target: number) => {
+            const tile = tilesRef.current.get(camera);
+            const video = tile?.player?.getVideoElement?.();
+            if (!tile || !video || tile.baseTime === null || video.readyState < 2) {
+                return;
+            }
+
+            const speed = playbackSpeedRef.current;
+            const drift = (tile.baseTime + video.currentTime * 1000 - target) / 1000;
+
+            if (Math.abs(drift) >= SEEK_THRESHOLD_SECONDS) {
+                const nextPosition = video.currentTime - drift;
+                const seekableEnd = video.seekable.length ? video.seekable.end(video.seekable.length - 1) : 0;
+
+                // За пределы загруженного потока перемотать нельзя - перезапускаем поток с нужного момента
+                if (nextPosition < 0 || nextPosition > seekableEnd) {
+                    restartTile(camera, target);
+                    return;
+                }
+
+                video.currentTime = nextPosition;
+                video.playbackRate = speed;
+                return;
+            }
+
+            if (!isPlayingRef.current || Math.abs(drift) <= SYNC_TOLERANCE_SECONDS) {
+                video.playbackRate = speed;
+                return;
+            }
+
+            // Тайл впереди - замедляем, отстает - ускоряем
+            video.playbackRate = speed * (drift > 0 ? 1 - RATE_CORRECTION : 1 + RATE_CORRECTION);
+        },
+        [restartTile]
+    );
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const intervalId = setInterval(() => {
+            const base = serverTimeRef.current;
+            if (!base) return;
+
+            const target = base.getTime() + progressRef.current * 1000;
+            const noRecording: number[] = [];
+
+            camerasRef.current.forEach(camera => {
+                if (!hasRecordingAt(camera, target)) {
+                    noRecording.push(camera);
+                    return;
+                }
+
+                // Запись появилась после пропуска: поток тайла стоит на начале следующего фрагмента,
+                // поэтому перезапускаем его с текущего момента
+                if (noRecordingRef.current.includes(camera)) {
+                    restartTile(camera, target);
+                    return;
+                }
+
+                syncTile(camera, target);
+            });
+
+            const changed =
+                noRecording.length !== noRecordingRef.current.length ||
+                noRecording.some(camera => !noRecordingRef.current.includes(camera));
+
+            if (changed) {
+                noRecordingRef.current = noRecording;
+                setNoRecordingCameras(noRecording);
+            }
+        }, SYNC_INTERVAL_MS);
+
+        return () => clearInterval(intervalId);
+    }, [enabled, hasRecordingAt, restartTile, syncTile]);
+
+    return {registerTile, handleTileFragmentTime, getTileStartTime, noRecordingCameras};
+};
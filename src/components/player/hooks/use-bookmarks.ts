@@ -0,0 +1,106 @@
+import {useCallback} from 'react';
+
+import {Bookmark, BookmarksFileFormat} from '../../../types/bookmark';
+import {createLocalId} from '../../../utils/camera-storage';
+import {
+    getBookmarksFileName,
+    getBookmarksStorageKey,
+    loadBookmarks,
+    mergeBookmarks,
+    parseBookmarks,
+    saveBookmarks,
+    serializeBookmarks,
+    sortBookmarks
+} from '../../../utils/bookmarks';
+import {clickA} from '../../../utils/url-params';
+import {useCameraStoredList} from './use-camera-stored-list';
+
+interface UseBookmarksParams {
+    camera: number;
+    url: string;
+    port: number;
+}
+
+interface UseBookmarksResult {
+    bookmarks: Bookmark[];
+    addBookmark: (time: Date, label?: string) => Bookmark;
+    renameBookmark: (id: string, label: string) => void;
+    removeBookmark: (id: string) => void;
+    exportBookmarks: (fileFormat: BookmarksFileFormat) => void;
+    /** Импортирует закладки из файла и возвращает количество добавленных */
+    importBookmarks: (file: File) => Promise<number>;
+}
+
+const MIME_TYPES: Record<BookmarksFileFormat, string> = {
+    json: 'application/json',
+    csv: 'text/csv'
+};
+
+const readFileAsText = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result ?? ''));
+        reader.onerror = () => reject(reader.error ?? new Error('Не удалось прочитать файл'));
+        reader.readAsText(file);
+    });
+
+/**
+ * Закладки текущей камеры с сохранением в localStorage
+ */
+export const useBookmarks = ({camera, url, port}: UseBookmarksParams): UseBookmarksResult => {
+    const [bookmarks, updateBookmarks] = useCameraStoredList({
+        storageKey: getBookmarksStorageKey(camera, url, port),
+        load: loadBookmarks,
+        save: saveBookmarks,
+        sort: sortBookmarks
+    });
+
+    const addBookmark = useCallback(
+        (time: Date, label: string = ''): Bookmark => {
+            const bookmark: Bookmark = {id: createLocalId(), time, label, createdAt: new Date()};
+            updateBookmarks(prev => [...prev, bookmark]);
+            return bookmark;
+        },
+        [updateBookmarks]
+    );
+
+    const renameBookmark = useCallback(
+        (id: string, label: string) => {
+            updateBookmarks(prev => prev.map(bookmark => (bookmark.id === id ? {...bookmark, label} : bookmark)));
+        },
+        [updateBookmarks]
+    );
+
+    const removeBookmark = useCallback(
+        (id: string) => {
+            updateBookmarks(prev => prev.filter(bookmark => bookmark.id !== id));
+        },
+        [updateBookmarks]
+    );
+
+    const exportBookmarks = useCallback(
+        (fileFormat: BookmarksFileFormat) => {
+            const blob = new Blob([serializeBookmarks(bookmarks, fileFormat)], {type: MIME_TYPES[fileFormat]});
+            const objectUrl = URL.createObjectURL(blob);
+            clickA(objectUrl, getBookmarksFileName(camera, fileFormat));
+            setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+        },
+        [bookmarks, camera]
+    );
+
+    const importBookmarks = useCallback(
+        async (file: File): Promise<number> => {
+            const text = await readFileAsText(file);
+            const fileFormat: BookmarksFileFormat =
+                /\.csv$/i.test(file.name) || (!/\.json$/i.test(file.name) && !/^\s*\[/.test(text)) ? 'csv' : 'json';
+            const imported = parseBookmarks(text, fileFormat);
+
+            const merged = mergeBookmarks(bookmarks, imported);
+            updateBookmarks(() => merged);
+            return merged.length - bookmarks.length;
+        },
+        [bookmarks, updateBookmarks]
+    );
+
+    return {bookmarks, addBookmark, renameBookmark, removeBookmark, exportBookmarks, importBookmarks};
+};
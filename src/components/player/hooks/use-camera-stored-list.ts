@@ -0,0 +1,55 @@
+import {useCallback, useEffect, useState} from 'react';
+
+interface UseCameraStoredListParams<T> {
+    /** Ключ localStorage текущей камеры и сервера */
+    storageKey: string;
+    load: (storageKey: string) => T[];
+    save: (storageKey: string, items: T[]) => void;
+    /** Порядок элементов после каждого изменения */
+    sort: (items: T[]) => T[];
+}
+
+interface StoredListState<T> {
+    /** Ключ localStorage, из которого загружен список */
+    storageKey: string;
+    items: T[];
+    /** Список изменен пользователем и должен быть сохранен */
+    changed: boolean;
+}
+
+/**
+ * Список камеры (закладки, пресеты фильтра) с сохранением в localStorage.
+ * При смене камеры или сервера список загружается из нового ключа, а изменения сохраняются
+ * в ключ, из которого список был загружен
+ */
+export const useCameraStoredList = <T>({
+    storageKey,
+    load,
+    save,
+    sort
+}: UseCameraStoredListParams<T>): [T[], (updater: (prev: T[]) => T[]) => void] => {
+    const [state, setState] = useState<StoredListState<T>>(() => ({
+        storageKey,
+        items: load(storageKey),
+        changed: false
+    }));
+
+    useEffect(() => {
+        setState({storageKey, items: load(storageKey), changed: false});
+    }, [storageKey, load]);
+
+    useEffect(() => {
+        if (state.changed) {
+            save(state.storageKey, state.items);
+        }
+    }, [state, save]);
+
+    const update = useCallback(
+        (updater: (prev: T[]) => T[]) => {
+            setState(prev => ({...prev, items: sort(updater(prev.items)), changed: true}));
+        },
+        [sort]
+    );
+
+    return [state.items, update];
+};
@@ -0,0 +1,76 @@
+import {useCallback, useEffect, useMemo, useRef} from 'react';
+
+import {EventsPlaybackSettings, MotionEvent} from '../../../types/motion-filter';
+import {buildEventsPlaybackRanges, getEventsPlaybackStep} from '../../../utils/motion-events';
+
+interface UseEventsPlaybackParams {
+    enabled: boolean;
+    events: MotionEvent[];
+    settings: EventsPlaybackSettings;
+    /** Переход к началу следующего участка */
+    onSeek: (time: Date) => void;
+    /** Участков после текущего момента нет */
+    onEnd: () => void;
+}
+
+interface UseEventsPlaybackResult {
+    /**
+     * Проверяет текущий момент воспроизведения; возвращает true, если запущен переход
+     * и обычная обработка прогресса не нужна
+     */
+    handlePlaybackTime: (time: Date) => boolean;
+}
+
+/**
+ * Воспроизведение только событий перемотками на клиенте. Не зависит от filter_seconds,
+ * поэтому одинаково работает на всех версиях сервера
+ */
+export const useEventsPlayback = ({
+    enabled,
+    events,
+    settings,
+    onSeek,
+    onEnd
+}: UseEventsPlaybackParams): UseEventsPlaybackResult => {
+    const ranges = useMemo(() => buildEventsPlaybackRanges(events, settings), [events, settings]);
+    // Цель перехода, который еще не применен: до смены потока прогресс приходит от старой позиции
+    const pendingSeekRef = useRef<number | null>(null);
+    const hasEndedRef = useRef<boolean>(false);
+
+    useEffect(() => {
+        pendingSeekRef.current = null;
+        hasEndedRef.current = false;
+    }, [enabled, ranges]);
+
+    const handlePlaybackTime = useCallback(
+        (time: Date): boolean => {
+            // Пока события не загружены, воспроизводим как обычно
+            if (!enabled || ranges.length === 0) return false;
+
+            const step = getEventsPlaybackStep(ranges, time);
+
+            if (step.action === 'play') {
+                pendingSeekRef.current = null;
+                hasEndedRef.current = false;
+                return false;
+            }
+
+            if (step.action === 'seek') {
+                if (pendingSeekRef.current !== step.time.getTime()) {
+                    pendingSeekRef.current = step.time.getTime();
+                    onSeek(step.time);
+                }
+                return true;
+            }
+
+            if (!hasEndedRef.current) {
+                hasEndedRef.current = true;
+                onEnd();
+            }
+            return true;
+        },
+        [enabled, ranges, onSeek, onEnd]
+    );
+
+    return {handlePlaybackTime};
+};
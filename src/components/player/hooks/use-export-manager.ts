@@ -0,0 +1,40 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+
+import {ExportJob, ExportRequest} from '../../../types/export';
+import {ExportManager} from '../../../utils/export-manager';
+import {useTransport} from '../../../context/transport-context';
+
+interface UseExportManagerResult {
+    exportJobs: ExportJob[];
+    enqueueExport: (request: ExportRequest) => ExportJob;
+    cancelExport: (id: string) => void;
+    retryExport: (id: string) => void;
+    removeExport: (id: string) => void;
+}
+
+/**
+ * Очередь экспорта архива плеера. Загрузки продолжаются при закрытом окне сохранения
+ * и отменяются при размонтировании плеера
+ */
+export const useExportManager = (): UseExportManagerResult => {
+    const transport = useTransport();
+    const managerRef = useRef<ExportManager | null>(null);
+    if (!managerRef.current) {
+        managerRef.current = new ExportManager(transport);
+    }
+    const manager = managerRef.current;
+
+    const [exportJobs, setExportJobs] = useState<ExportJob[]>(() => manager.getJobs());
+
+    useEffect(() => {
+        manager.on(setExportJobs);
+        return () => manager.dispose();
+    }, [manager]);
+
+    const enqueueExport = useCallback((request: ExportRequest) => manager.enqueue(request), [manager]);
+    const cancelExport = useCallback((id: string) => manager.cancel(id), [manager]);
+    const retryExport = useCallback((id: string) => manager.retry(id), [manager]);
+    const removeExport = useCallback((id: string) => manager.remove(id), [manager]);
+
+    return {exportJobs, enqueueExport, cancelExport, retryExport, removeExport};
+};
@@ -0,0 +1,51 @@
+import {useCallback, useEffect, useRef} from 'react';
+
+interface UseLoopPlaybackParams {
+    /** Повторяемый интервал архива; null - повтор выключен */
+    range: {start: Date; end: Date} | null;
+    /** Возврат к началу интервала */
+    onRestart: (start: Date) => void;
+}
+
+interface UseLoopPlaybackResult {
+    /**
+     * Проверяет текущий момент воспроизведения; возвращает true, если запущен возврат к началу
+     * и обычная обработка прогресса не нужна
+     */
+    handlePlaybackTime: (time: Date) => boolean;
+}
+
+/**
+ * Повтор интервала архива: после его конца воспроизведение возвращается к началу
+ */
+export const useLoopPlayback = ({range, onRestart}: UseLoopPlaybackParams): UseLoopPlaybackResult => {
+    // Возврат уже запрошен: до его применения прогресс приходит от старой позиции
+    const isRestartPendingRef = useRef<boolean>(false);
+
+    const rangeStart = range?.start.getTime();
+    const rangeEnd = range?.end.getTime();
+
+    useEffect(() => {
+        isRestartPendingRef.current = false;
+    }, [rangeStart, rangeEnd]);
+
+    const handlePlaybackTime = useCallback(
+        (time: Date): boolean => {
+            if (!range) return false;
+
+            if (time.getTime() < range.end.getTime()) {
+                isRestartPendingRef.current = false;
+                return false;
+            }
+
+            if (!isRestartPendingRef.current) {
+                isRestartPendingRef.current = true;
+                onRestart(range.start);
+            }
+            return true;
+        },
+        [range, onRestart]
+    );
+
+    return {handlePlaybackTime};
+};
@@ -0,0 +1,107 @@
+import {useCallback} from 'react';
+
+import {MotionFilterPreset, TimelineMotionFilter} from '../../../types/motion-filter';
+import {createLocalId} from '../../../utils/camera-storage';
+import {
+    findPresetByFilter,
+    getPresetsFileName,
+    getPresetsStorageKey,
+    loadPresets,
+    mergePresets,
+    parsePresets,
+    savePresets,
+    serializePresets,
+    sortPresets
+} from '../../../utils/motion-filter-presets';
+import {clickA} from '../../../utils/url-params';
+import {useCameraStoredList} from './use-camera-stored-list';
+
+interface UseMotionFilterPresetsParams {
+    camera: number;
+    url: string;
+    port: number;
+}
+
+export interface UseMotionFilterPresetsResult {
+    presets: MotionFilterPreset[];
+    /** Сохраняет фильтр под именем; если такой фильтр уже есть, переименовывает существующий пресет */
+    savePreset: (name: string, filter: TimelineMotionFilter) => MotionFilterPreset;
+    renamePreset: (id: string, name: string) => void;
+    removePreset: (id: string) => void;
+    exportPresets: () => void;
+    /** Импортирует пресеты из JSON-файла и возвращает количество добавленных */
+    importPresets: (file: File) => Promise<number>;
+}
+
+const readFileAsText = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result ?? ''));
+        reader.onerror = () => reject(reader.error ?? new Error('Не удалось прочитать файл'));
+        reader.readAsText(file);
+    });
+
+/**
+ * Пресеты фильтра движения текущей камеры с сохранением в localStorage
+ */
+export const useMotionFilterPresets = ({
+    camera,
+    url,
+    port
+}: UseMotionFilterPresetsParams): UseMotionFilterPresetsResult => {
+    const [presets, updatePresets] = useCameraStoredList({
+        storageKey: getPresetsStorageKey(camera, url, port),
+        load: loadPresets,
+        save: savePresets,
+        sort: sortPresets
+    });
+
+    const savePreset = useCallback(
+        (name: string, filter: TimelineMotionFilter): MotionFilterPreset => {
+            const existing = findPresetByFilter(presets, filter);
+            if (existing) {
+                const renamed = {...existing, name};
+                updatePresets(prev => prev.map(preset => (preset.id === existing.id ? renamed : preset)));
+                return renamed;
+            }
+
+            const preset: MotionFilterPreset = {id: createLocalId(), name, filter, createdAt: new Date()};
+            updatePresets(prev => [...prev, preset]);
+            return preset;
+        },
+        [presets, updatePresets]
+    );
+
+    const renamePreset = useCallback(
+        (id: string, name: string) => {
+            updatePresets(prev => prev.map(preset => (preset.id === id ? {...preset, name} : preset)));
+        },
+        [updatePresets]
+    );
+
+    const removePreset = useCallback(
+        (id: string) => {
+            updatePresets(prev => prev.filter(preset => preset.id !== id));
+        },
+        [updatePresets]
+    );
+
+    const exportPresets = useCallback(() => {
+        const blob = new Blob([serializePresets(presets)], {type: 'application/json'});
+        const objectUrl = URL.createObjectURL(blob);
+        clickA(objectUrl, getPresetsFileName(camera));
+        setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+    }, [presets, camera]);
+
+    const importPresets = useCallback(
+        async (file: File): Promise<number> => {
+            const imported = parsePresets(await readFileAsText(file));
+            const merged = mergePresets(presets, imported);
+            updatePresets(() => merged);
+            return merged.length - presets.length;
+        },
+        [presets, updatePresets]
+    );
+
+    return {presets, savePreset, renamePreset, removePreset, exportPresets, importPresets};
+};
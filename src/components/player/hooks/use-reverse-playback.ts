@@ -0,0 +1,99 @@
+import {useEffect, useRef} from 'react';
+
+import type {PlayerRef} from '../components/player-interface';
+
+export type ReverseSpeed = 0 | 1 | 2 | 4;
+
+/** Скорости обратного воспроизведения по порядку переключения; 0 - выключено */
+export const REVERSE_SPEEDS: ReverseSpeed[] = [0, 1, 2, 4];
+
+/** Интервал между перемотками назад, мс */
+const REVERSE_TICK_MS = 250;
+/** На сколько секунд раньше загружается архив, когда достигнуто начало потока */
+export const REVERSE_REWIND_SECONDS = 30;
+/** Позиция, ближе которой к началу потока нужно загружать более ранний участок, сек */
+const STREAM_START_THRESHOLD_SECONDS = 0.1;
+/** Видео готово показать кадр в текущей позиции (HTMLMediaElement.HAVE_CURRENT_DATA) */
+const HAVE_CURRENT_DATA = 2;
+
+interface UseReversePlaybackParams {
+    speed: ReverseSpeed;
+    playerRef: React.RefObject<PlayerRef | null>;
+    /** Идентификатор текущего потока (время его начала): меняется после загрузки более раннего участка */
+    streamKey: number | null;
+    /**
+     * Начало потока достигнуто: нужно открыть поток раньше, не дальше REVERSE_REWIND_SECONDS.
+     * Возвращает, на сколько секунд раньше начнется новый поток, или null, если более раннего архива нет
+     */
+    onReachStreamStart: () => number | null;
+    /** Более раннего архива нет: обратное воспроизведение остановлено */
+    onEnd: () => void;
+}
+
+interface PendingRestart {
+    /** Поток, из которого запрошен более ранний участок */
+    streamKey: number | null;
+    /** Позиция в новом потоке, соответствующая началу прежнего, сек */
+    position: number;
+}
+
+/**
+ * Обратное воспроизведение повторяющимися короткими перемотками назад при остановленном видео.
+ * У начала потока загружается более ранний участок архива, и воспроизведение продолжается с места стыка
+ */
+export const useReversePlayback = ({
+    speed,
+    playerRef,
+    streamKey,
+    onReachStreamStart,
+    onEnd
+}: UseReversePlaybackParams): void => {
+    // Запрошенный более ранний участок: пока поток не сменился, перемотка и новые запросы не выполняются
+    const pendingRestartRef = useRef<PendingRestart | null>(null);
+    const streamKeyRef = useRef(streamKey);
+    streamKeyRef.current = streamKey;
+    const callbacksRef = useRef({onReachStreamStart, onEnd});
+    callbacksRef.current = {onReachStreamStart, onEnd};
+
+    useEffect(() => {
+        // Смена скорости не отменяет уже запрошенный участок, иначе он запрашивается повторно
+        if (speed === 0) {
+            pendingRestartRef.current = null;
+            return;
+        }
+
+        const timer = setInterval(() => {
+            const video = playerRef.current?.getVideoElement?.();
+            if (!video) return;
+
+            const pendingRestart = pendingRestartRef.current;
+            if (pendingRestart) {
+                // Ждем новый поток и его метаданные, затем встаем на место стыка с прежним участком
+                if (pendingRestart.streamKey === streamKeyRef.current || video.readyState < 1) return;
+                pendingRestartRef.current = null;
+                const duration = Number.isFinite(video.duration) ? video.duration : pendingRestart.position;
+                video.currentTime = Math.min(pendingRestart.position, duration);
+                return;
+            }
+
+            if (!video.paused) video.pause();
+
+            // Пока предыдущая перемотка не завершилась и кадр не загружен, позиция не показательна
+            if (video.seeking || video.readyState < HAVE_CURRENT_DATA) return;
+
+            if (video.currentTime <= STREAM_START_THRESHOLD_SECONDS) {
+                const position = callbacksRef.current.onReachStreamStart();
+                if (position !== null) {
+                    pendingRestartRef.current = {streamKey: streamKeyRef.current, position};
+                } else {
+                    callbacksRef.current.onEnd();
+                }
+                return;
+            }
+
+            playerRef.current?.seekBy(-(speed * REVERSE_TICK_MS) / 1000);
+        }, REVERSE_TICK_MS);
+
+        return () => clearInterval(timer);
+    }, [speed, playerRef]);
+};
@@ -0,0 +1,174 @@
+import {useCallback, useRef, useState} from 'react';
+import {format} from 'date-fns';
+
+import {Snapshot, SnapshotFormat} from '../../../types/snapshot';
+import {getAuthToken} from '../../../utils/getAuthToken';
+import {
+    canvasToBlob,
+    getSnapshotFileName,
+    renderSnapshot,
+    SnapshotSource,
+    SnapshotViewport
+} from '../../../utils/snapshot';
+import {useTransport} from '../../../context/transport-context';
+import {buildRequestUrl} from '../../../utils/url-builder';
+import {clickA} from '../../../utils/url-params';
+import {Protocol} from '../../../utils/types';
+
+interface UseSnapshotParams {
+    getVideoElement: () => HTMLVideoElement | null | undefined;
+    /** Текущее абсолютное время кадра */
+    getTime: () => Date;
+    viewport: SnapshotViewport;
+    camera: number;
+    cameraName?: string;
+    url: string;
+    port: number;
+    credentials: string;
+    protocol: Protocol;
+    proxy?: string;
+    serverVersion: number | null;
+    snapshotFormat: SnapshotFormat;
+    /** Сохранять файл в браузере; false - только передать снимок в onSnapshot */
+    download: boolean;
+    onSnapshot?: (snapshot: Snapshot) => void;
+}
+
+interface UseSnapshotResult {
+    takeSnapshot: () => Promise<Snapshot | null>;
+    isCapturing: boolean;
+}
+
+const hasVideoFrame = (video: HTMLVideoElement | null | undefined): video is HTMLVideoElement =>
+    !!video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0;
+
+const isSecurityError = (error: unknown): boolean => error instanceof DOMException && error.name === 'SecurityError';
+
+/**
+ * Снимок текущего кадра плеера. Кадр берется из video; если кадра еще нет или видео
+ * загружено с другого домена без CORS, используется изображение с сервера (/cameras/{id}/image)
+ */
+export const useSnapshot = ({
+    getVideoElement,
+    getTime,
+    viewport,
+    camera,
+    cameraName,
+    url,
+    port,
+    credentials,
+    protocol,
+    proxy,
+    serverVersion,
+    snapshotFormat,
+    download,
+    onSnapshot
+}: UseSnapshotParams): UseSnapshotResult => {
+    const transport = useTransport();
+    const [isCapturing, setIsCapturing] = useState<boolean>(false);
+    const isCapturingRef = useRef<boolean>(false);
+
+    const loadServerImage = useCallback(
+        async (time: Date): Promise<SnapshotSource> => {
+            const timeStr = format(time, "yyyy-MM-dd'T'HH:mm:ss");
+            const requestUrl = buildRequestUrl({
+                host: url,
+                port,
+                protocol,
+                proxy,
+                path: `/cameras/${camera}/image?stream=main&time=${timeStr}&authorization=Basic%20${getAuthToken(
+                    credentials
+                )}`
+            });
+            const response = await transport.fetch(requestUrl);
+            if (!response.ok) {
+                throw new Error(`Сервер не вернул изображение: ${response.status}`);
+            }
+
+            const bitmap = await createImageBitmap(await response.blob());
+            return {image: bitmap, width: bitmap.width, height: bitmap.height};
+        },
+        [url, port, protocol, proxy, camera, credentials, transport]
+    );
+
+    const takeSnapshot = useCallback(async (): Promise<Snapshot | null> => {
+        if (isCapturingRef.current) return null;
+
+        isCapturingRef.current = true;
+        setIsCapturing(true);
+
+        // Время фиксируется в момент нажатия, пока видео продолжает играть
+        const time = getTime();
+        const name = cameraName || `Камера ${camera}`;
+        const video = getVideoElement();
+        const elementWidth = video?.clientWidth ?? 0;
+        const elementHeight = video?.clientHeight ?? 0;
+        const canUseServerImage = serverVersion !== null && serverVersion >= 90;
+
+        const capture = async (source: SnapshotSource) => {
+            const canvas = renderSnapshot(source, elementWidth, elementHeight, viewport, {cameraName: name, time});
+            const blob = await canvasToBlob(canvas, snapshotFormat);
+            return {blob, width: canvas.width, height: canvas.height};
+        };
+
+        try {
+            let result: {blob: Blob; width: number; height: number} | null = null;
+
+            if (hasVideoFrame(video)) {
+                try {
+                    result = await capture({image: video, width: video.videoWidth, height: video.videoHeight});
+                } catch (error) {
+                    if (!isSecurityError(error) || !canUseServerImage) throw error;
+                }
+            }
+
+            if (!result) {
+                if (!canUseServerImage) {
+                    throw new Error('Кадр еще не загружен');
+                }
+                const source = await loadServerImage(time);
+                try {
+                    result = await capture(source);
+                } finally {
+                    if (source.image instanceof ImageBitmap) source.image.close();
+                }
+            }
+
+            const snapshot: Snapshot = {
+                ...result,
+                fileName: getSnapshotFileName(name, time, snapshotFormat),
+                format: snapshotFormat,
+                time,
+                camera,
+                cameraName
+            };
+
+            if (download) {
+                const objectUrl = URL.createObjectURL(snapshot.blob);
+                clickA(objectUrl, snapshot.fileName);
+                setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+            }
+            onSnapshot?.(snapshot);
+            return snapshot;
+        } catch (error) {
+            console.error('Не удалось сделать снимок кадра', error);
+            return null;
+        } finally {
+            isCapturingRef.current = false;
+            setIsCapturing(false);
+        }
+    }, [
+        getVideoElement,
+        getTime,
+        viewport,
+        camera,
+        cameraName,
+        serverVersion,
+        snapshotFormat,
+        download,
+        onSnapshot,
+        loadServerImage
+    ]);
+
+    return {takeSnapshot, isCapturing};
+};
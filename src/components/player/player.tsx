@@ -1,9 +1,12 @@
-import React, {useCallback, useEffect, useRef, useState} from 'react';
+import React, {forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState} from 'react';
 
 import {formatDate, addSecondsToDate} from '../../utils/dates';
-import {getProtocol, formatUrlForDownload, clickA} from '../../utils/url-params';
+import {getProtocol, formatUrlForDownload, buildShareLink} from '../../utils/url-params';
 import {Mode, Protocol} from '../../utils/types';
 import {getCameraState, getCamerasList, type CameraInfo} from '../../utils/api';
+import {DevlineRpcClient} from '../../utils/rpc-client';
+import {isRpcAuthError} from '../../utils/rpc-errors';
+import {useTransport} from '../../context/transport-context';
 import {ControlPanel} from '../control-panel';
 import {
     CAMERA_SWIPE_THRESHOLD_PERCENT,
@@ -14,86 +17,80 @@ import {
 import {useTime} from '../../context/time-context';
 import {useTimelineState} from '../timeline/hooks/use-timeline-state';
 import {useOrientation} from '../timeline/hooks/use-orientation';
-import {TimelineRef} from '../timeline/types';
+import {FragmentTimeRange, LoopMarkers, TimelineRef, TimeRange} from '../timeline/types';
 import {hasVisibleFramesInNextSeconds, findNextVisibleFrame} from '../timeline/utils/fragment-utils';
 
-import {HlsPlayer, VideoTag, SaveStreamModal, ModeIndicator, ZoomMagnifier, PlayOverlay, Loader} from './components';
+import {
+    HlsPlayer,
+    VideoTag,
+    SaveStreamModal,
+    ModeIndicator,
+    ZoomMagnifier,
+    PlayOverlay,
+    Loader,
+    CameraGrid,
+    GRID_LAYOUTS,
+    getGridCameras,
+    BookmarksPanel,
+    MotionEventsPanel
+} from './components';
+import type {GridLayout} from './components';
 import {PlayerComponentProps, PlaybackStatus} from './components/player-interface';
 import {getAuthToken} from '../../utils/getAuthToken';
 
 import type {PlayerRef} from './components/player-interface';
 import Select from '../select/select';
+import {useArchiveSync} from './hooks/use-archive-sync';
+import {useBookmarks} from './hooks/use-bookmarks';
+import {useExportManager} from './hooks/use-export-manager';
 import styles from './player.module.scss';
-import {buildRequestUrl} from '../../utils/url-builder';
+import {buildRequestUrl, buildServerOrigin} from '../../utils/url-builder';
 import {MotionMaskOverlay} from './components/motion-mask-overlay/motion-mask-overlay';
-import {MotionFilterOption, MotionMaskPayload, MotionObjectType, TimelineMotionFilter} from '../../types/motion-filter';
+import {
+    DEFAULT_EVENTS_PLAYBACK_SETTINGS,
+    EventsPlaybackSettings,
+    MotionEvent,
+    MotionFilterOption,
+    MotionFilterPreset,
+    MotionObjectType,
+    normalizeObjectTypes,
+    TimelineMotionFilter
+} from '../../types/motion-filter';
+import {findPresetByFilter} from '../../utils/motion-filter-presets';
+import {
+    clipMotionEventsToRange,
+    findMotionEventIndexAt,
+    findNextMotionEvent,
+    findPreviousMotionEvent
+} from '../../utils/motion-events';
+import {useMotionFilterPresets} from './hooks/use-motion-filter-presets';
+import {useEventsPlayback} from './hooks/use-events-playback';
+import {useLoopPlayback} from './hooks/use-loop-playback';
+import {REVERSE_REWIND_SECONDS, ReverseSpeed, useReversePlayback} from './hooks/use-reverse-playback';
+import {
+    buildMaskPayload,
+    createFilledMaskGrid,
+    fitMaskGridToResolutions,
+    getSupportedMaskResolutions,
+    gridFromMaskPayload,
+    MaskGrid
+} from '../../utils/motion-mask';
+import {RecordedSegmentsExport} from '../../types/export';
+import {buildFilterSecondsBatch, FilterSecondsBatch} from '../../utils/filter-seconds';
+import {getSupportedFastForwardSpeeds, isFastForwardSpeed, MAX_CLIENT_PLAYBACK_SPEED} from '../../utils/fast-forward';
+import {Snapshot, SnapshotFormat} from '../../types/snapshot';
+import {useSnapshot} from './hooks/use-snapshot';
 
 const OVERLAY_TEXT_265 = 'Ваш браузер не поддерживает кодек H.265 (HEVC).';
-const MOTION_MASK_WIDTH = 8;
-const MOTION_MASK_HEIGHT = 8;
-
-type MaskGrid = number[][];
-
-const createFilledMaskGrid = (fillValue: 0 | 1 = 0): MaskGrid =>
-    Array.from({length: MOTION_MASK_HEIGHT}, () => Array.from({length: MOTION_MASK_WIDTH}, () => fillValue));
-
-const gridFromMaskPayload = (payload: MotionMaskPayload): MaskGrid => {
-    const totalCells = payload.width * payload.height;
-    const values: number[] = [];
-
-    for (let i = 0; i < payload.data.length; i += 2) {
-        const count = payload.data[i];
-        const value = payload.data[i + 1] ?? 0;
-        for (let j = 0; j < count; j += 1) {
-            if (values.length >= totalCells) break;
-            values.push(value);
-        }
-    }
-
-    while (values.length < totalCells) {
-        values.push(0);
-    }
-
-    const grid: MaskGrid = [];
-    for (let row = 0; row < payload.height; row += 1) {
-        const start = row * payload.width;
-        grid.push(values.slice(start, start + payload.width));
-    }
-    return grid;
-};
-
-const buildMaskPayload = (grid: MaskGrid): MotionMaskPayload => {
-    const flatValues = grid.reduce<number[]>((acc, row) => acc.concat(row), []);
-    if (flatValues.length === 0) {
-        return {
-            width: MOTION_MASK_WIDTH,
-            height: MOTION_MASK_HEIGHT,
-            data: []
-        };
-    }
-
-    const data: number[] = [];
-    let currentValue = flatValues[0];
-    let count = 0;
-
-    flatValues.forEach(value => {
-        if (value === currentValue) {
-            count += 1;
-            return;
-        }
-        data.push(count, currentValue);
-        currentValue = value;
-        count = 1;
-    });
-
-    data.push(count, currentValue);
-
-    return {
-        width: MOTION_MASK_WIDTH,
-        height: MOTION_MASK_HEIGHT,
-        data
-    };
-};
+/** За сколько секунд до конца порции filter_seconds запрашивается следующая */
+const FILTER_BATCH_END_THRESHOLD_SECONDS = 0.5;
+/** Сколько ждать загрузки данных таймлайна для следующей порции, мс */
+const FILTER_PAGE_WAIT_MS = 10000;
+const FILTER_PAGE_POLL_MS = 300;
+/** Минимальная длина интервала повтора A-B, мс */
+const AB_LOOP_MIN_DURATION_MS = 1000;
+/** Минимальный остаток записи до начала потока, ради которого при обратном воспроизведении загружается архив, мс */
+const REVERSE_MIN_REWIND_MS = 1000;
 
 export interface PlayerProps {
     streamUrl: string;
@@ -110,31 +107,80 @@ export interface PlayerProps {
     enableZoomMagnifier?: boolean; // Включить лупу (по умолчанию true)
     enableVideoZoom?: boolean; // Включить зум видео по скроллу (по умолчанию true)
     archiveStartTime?: string; // Время начала просмотра архива в ISO формате без часового пояса (например, '2024-01-15T14:30:00')
+    onPlaybackStatusChange?: (status: PlaybackStatus) => void;
+    onModeChange?: (mode: Mode) => void;
+    onCameraChange?: (camera: number) => void;
+    onAuthRequired?: () => void; // Сервер отклонил учетные данные
+    onServerUnavailable?: () => void;
+    onTimelineClick?: (time: Date) => void;
+    onExportStart?: (range: {start: Date; end: Date}) => void;
+    onSnapshot?: (snapshot: Snapshot) => void;
+    snapshotFormat?: SnapshotFormat; // Формат снимка кадра (по умолчанию png)
+    downloadSnapshot?: boolean; // Сохранять снимок файлом (по умолчанию true); false - только onSnapshot
+    gridLayout?: GridLayout; // Начальная раскладка сетки камер (1 - одна камера, 2 - 2x2, 3 - 3x3, 4 - 4x4)
+}
+
+/**
+ * Императивное управление плеером извне (используется DevLinePlayer)
+ */
+export interface PlayerHandle {
+    play: () => void;
+    pause: () => void;
+    /** Переходит к указанному времени; время в будущем переключает плеер в прямой эфир */
+    seekTo: (time: Date) => void;
+    setCamera: (camera: number) => void;
+    setMode: (mode: Mode) => void;
+    setMuted: (muted: boolean) => void;
+    setPlaybackSpeed: (speed: number) => void;
+    /** Текущее абсолютное время воспроизведения (serverTime + progress) */
+    getCurrentTime: () => Date | null;
+    getMode: () => Mode;
+    /** Пауза и переход на один кадр вперед (1) или назад (-1) в архиве */
+    stepFrame: (direction: 1 | -1) => void;
+    /** Обратное воспроизведение архива со скоростью 1x, 2x или 4x; 0 - выключить */
+    setReverseSpeed: (speed: ReverseSpeed) => void;
 }
 
-export const Player: React.FC<PlayerProps> = ({
-    streamUrl = '',
-    streamPort = 80,
-    login = '',
-    password = '',
-    mode = Mode.Live,
-    muted = false,
-    camera: initialCamera,
-    protocol: preferredProtocol,
-    showCameraSelector = false,
-    proxy,
-    isUseProxy,
-    enableZoomMagnifier = true,
-    enableVideoZoom = true,
-    archiveStartTime
-}) => {
+const PlayerComponent: React.ForwardRefRenderFunction<PlayerHandle, PlayerProps> = (
+    {
+        streamUrl = '',
+        streamPort = 80,
+        login = '',
+        password = '',
+        mode = Mode.Live,
+        muted = false,
+        camera: initialCamera,
+        protocol: preferredProtocol,
+        showCameraSelector = false,
+        proxy,
+        isUseProxy,
+        enableZoomMagnifier = true,
+        enableVideoZoom = true,
+        archiveStartTime,
+        onPlaybackStatusChange,
+        onModeChange,
+        onCameraChange,
+        onAuthRequired,
+        onServerUnavailable,
+        onTimelineClick,
+        onExportStart,
+        onSnapshot,
+        snapshotFormat = 'png',
+        downloadSnapshot = true,
+        gridLayout: initialGridLayout = 1
+    },
+    ref
+) => {
     const [authLogin, setAuthLogin] = useState<string>(login);
     const [authPassword, setAuthPassword] = useState<string>(password ?? '');
     const [currentMode, setCurrentMode] = useState<Mode>(archiveStartTime ? Mode.Record : mode);
     const [isFirstLoad, setIsFirstLoad] = useState(true);
     const [isFullscreen, setIsFullscreen] = useState(false);
     const {serverTime, setServerTime, progress: ctxProgress, setProgress} = useTime();
+    const transport = useTransport();
     const [showSaveModal, setShowSaveModal] = useState<boolean>(false);
+    // Период для окна сохранения, выбранный выделением на шкале
+    const [saveModalRange, setSaveModalRange] = useState<TimeRange | null>(null);
     const [isNoSound, setIsNoSound] = useState<boolean>(false);
     const [showH265Warning, setShowH265Warning] = useState<boolean>(false);
 
@@ -147,8 +193,12 @@ export const Player: React.FC<PlayerProps> = ({
     const fragmetsGapRef = useRef<number>(0);
     const nextFragmentTimeRef = useRef<Date | null>(null);
     const isTransitioningToNextFragmentRef = useRef<boolean>(false);
+    // Следующая порция filter_seconds уже запрошена для текущего потока
+    const filterPageRequestedRef = useRef<boolean>(false);
 
     const [isPlaying, setIsPlaying] = useState<boolean>(true);
+    // Обратное воспроизведение идет при остановленном видео; 0 - выключено
+    const [reverseSpeed, setReverseSpeed] = useState<ReverseSpeed>(0);
     const [isMuted, setIsMuted] = useState<boolean>(muted);
     const [playbackSpeed, setPlaybackSpeed] = useState<number>(1);
     const [playbackStatus, setPlaybackStatus] = useState<PlaybackStatus>('loading');
@@ -189,13 +239,16 @@ export const Player: React.FC<PlayerProps> = ({
 
     const effectiveProxy = isUseProxy ? (proxy ?? 'https://proxy.devline.ru') : undefined;
 
-    const getStreamUrl = (type: string, isNoSound: boolean, isMuted: boolean) =>
+    const [gridLayout, setGridLayout] = useState<GridLayout>(initialGridLayout);
+    const [expandedCamera, setExpandedCamera] = useState<number | null>(null);
+
+    const getStreamUrl = (type: string, isNoSound: boolean, isMuted: boolean, streamCamera = camera) =>
         buildRequestUrl({
             host: streamUrl,
             port: streamPort,
             protocol,
             proxy: effectiveProxy,
-            path: `/cameras/${camera ?? 0}/streaming/main.${type}?authorization=Basic%20${getAuthToken(
+            path: `/cameras/${streamCamera ?? 0}/streaming/main.${type}?authorization=Basic%20${getAuthToken(
                 `${authLogin}:${authPassword}`
             )}${!isMuted && !isNoSound ? '&audio=1' : ''}`
         });
@@ -204,6 +257,26 @@ export const Player: React.FC<PlayerProps> = ({
     const authorization = `${authLogin}:${authPassword}`;
     const videoUrl = getStreamUrl(streamType, isNoSound, isMuted);
 
+    const isGridView = gridLayout > 1 && availableCameras.length > 1;
+    // Камеры ведомых тайлов сетки: активная камера воспроизводится основным плеером
+    const secondaryTileCameras = isGridView
+        ? getGridCameras(availableCameras, gridLayout, camera, expandedCamera)
+              .map(c => c.id)
+              .filter(id => id !== camera)
+        : [];
+
+    const archiveSync = useArchiveSync({
+        enabled: isGridView && currentMode === Mode.Record && !isSafari,
+        cameras: secondaryTileCameras,
+        isPlaying,
+        playbackSpeed,
+        url: streamUrl,
+        port: streamPort,
+        credentials: authVerified ? authorization : '',
+        protocol,
+        proxy: effectiveProxy
+    });
+
     const {updateServerTime} = useTimelineState(
         undefined,
         streamUrl,
@@ -214,13 +287,37 @@ export const Player: React.FC<PlayerProps> = ({
     );
 
     const [isFilterPanelOpen, setIsFilterPanelOpen] = useState<boolean>(false);
-    const [activeFilterType, setActiveFilterType] = useState<MotionFilterOption | null>(null);
-    const [maskGrid, setMaskGrid] = useState<MaskGrid>(() => createFilledMaskGrid(0));
+    const [isBookmarksPanelOpen, setIsBookmarksPanelOpen] = useState<boolean>(false);
+    const [editingObjectTypes, setEditingObjectTypes] = useState<MotionObjectType[]>([]);
+    const [showMotionLanes, setShowMotionLanes] = useState<boolean>(false);
+    const [showFilmstrip, setShowFilmstrip] = useState<boolean>(false);
+    const [motionEvents, setMotionEvents] = useState<MotionEvent[]>([]);
+    const [isEventsPanelOpen, setIsEventsPanelOpen] = useState<boolean>(false);
+    const [isEventsPlaybackEnabled, setIsEventsPlaybackEnabled] = useState<boolean>(false);
+    const [eventsPlaybackSettings, setEventsPlaybackSettings] = useState<EventsPlaybackSettings>(
+        DEFAULT_EVENTS_PLAYBACK_SETTINGS
+    );
+    const [timelineSelection, setTimelineSelection] = useState<TimeRange | null>(null);
+    const [isSelectionLoopEnabled, setIsSelectionLoopEnabled] = useState<boolean>(false);
+    const [isSelectionMotionSearchEnabled, setIsSelectionMotionSearchEnabled] = useState<boolean>(false);
+    const [abLoopPoints, setAbLoopPoints] = useState<LoopMarkers>({a: null, b: null});
+    const [maskGrid, setMaskGrid] = useState<MaskGrid>(() => createFilledMaskGrid());
     const [isMaskEditorVisible, setIsMaskEditorVisible] = useState<boolean>(false);
     const [appliedMotionFilter, setAppliedMotionFilter] = useState<TimelineMotionFilter | null>(null);
     const maskEditorInitialGridRef = useRef<MaskGrid | null>(null);
-    const editingFilterTypeRef = useRef<MotionFilterOption | null>(null);
     const [serverApiVersion, setServerApiVersion] = useState<number | null>(null);
+    const maskResolutions = useMemo(() => getSupportedMaskResolutions(serverApiVersion), [serverApiVersion]);
+
+    const fastForwardSpeeds = useMemo(() => getSupportedFastForwardSpeeds(serverApiVersion), [serverApiVersion]);
+
+    // Ускоренный просмотр на сервере недоступен в сетке: синхронизация тайлов рассчитана на обычный поток
+    const isFastForwardAvailable = fastForwardSpeeds.length > 0 && !isGridView;
+    // Сколько секунд архива приходится на секунду видео: больше 1 для потока ускоренного просмотра
+    const streamTimeScale =
+        currentMode === Mode.Record && isFastForwardAvailable && fastForwardSpeeds.includes(playbackSpeed)
+            ? playbackSpeed
+            : 1;
+    const videoPlaybackSpeed = streamTimeScale > 1 ? 1 : Math.min(playbackSpeed, MAX_CLIENT_PLAYBACK_SPEED);
 
     const getFragmentsFromTimeline = useCallback(() => {
         if (!timelineRef.current) {
@@ -251,7 +348,7 @@ export const Player: React.FC<PlayerProps> = ({
     }, []);
 
     const buildFilterSeconds = useCallback(
-        (baseTime: Date): string | null => {
+        (baseTime: Date): FilterSecondsBatch | null => {
             if (!appliedMotionFilter || !serverTime) {
                 return null;
             }
@@ -269,93 +366,33 @@ export const Player: React.FC<PlayerProps> = ({
             const bufferDurationMs = fragmentsBufferRange.end.getTime() - fragmentsBufferRange.start.getTime();
             const calculatedUnitLengthSeconds =
                 fragments.length > 0 ? bufferDurationMs / (fragments.length * 1000) : UNIT_LENGTHS[intervalIndex];
-            const normalizedUnitLengthSeconds = normalizeUnitLength(calculatedUnitLengthSeconds);
-            const unitLengthMs = normalizedUnitLengthSeconds * 1000;
-
-            const baseTimeMs = baseTime.getTime();
-            const bufferStartTime = fragmentsBufferRange.start.getTime();
-
-            interface Range {
-                startOffset: number;
-                duration: number;
-            }
-
-            const ranges: Range[] = [];
-            let currentRangeStart: number | null = null;
-            let currentRangeStartIndex: number | null = null;
-            const MAX_TOTAL_DURATION = 300;
-            let totalDuration = 0;
-
-            for (let i = 0; i < fragments.length; i++) {
-                if (fragments[i] > 0) {
-                    const fragmentStartTime = bufferStartTime + i * unitLengthMs;
-                    const offsetFromBase = (fragmentStartTime - baseTimeMs) / 1000;
-
-                    if (currentRangeStart === null) {
-                        currentRangeStart = offsetFromBase;
-                        currentRangeStartIndex = i;
-                    }
-                } else {
-                    if (currentRangeStart !== null && currentRangeStartIndex !== null) {
-                        const lastVisibleIndex = i - 1;
-                        const fragmentEndTime = bufferStartTime + (lastVisibleIndex + 1) * unitLengthMs;
-                        const rangeEndOffset = (fragmentEndTime - baseTimeMs) / 1000;
-                        const duration = rangeEndOffset - currentRangeStart;
-
-                        if (totalDuration + duration <= MAX_TOTAL_DURATION) {
-                            ranges.push({
-                                startOffset: Math.max(0, currentRangeStart),
-                                duration: duration
-                            });
-                            totalDuration += duration;
-                        } else {
-                            const remainingDuration = MAX_TOTAL_DURATION - totalDuration;
-                            if (remainingDuration > 0) {
-                                ranges.push({
-                                    startOffset: Math.max(0, currentRangeStart),
-                                    duration: remainingDuration
-                                });
-                            }
-                            break;
-                        }
-
-                        currentRangeStart = null;
-                        currentRangeStartIndex = null;
-                    }
-                }
-            }
-
-            if (currentRangeStart !== null && currentRangeStartIndex !== null) {
-                const lastIndex = fragments.length - 1;
-                const fragmentEndTime = bufferStartTime + (lastIndex + 1) * unitLengthMs;
-                const rangeEndOffset = (fragmentEndTime - baseTimeMs) / 1000;
-                const duration = rangeEndOffset - currentRangeStart;
 
-                if (totalDuration + duration <= MAX_TOTAL_DURATION) {
-                    ranges.push({
-                        startOffset: Math.max(0, currentRangeStart),
-                        duration: duration
-                    });
-                } else {
-                    const remainingDuration = MAX_TOTAL_DURATION - totalDuration;
-                    if (remainingDuration > 0) {
-                        ranges.push({
-                            startOffset: Math.max(0, currentRangeStart),
-                            duration: remainingDuration
-                        });
-                    }
-                }
-            }
-
-            if (ranges.length === 0) {
-                return null;
-            }
-
-            return ranges.map(range => `${range.startOffset},${range.duration}`).join(';') + ';';
+            return buildFilterSecondsBatch({
+                fragments,
+                bufferStart: fragmentsBufferRange.start,
+                bufferEnd: fragmentsBufferRange.end,
+                unitLengthSeconds: normalizeUnitLength(calculatedUnitLengthSeconds),
+                baseTime,
+                now: new Date()
+            });
         },
         [appliedMotionFilter, serverTime, getFragmentsFromTimeline, normalizeUnitLength]
     );
 
+    // Порция filter_seconds для текущего потока; в режиме "только события" пропуски выполняет клиент
+    const filterSecondsBatch = useMemo(() => {
+        if (
+            currentMode !== Mode.Record ||
+            !serverTime ||
+            isEventsPlaybackEnabled ||
+            serverApiVersion === null ||
+            serverApiVersion < 90
+        ) {
+            return null;
+        }
+        return buildFilterSeconds(serverTime);
+    }, [currentMode, serverTime, isEventsPlaybackEnabled, serverApiVersion, buildFilterSeconds]);
+
     const finalStreamUrl = React.useMemo(() => {
         if (!authVerified || camera === undefined) {
             return '';
@@ -364,17 +401,18 @@ export const Player: React.FC<PlayerProps> = ({
         if (currentMode === 'record' && serverTime) {
             let url = `${videoUrl}&time=${formatDate(serverTime)}&autoplay=1${!isMuted && !isNoSound ? '&audio=1' : ''}`;
 
-            if (appliedMotionFilter && serverApiVersion !== null && serverApiVersion >= 90) {
-                const filterSeconds = buildFilterSeconds(serverTime);
-                if (filterSeconds) {
-                    url += `&filter_seconds=${encodeURIComponent(filterSeconds)}`;
-                }
+            if (filterSecondsBatch) {
+                url += `&filter_seconds=${encodeURIComponent(filterSecondsBatch.value)}`;
+            }
+
+            if (streamTimeScale > 1) {
+                url += `&speed=${streamTimeScale}`;
             }
 
-            return url;
+            return transport.resolveMediaUrl(url);
         } else {
             const separator = videoUrl.includes('?') ? '&' : '?';
-            return `${videoUrl}${separator}_t=${liveStreamCacheBuster}`;
+            return transport.resolveMediaUrl(`${videoUrl}${separator}_t=${liveStreamCacheBuster}`);
         }
     }, [
         authVerified,
@@ -384,16 +422,34 @@ export const Player: React.FC<PlayerProps> = ({
         videoUrl,
         isMuted,
         isNoSound,
-        appliedMotionFilter,
-        serverApiVersion,
-        buildFilterSeconds,
-        liveStreamCacheBuster
+        filterSecondsBatch,
+        streamTimeScale,
+        liveStreamCacheBuster,
+        transport
     ]);
 
+    // URL потока для дополнительных тайлов сетки: тот же момент архива, без звука и фильтра движения
+    const getTileStreamUrl = (tileCamera: number) => {
+        if (!authVerified) {
+            return '';
+        }
+
+        const tileUrl = getStreamUrl(streamType, true, true, tileCamera);
+        const tileStartTime = archiveSync.getTileStartTime(tileCamera);
+
+        if (currentMode === Mode.Record && tileStartTime) {
+            return transport.resolveMediaUrl(`${tileUrl}&time=${formatDate(tileStartTime)}&autoplay=1`);
+        }
+
+        const separator = tileUrl.includes('?') ? '&' : '?';
+        return transport.resolveMediaUrl(`${tileUrl}${separator}_t=${liveStreamCacheBuster}`);
+    };
+
     useEffect(() => {
         fragmetsGapRef.current = 0;
         isTransitioningToNextFragmentRef.current = false;
         nextFragmentTimeRef.current = null;
+        filterPageRequestedRef.current = false;
     }, [serverTime]);
 
     useEffect(() => {
@@ -426,7 +482,9 @@ export const Player: React.FC<PlayerProps> = ({
                 authorization,
                 camera ?? 0,
                 protocol,
-                effectiveProxy
+                effectiveProxy,
+                undefined,
+                transport
             );
 
             const isH265 = result.result.state.video_streams.video.codec === 'h265';
@@ -443,7 +501,18 @@ export const Player: React.FC<PlayerProps> = ({
         if (authVerified && streamUrl && streamPort && authorization && Number.isInteger(camera as number)) {
             void fetchCameraState();
         }
-    }, [authVerified, streamUrl, streamPort, authorization, camera, protocol, effectiveProxy, isAndroid, isIOS]);
+    }, [
+        authVerified,
+        streamUrl,
+        streamPort,
+        authorization,
+        camera,
+        protocol,
+        effectiveProxy,
+        isAndroid,
+        isIOS,
+        transport
+    ]);
 
     useEffect(() => {
         const fetchServerVersion = async () => {
@@ -451,44 +520,24 @@ export const Player: React.FC<PlayerProps> = ({
                 return;
             }
 
-            const rpcUrl = buildRequestUrl({
+            const client = new DevlineRpcClient({
                 host: streamUrl,
                 port: streamPort,
+                credentials: authorization,
                 protocol,
                 proxy: effectiveProxy,
-                path: effectiveProxy
-                    ? '/rpc'
-                    : `/rpc?authorization=Basic ${getAuthToken(authorization)}&content-type=application/json`
+                transport
             });
 
-            const headers: HeadersInit = {};
-            if (effectiveProxy) {
-                headers['Content-Type'] = 'application/json';
-                headers['Authorization'] = `Basic ${getAuthToken(authorization)}`;
-            }
-
             try {
-                const response = await fetch(rpcUrl, {
-                    method: 'POST',
-                    headers,
-                    body: JSON.stringify({method: 'get_version'})
-                });
-
-                if (!response.ok) {
-                    return;
-                }
-
-                const data = await response.json();
-                if (data.result && data.result.version && typeof data.result.version.value === 'number') {
-                    setServerApiVersion(data.result.version.value);
-                }
+                setServerApiVersion(await client.getVersion());
             } catch (error) {
                 // ignore
             }
         };
 
         void fetchServerVersion();
-    }, [authVerified, streamUrl, streamPort, authorization, protocol, effectiveProxy]);
+    }, [authVerified, streamUrl, streamPort, authorization, protocol, effectiveProxy, transport]);
 
     const checkAvailability = useCallback(
         async (credentials: string) => {
@@ -499,12 +548,12 @@ export const Player: React.FC<PlayerProps> = ({
             setAuthRequired(false);
 
             try {
-                await getCamerasList(streamUrl, streamPort, credentials, 5000, protocol, effectiveProxy);
+                await getCamerasList(streamUrl, streamPort, credentials, 5000, protocol, effectiveProxy, transport);
                 setAuthRequired(false);
                 setServerUnavailable(false);
                 setAuthVerified(true);
             } catch (e) {
-                if ((e as Error)?.message === 'FORBIDDEN') {
+                if (isRpcAuthError(e)) {
                     setAuthRequired(true);
                     setServerUnavailable(false);
                     setAuthVerified(false);
@@ -516,7 +565,7 @@ export const Player: React.FC<PlayerProps> = ({
                 setIsCheckingAvailability(false);
             }
         },
-        [streamUrl, streamPort, protocol, effectiveProxy]
+        [streamUrl, streamPort, protocol, effectiveProxy, transport]
     );
 
     const handleLoginSubmit = useCallback(
@@ -543,7 +592,8 @@ export const Player: React.FC<PlayerProps> = ({
                     `${authLogin}:${authPassword}`,
                     5000,
                     protocol,
-                    effectiveProxy
+                    effectiveProxy,
+                    transport
                 );
                 setAvailableCameras(list);
             } catch (err) {
@@ -552,7 +602,7 @@ export const Player: React.FC<PlayerProps> = ({
         };
         void loadCameras();
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [authVerified, streamUrl, streamPort, camera, protocol, effectiveProxy]);
+    }, [authVerified, streamUrl, streamPort, camera, protocol, effectiveProxy, transport]);
 
     useEffect(() => {
         setAuthLogin(login);
@@ -579,6 +629,7 @@ export const Player: React.FC<PlayerProps> = ({
 
     const handleTimelineClick = useCallback(
         async (clickedTime: Date) => {
+            onTimelineClick?.(clickedTime);
             setPlaybackStatus('loading');
 
             const currentServerTime = await updateServerTime();
@@ -593,7 +644,7 @@ export const Player: React.FC<PlayerProps> = ({
 
             setIsPlaying(true);
         },
-        [updateServerTime, setProgress, handleChangeMode]
+        [updateServerTime, setProgress, handleChangeMode, onTimelineClick]
     );
 
     const handleTimeChange = useCallback(
@@ -634,6 +685,9 @@ export const Player: React.FC<PlayerProps> = ({
                 }
             }
 
+            if (!newPlayingState) {
+                setReverseSpeed(0);
+            }
             setIsPlaying(newPlayingState);
         },
         [isPlaying, currentMode, updateServerTime, setProgress]
@@ -643,9 +697,54 @@ export const Player: React.FC<PlayerProps> = ({
         setIsMuted(prev => !prev);
     }, []);
 
-    const handleSpeedChange = useCallback((speed: number) => {
-        setPlaybackSpeed(speed);
-    }, []);
+    const handleSpeedChange = useCallback(
+        (speed: number) => {
+            setPlaybackSpeed(speed);
+
+            // Поток ускоренного просмотра и обычный поток переключаются перезапуском с текущего момента архива
+            const nextStreamTimeScale = isFastForwardAvailable && fastForwardSpeeds.includes(speed) ? speed : 1;
+            if (currentMode === Mode.Record && serverTime && nextStreamTimeScale !== streamTimeScale) {
+                handleChangeMode(Mode.Record, addSecondsToDate(serverTime, ctxProgress));
+            }
+        },
+        [
+            isFastForwardAvailable,
+            fastForwardSpeeds,
+            currentMode,
+            serverTime,
+            ctxProgress,
+            streamTimeScale,
+            handleChangeMode
+        ]
+    );
+
+    // Сервер без ускоренного просмотра или сетка камер: скорость ограничивается воспроизводимой браузером
+    useEffect(() => {
+        if (
+            isFastForwardSpeed(playbackSpeed) &&
+            !(isFastForwardAvailable && fastForwardSpeeds.includes(playbackSpeed))
+        ) {
+            setPlaybackSpeed(MAX_CLIENT_PLAYBACK_SPEED);
+        }
+    }, [isFastForwardAvailable, fastForwardSpeeds, playbackSpeed]);
+
+    const seekTo = useCallback(
+        async (time: Date) => {
+            const currentServerTime = await updateServerTime();
+            const isFutureTime = time.getTime() > (currentServerTime ?? new Date()).getTime();
+
+            if (isFutureTime) {
+                setCurrentMode(Mode.Live);
+                setProgress(0);
+                timelineRef.current?.centerOnCurrentTime();
+            } else {
+                await handleTimeChange(time);
+            }
+
+            setIsPlaying(true);
+        },
+        [updateServerTime, setProgress, handleTimeChange]
+    );
 
     const handlePlaybackStatusChange = useCallback((status: PlaybackStatus) => {
         setPlaybackStatus(status);
@@ -662,75 +761,58 @@ export const Player: React.FC<PlayerProps> = ({
         setIsFilterPanelOpen(prev => !prev);
     }, []);
 
+    // Типы активного фильтра для подсветки в панели: motion, если фильтр только по маске
+    const activeFilterTypes = useMemo<MotionFilterOption[]>(() => {
+        if (!appliedMotionFilter) return [];
+        return appliedMotionFilter.types && appliedMotionFilter.types.length > 0
+            ? appliedMotionFilter.types
+            : ['motion'];
+    }, [appliedMotionFilter]);
+
     const handleSelectFilterOption = useCallback(
         (option: MotionFilterOption) => {
-            editingFilterTypeRef.current = option;
+            // Тип объектов добавляется к уже выбранным, движение сбрасывает выбор типов; маска общая для всех типов
+            const appliedTypes = appliedMotionFilter?.types ?? [];
+            setEditingObjectTypes(option === 'motion' ? [] : normalizeObjectTypes([...appliedTypes, option]));
 
-            let baseGrid: MaskGrid;
-            if (option === 'motion') {
-                baseGrid = appliedMotionFilter?.mask
-                    ? gridFromMaskPayload(appliedMotionFilter.mask)
-                    : createFilledMaskGrid(0);
-            } else {
-                const objectType = option as MotionObjectType;
-                if (appliedMotionFilter?.types?.includes(objectType) && appliedMotionFilter?.mask) {
-                    baseGrid = gridFromMaskPayload(appliedMotionFilter.mask);
-                } else {
-                    baseGrid = createFilledMaskGrid(0);
-                }
-            }
+            const baseGrid: MaskGrid = fitMaskGridToResolutions(
+                appliedMotionFilter?.mask ? gridFromMaskPayload(appliedMotionFilter.mask) : createFilledMaskGrid(),
+                maskResolutions
+            );
 
             maskEditorInitialGridRef.current = baseGrid.map(row => [...row]);
             setMaskGrid(baseGrid);
             setIsMaskEditorVisible(true);
             setIsFilterPanelOpen(false);
         },
-        [appliedMotionFilter]
+        [appliedMotionFilter, maskResolutions]
     );
 
     const handleClearMotionFilter = useCallback(() => {
         setAppliedMotionFilter(null);
-        setActiveFilterType(null);
         setIsMaskEditorVisible(false);
         setIsFilterPanelOpen(false);
+        setIsEventsPanelOpen(false);
+        setIsEventsPlaybackEnabled(false);
+        setIsSelectionMotionSearchEnabled(false);
         maskEditorInitialGridRef.current = null;
-        setMaskGrid(createFilledMaskGrid(0));
-        editingFilterTypeRef.current = null;
+        setMaskGrid(createFilledMaskGrid());
+        setEditingObjectTypes([]);
     }, []);
 
-    const handleMaskToggleCell = useCallback((rowIndex: number, colIndex: number) => {
-        setMaskGrid(prev => {
-            const nextGrid = prev.map(row => row.slice());
-            const currentValue = nextGrid[rowIndex][colIndex];
-            nextGrid[rowIndex][colIndex] = currentValue === 1 ? 0 : 1;
-            return nextGrid;
-        });
+    const handleToggleMotionLanes = useCallback(() => {
+        setShowMotionLanes(prev => !prev);
     }, []);
 
     const handleMaskApply = useCallback(() => {
-        setMaskGrid(currentMaskGrid => {
-            const payload = buildMaskPayload(currentMaskGrid);
-            const filterType = editingFilterTypeRef.current;
-
-            if (filterType === 'motion') {
-                setAppliedMotionFilter({mask: payload});
-                setActiveFilterType('motion');
-            } else if (filterType === 'human' || filterType === 'transport') {
-                const objectType = filterType as MotionObjectType;
-                setAppliedMotionFilter({
-                    mask: payload,
-                    types: [objectType]
-                });
-                setActiveFilterType(filterType);
-            }
-
-            setIsMaskEditorVisible(false);
-            maskEditorInitialGridRef.current = currentMaskGrid.map(row => [...row]);
-            editingFilterTypeRef.current = null;
+        const payload = buildMaskPayload(maskGrid);
 
-            return currentMaskGrid;
-        });
-    }, []);
+        setAppliedMotionFilter(
+            editingObjectTypes.length > 0 ? {mask: payload, types: editingObjectTypes} : {mask: payload}
+        );
+        setIsMaskEditorVisible(false);
+        maskEditorInitialGridRef.current = maskGrid.map(row => [...row]);
+    }, [maskGrid, editingObjectTypes]);
 
     const handleMouseLeave = useCallback(() => {
         hideTimeoutRef.current = setTimeout(() => {
@@ -739,6 +821,16 @@ export const Player: React.FC<PlayerProps> = ({
     }, []);
 
     // Функции переключения камеры
+    const selectCamera = useCallback((nextCamera: number) => {
+        // Очищаем кэш скачанных фреймов при переключении камеры
+        if (timelineRef.current) {
+            timelineRef.current.clearFramesCache();
+            // Загружаем актуальные данные для новой камеры
+            timelineRef.current.reloadFragments();
+        }
+        setCamera(nextCamera);
+    }, []);
+
     const switchToNextCamera = useCallback(() => {
         if (availableCameras.length <= 1) {
             return;
@@ -746,14 +838,8 @@ export const Player: React.FC<PlayerProps> = ({
 
         const currentIndex = availableCameras.findIndex(c => c.id === camera);
         const nextIndex = (currentIndex + 1) % availableCameras.length;
-        // Очищаем кэш скачанных фреймов при переключении камеры
-        if (timelineRef.current) {
-            timelineRef.current.clearFramesCache();
-            // Загружаем актуальные данные для новой камеры
-            timelineRef.current.reloadFragments();
-        }
-        setCamera(availableCameras[nextIndex].id);
-    }, [availableCameras, camera]);
+        selectCamera(availableCameras[nextIndex].id);
+    }, [availableCameras, camera, selectCamera]);
 
     const switchToPreviousCamera = useCallback(() => {
         if (availableCameras.length <= 1) {
@@ -762,14 +848,206 @@ export const Player: React.FC<PlayerProps> = ({
 
         const currentIndex = availableCameras.findIndex(c => c.id === camera);
         const prevIndex = currentIndex <= 0 ? availableCameras.length - 1 : currentIndex - 1;
-        // Очищаем кэш скачанных фреймов при переключении камеры
-        if (timelineRef.current) {
-            timelineRef.current.clearFramesCache();
-            // Загружаем актуальные данные для новой камеры
-            timelineRef.current.reloadFragments();
+        selectCamera(availableCameras[prevIndex].id);
+    }, [availableCameras, camera, selectCamera]);
+
+    const handleSelectTile = useCallback(
+        (tileCamera: number) => {
+            if (tileCamera !== camera) {
+                selectCamera(tileCamera);
+            }
+        },
+        [camera, selectCamera]
+    );
+
+    const handleToggleExpandTile = useCallback(
+        (tileCamera: number) => {
+            setExpandedCamera(prev => (prev === tileCamera ? null : tileCamera));
+            handleSelectTile(tileCamera);
+        },
+        [handleSelectTile]
+    );
+
+    const handleGridLayoutChange = useCallback((layout: GridLayout) => {
+        setGridLayout(layout);
+        setExpandedCamera(null);
+    }, []);
+
+    // Последние версии внешних колбэков: эффекты ниже вызывают их, не перезапускаясь при смене ссылок
+    const externalCallbacksRef = useRef({
+        onPlaybackStatusChange,
+        onModeChange,
+        onCameraChange,
+        onAuthRequired,
+        onServerUnavailable
+    });
+    useEffect(() => {
+        externalCallbacksRef.current = {
+            onPlaybackStatusChange,
+            onModeChange,
+            onCameraChange,
+            onAuthRequired,
+            onServerUnavailable
+        };
+    }, [onPlaybackStatusChange, onModeChange, onCameraChange, onAuthRequired, onServerUnavailable]);
+
+    // Последние сообщенные значения: внешний код уведомляется только о реальных переходах, а не о начальном состоянии
+    const notifiedStateRef = useRef({playbackStatus, currentMode, camera, authRequired, serverUnavailable});
+
+    useEffect(() => {
+        if (notifiedStateRef.current.playbackStatus === playbackStatus) return;
+        notifiedStateRef.current.playbackStatus = playbackStatus;
+        externalCallbacksRef.current.onPlaybackStatusChange?.(playbackStatus);
+    }, [playbackStatus]);
+
+    useEffect(() => {
+        if (notifiedStateRef.current.currentMode === currentMode) return;
+        notifiedStateRef.current.currentMode = currentMode;
+        externalCallbacksRef.current.onModeChange?.(currentMode);
+    }, [currentMode]);
+
+    useEffect(() => {
+        if (notifiedStateRef.current.camera === camera) return;
+        notifiedStateRef.current.camera = camera;
+        if (camera !== undefined) {
+            externalCallbacksRef.current.onCameraChange?.(camera);
+        }
+    }, [camera]);
+
+    useEffect(() => {
+        if (notifiedStateRef.current.authRequired === authRequired) return;
+        notifiedStateRef.current.authRequired = authRequired;
+        if (authRequired) {
+            externalCallbacksRef.current.onAuthRequired?.();
         }
-        setCamera(availableCameras[prevIndex].id);
-    }, [availableCameras, camera]);
+    }, [authRequired]);
+
+    useEffect(() => {
+        if (notifiedStateRef.current.serverUnavailable === serverUnavailable) return;
+        notifiedStateRef.current.serverUnavailable = serverUnavailable;
+        if (serverUnavailable) {
+            externalCallbacksRef.current.onServerUnavailable?.();
+        }
+    }, [serverUnavailable]);
+
+    const handleStepFrame = useCallback(
+        (direction: 1 | -1) => {
+            if (currentMode !== Mode.Record) return;
+            setReverseSpeed(0);
+            setIsPlaying(false);
+            playerRef.current?.stepFrame(direction);
+        },
+        [currentMode]
+    );
+
+    const handleReverseSpeedChange = useCallback(
+        (speed: ReverseSpeed) => {
+            if (currentMode !== Mode.Record) return;
+            setReverseSpeed(speed);
+            if (speed !== 0) {
+                setIsPlaying(false);
+                // Обратное воспроизведение перематывает обычный поток
+                if (streamTimeScale > 1) {
+                    handleSpeedChange(1);
+                }
+            }
+        },
+        [currentMode, streamTimeScale, handleSpeedChange]
+    );
+
+    // Воспроизведение вперед и прямой эфир выключают обратное воспроизведение
+    useEffect(() => {
+        if (isPlaying || currentMode !== Mode.Record) {
+            setReverseSpeed(0);
+        }
+    }, [isPlaying, currentMode]);
+
+    const handleReverseReachStreamStart = useCallback((): number | null => {
+        if (!serverTime) return null;
+
+        const streamStart = serverTime.getTime() + fragmetsGapRef.current * 1000;
+        // Конец и начало записи, в которую переходим; без данных шкалы просто загружаем архив раньше
+        let recordEnd = streamStart;
+        let recordStart = -Infinity;
+        const fragmentsData = getFragmentsFromTimeline();
+        if (fragmentsData) {
+            const {fragmentRanges, fragmentsBufferRange} = fragmentsData;
+            // Последний записанный фрагмент, начинающийся раньше начала потока; при разрыве в записи переходим к его концу
+            let range: FragmentTimeRange | undefined;
+            for (let i = fragmentRanges.length - 1; i >= 0; i--) {
+                if (fragmentRanges[i].start.getTime() < streamStart - REVERSE_MIN_REWIND_MS) {
+                    range = fragmentRanges[i];
+                    break;
+                }
+            }
+
+            if (range) {
+                recordEnd = Math.min(streamStart, range.end.getTime());
+                recordStart = range.start.getTime();
+            } else if (fragmentsBufferRange.start.getTime() < streamStart) {
+                // В загруженных данных шкалы до начала потока нет записей - дальше назад идти некуда
+                return null;
+            }
+        }
+
+        const earlierStart = new Date(Math.max(recordStart, recordEnd - REVERSE_REWIND_SECONDS * 1000));
+        handleChangeMode(Mode.Record, earlierStart);
+        const visibleTimeRange = timelineRef.current?.getVisibleTimeRange();
+        if (visibleTimeRange && earlierStart < visibleTimeRange.start) {
+            timelineRef.current?.centerOnTime(earlierStart);
+        }
+        return (recordEnd - earlierStart.getTime()) / 1000;
+    }, [serverTime, getFragmentsFromTimeline, handleChangeMode]);
+
+    const handleReverseEnd = useCallback(() => {
+        setReverseSpeed(0);
+    }, []);
+
+    useReversePlayback({
+        speed: reverseSpeed,
+        playerRef,
+        streamKey: serverTime?.getTime() ?? null,
+        onReachStreamStart: handleReverseReachStreamStart,
+        onEnd: handleReverseEnd
+    });
+
+    const frameControls = useMemo(
+        () => ({
+            reverseSpeed,
+            onStepFrame: handleStepFrame,
+            onReverseSpeedChange: handleReverseSpeedChange
+        }),
+        [reverseSpeed, handleStepFrame, handleReverseSpeedChange]
+    );
+
+    useImperativeHandle(
+        ref,
+        () => ({
+            play: () => void handlePlayPause(true),
+            pause: () => void handlePlayPause(false),
+            seekTo: (time: Date) => void seekTo(time),
+            setCamera: selectCamera,
+            setMode: (nextMode: Mode) => handleChangeMode(nextMode),
+            setMuted: setIsMuted,
+            setPlaybackSpeed: handleSpeedChange,
+            getCurrentTime: () => (serverTime ? addSecondsToDate(serverTime, ctxProgress) : null),
+            getMode: () => currentMode,
+            stepFrame: handleStepFrame,
+            setReverseSpeed: handleReverseSpeedChange
+        }),
+        [
+            handlePlayPause,
+            seekTo,
+            selectCamera,
+            handleChangeMode,
+            handleSpeedChange,
+            serverTime,
+            ctxProgress,
+            currentMode,
+            handleStepFrame,
+            handleReverseSpeedChange
+        ]
+    );
 
     // Обработчики свайпов по плееру
     const handlePlayerTouchStart = useCallback(
@@ -885,6 +1163,16 @@ export const Player: React.FC<PlayerProps> = ({
                 return;
             }
 
+            // Покадровый переход в архиве (, и .)
+            const isPrevFrame = key === ',' || code === 'Comma';
+            const isNextFrame = key === '.' || code === 'Period';
+            if (isPrevFrame || isNextFrame) {
+                if (currentMode !== Mode.Record) return;
+                e.preventDefault();
+                handleStepFrame(isPrevFrame ? -1 : 1);
+                return;
+            }
+
             const isLeft = key === 'arrowleft' || code === 'ArrowLeft';
             const isRight = key === 'arrowright' || code === 'ArrowRight';
             if (isLeft || isRight) {
@@ -930,7 +1218,7 @@ export const Player: React.FC<PlayerProps> = ({
                     }
                 }
 
-                playerRef.current?.seekBy(delta);
+                playerRef.current?.seekBy(delta / streamTimeScale);
             }
         };
 
@@ -944,7 +1232,9 @@ export const Player: React.FC<PlayerProps> = ({
         updateServerTime,
         setProgress,
         setServerTime,
-        showControlsAndRestartAutoHide
+        showControlsAndRestartAutoHide,
+        handleStepFrame,
+        streamTimeScale
     ]);
 
     useEffect(() => {
@@ -1178,9 +1468,10 @@ export const Player: React.FC<PlayerProps> = ({
         };
     }, [enableZoomMagnifier, enableVideoZoom, isMaskEditorVisible, showSaveModal]);
 
-    const handleSaveStreamFinish = useCallback(
-        (start: Date, end: Date) => {
-            const fileName = `record_${formatDate(start, 'yyyy-MM-dd_HH-mm')}_${formatDate(end, 'yyyy-MM-dd_HH-mm')}`;
+    const {exportJobs, enqueueExport, cancelExport, retryExport, removeExport} = useExportManager();
+
+    const buildExportUrl = useCallback(
+        (start: Date, end: Date, fileName: string) => {
             const durationSeconds = (end.getTime() - start.getTime()) / 1000;
 
             const formatDuration = (seconds: number): string => {
@@ -1202,21 +1493,70 @@ export const Player: React.FC<PlayerProps> = ({
                     `${authLogin}:${authPassword}`
                 )}&time=${date}&duration=${formatDuration(durationSeconds)}&download=1&filename=${fileName}`
             });
-            const downloadUrl = formatUrlForDownload({
+            return formatUrlForDownload({
                 url,
                 start,
                 end,
                 fileName,
                 audio: !isNoSound
             });
-
-            clickA(downloadUrl);
-            setShowSaveModal(false);
         },
         [streamUrl, streamPort, protocol, effectiveProxy, camera, authLogin, authPassword, isNoSound]
     );
 
+    const handleSaveStreamFinish = useCallback(
+        (start: Date, end: Date, options?: RecordedSegmentsExport) => {
+            onExportStart?.({start, end});
+            const fileName = `record_${formatDate(start, 'yyyy-MM-dd_HH-mm')}_${formatDate(end, 'yyyy-MM-dd_HH-mm')}`;
+
+            // Файл загружается через очередь экспорта: окно сохранения показывает прогресс и ошибки
+            if (!options) {
+                enqueueExport({url: buildExportUrl(start, end, fileName), fileName, start, end});
+                return;
+            }
+
+            // Каждый фрагмент периода (записанный участок или весь период для пакета evidence) - отдельный файл
+            const segments = options.segments.map((segment, index) => {
+                const segmentFileName = `${fileName}_part${String(index + 1).padStart(2, '0')}`;
+                return {
+                    ...segment,
+                    fileName: segmentFileName,
+                    url: buildExportUrl(segment.start, segment.end, segmentFileName)
+                };
+            });
+            enqueueExport({
+                url: buildExportUrl(start, end, fileName),
+                fileName,
+                start,
+                end,
+                packaging: options.packaging,
+                segments,
+                evidence:
+                    options.packaging === 'evidence'
+                        ? {
+                              cameraId: camera ?? 0,
+                              cameraName: availableCameras.find(c => c.id === camera)?.name,
+                              server: buildServerOrigin({host: streamUrl, port: streamPort, protocol}),
+                              operator: authLogin
+                          }
+                        : undefined
+            });
+        },
+        [
+            onExportStart,
+            enqueueExport,
+            buildExportUrl,
+            camera,
+            availableCameras,
+            streamUrl,
+            streamPort,
+            protocol,
+            authLogin
+        ]
+    );
+
     const handleSaveStream = useCallback(() => {
+        setSaveModalRange(null);
         setShowSaveModal(true);
     }, []);
 
@@ -1224,6 +1564,350 @@ export const Player: React.FC<PlayerProps> = ({
         setShowSaveModal(false);
     }, []);
 
+    const {bookmarks, addBookmark, renameBookmark, removeBookmark, exportBookmarks, importBookmarks} = useBookmarks({
+        camera: camera ?? 0,
+        url: streamUrl,
+        port: streamPort
+    });
+
+    const {presets, savePreset, renamePreset, removePreset, exportPresets, importPresets} = useMotionFilterPresets({
+        camera: camera ?? 0,
+        url: streamUrl,
+        port: streamPort
+    });
+
+    const handleApplyPreset = useCallback(
+        (preset: MotionFilterPreset) => {
+            const {mask} = preset.filter;
+            const presetGrid = mask ? gridFromMaskPayload(mask) : null;
+            // Пресет из файла или с более нового сервера может содержать сетку, которую этот сервер не примет
+            const grid = presetGrid ? fitMaskGridToResolutions(presetGrid, maskResolutions) : null;
+
+            setAppliedMotionFilter(
+                grid && grid !== presetGrid ? {...preset.filter, mask: buildMaskPayload(grid)} : preset.filter
+            );
+            setIsMaskEditorVisible(false);
+            setIsFilterPanelOpen(false);
+            maskEditorInitialGridRef.current = grid;
+        },
+        [maskResolutions]
+    );
+
+    const handleSavePreset = useCallback(
+        (name: string) => {
+            if (appliedMotionFilter) savePreset(name, appliedMotionFilter);
+        },
+        [appliedMotionFilter, savePreset]
+    );
+
+    const motionFilterPresets = useMemo(
+        () => ({
+            presets,
+            activePresetId: findPresetByFilter(presets, appliedMotionFilter)?.id ?? null,
+            canSave: appliedMotionFilter !== null,
+            onApply: handleApplyPreset,
+            onSave: handleSavePreset,
+            onRename: renamePreset,
+            onRemove: removePreset,
+            onExport: exportPresets,
+            onImport: importPresets
+        }),
+        [
+            presets,
+            appliedMotionFilter,
+            handleApplyPreset,
+            handleSavePreset,
+            renamePreset,
+            removePreset,
+            exportPresets,
+            importPresets
+        ]
+    );
+
+    const snapshotViewport = useMemo(
+        () => ({
+            zoom: enableVideoZoom ? videoZoom : 1,
+            originX: zoomOriginX,
+            originY: zoomOriginY
+        }),
+        [enableVideoZoom, videoZoom, zoomOriginX, zoomOriginY]
+    );
+
+    const getSnapshotVideoElement = useCallback(() => playerRef.current?.getVideoElement?.(), []);
+
+    const getSnapshotTime = useCallback(
+        () => (serverTime ? addSecondsToDate(serverTime, ctxProgress) : new Date()),
+        [serverTime, ctxProgress]
+    );
+
+    const {takeSnapshot, isCapturing: isSnapshotCapturing} = useSnapshot({
+        getVideoElement: getSnapshotVideoElement,
+        getTime: getSnapshotTime,
+        viewport: snapshotViewport,
+        camera: camera ?? 0,
+        cameraName: availableCameras.find(c => c.id === camera)?.name,
+        url: streamUrl,
+        port: streamPort,
+        credentials: authorization,
+        protocol,
+        proxy: effectiveProxy,
+        serverVersion: serverApiVersion,
+        snapshotFormat,
+        download: downloadSnapshot,
+        onSnapshot
+    });
+
+    const handleSnapshot = useCallback(() => {
+        void takeSnapshot();
+    }, [takeSnapshot]);
+
+    const handleToggleBookmarksPanel = useCallback(() => {
+        setIsBookmarksPanelOpen(prev => !prev);
+    }, []);
+
+    const handleToggleFilmstrip = useCallback(() => {
+        setShowFilmstrip(prev => !prev);
+    }, []);
+
+    const handleAddBookmarkAtPlayhead = useCallback(() => {
+        if (!serverTime) return;
+        addBookmark(addSecondsToDate(serverTime, ctxProgress));
+        setIsBookmarksPanelOpen(true);
+    }, [serverTime, ctxProgress, addBookmark]);
+
+    const handleCreateBookmarkAtTime = useCallback(
+        (time: Date) => {
+            addBookmark(time);
+            setIsBookmarksPanelOpen(true);
+        },
+        [addBookmark]
+    );
+
+    const handleToggleEventsPanel = useCallback(() => {
+        setIsEventsPanelOpen(prev => !prev);
+    }, []);
+
+    const playbackTime = serverTime ? addSecondsToDate(serverTime, ctxProgress) : null;
+    // Поиск движения в выделенном периоде ограничивает список событий, переходы и воспроизведение событий
+    const scopedMotionEvents = useMemo(
+        () =>
+            isSelectionMotionSearchEnabled && timelineSelection
+                ? clipMotionEventsToRange(motionEvents, timelineSelection)
+                : motionEvents,
+        [motionEvents, isSelectionMotionSearchEnabled, timelineSelection]
+    );
+    const activeMotionEventIndex = playbackTime ? findMotionEventIndexAt(scopedMotionEvents, playbackTime) : -1;
+    const nextMotionEvent = playbackTime ? findNextMotionEvent(scopedMotionEvents, playbackTime) : null;
+    const previousMotionEvent = playbackTime ? findPreviousMotionEvent(scopedMotionEvents, playbackTime) : null;
+
+    const handleJumpToMotionEvent = useCallback(
+        (event: MotionEvent) => {
+            handleChangeMode(Mode.Record, event.start);
+            timelineRef.current?.centerOnTime(event.start);
+            setIsPlaying(true);
+        },
+        [handleChangeMode]
+    );
+
+    const handleEventsPlaybackSeek = useCallback(
+        (time: Date) => {
+            handleChangeMode(Mode.Record, time);
+            const visibleTimeRange = timelineRef.current?.getVisibleTimeRange();
+            if (visibleTimeRange && (time < visibleTimeRange.start || time > visibleTimeRange.end)) {
+                timelineRef.current?.centerOnTime(time);
+            }
+        },
+        [handleChangeMode]
+    );
+
+    const handleEventsPlaybackEnd = useCallback(() => {
+        setIsPlaying(false);
+    }, []);
+
+    const {handlePlaybackTime: handleEventsPlaybackTime} = useEventsPlayback({
+        enabled: isEventsPlaybackEnabled && appliedMotionFilter !== null,
+        events: scopedMotionEvents,
+        settings: eventsPlaybackSettings,
+        onSeek: handleEventsPlaybackSeek,
+        onEnd: handleEventsPlaybackEnd
+    });
+
+    const eventsPlayback = useMemo(
+        () => ({
+            enabled: isEventsPlaybackEnabled,
+            settings: eventsPlaybackSettings,
+            onToggle: () => setIsEventsPlaybackEnabled(prev => !prev),
+            onSettingsChange: setEventsPlaybackSettings
+        }),
+        [isEventsPlaybackEnabled, eventsPlaybackSettings]
+    );
+
+    // Миниатюры событий берутся из того же эндпоинта, что и превью таймлайна (API 90+)
+    const getMotionEventThumbnailUrl = useCallback(
+        (time: Date) =>
+            transport.resolveMediaUrl(
+                buildRequestUrl({
+                    host: streamUrl,
+                    port: streamPort,
+                    protocol,
+                    proxy: effectiveProxy,
+                    path: `/cameras/${camera}/image?stream=main&time=${formatDate(
+                        time,
+                        "yyyy-MM-dd'T'HH:mm:ss"
+                    )}&resolution=160x120&authorization=Basic%20${getAuthToken(authorization)}`
+                })
+            ),
+        [streamUrl, streamPort, protocol, effectiveProxy, camera, authorization, transport]
+    );
+
+    const handleTimelineSelectionChange = useCallback((selection: TimeRange | null) => {
+        setTimelineSelection(selection);
+        if (!selection) {
+            setIsSelectionLoopEnabled(false);
+            setIsSelectionMotionSearchEnabled(false);
+        }
+    }, []);
+
+    // Переход к началу периода (выделения или повтора) с центровкой шкалы, если начало за пределами видимой области
+    const seekToRangeStart = useCallback(
+        (start: Date) => {
+            handleChangeMode(Mode.Record, start);
+            const visibleTimeRange = timelineRef.current?.getVisibleTimeRange();
+            if (visibleTimeRange && (start < visibleTimeRange.start || start > visibleTimeRange.end)) {
+                timelineRef.current?.centerOnTime(start);
+            }
+        },
+        [handleChangeMode]
+    );
+
+    const handleLoopRestart = useCallback(
+        (start: Date) => {
+            // Начало повтора уже проиграно в текущем потоке без пропусков: перематываем в буфере без перезапуска потока
+            const video = playerRef.current?.getVideoElement?.();
+            if (video && serverTime && fragmetsGapRef.current === 0 && start >= serverTime) {
+                const target = (start.getTime() - serverTime.getTime()) / 1000 / streamTimeScale;
+                if (video.seekable.length > 0 && target >= video.seekable.start(0) && target <= video.currentTime) {
+                    playerRef.current?.seekBy(target - video.currentTime);
+                    return;
+                }
+            }
+            seekToRangeStart(start);
+        },
+        [serverTime, streamTimeScale, seekToRangeStart]
+    );
+
+    // Повтор A-B и повтор выделения взаимоисключающие: включение одного выключает другой
+    const loopRange = useMemo<TimeRange | null>(() => {
+        if (abLoopPoints.a && abLoopPoints.b) return {start: abLoopPoints.a, end: abLoopPoints.b};
+        return isSelectionLoopEnabled ? timelineSelection : null;
+    }, [abLoopPoints, isSelectionLoopEnabled, timelineSelection]);
+
+    const {handlePlaybackTime: handleLoopPlaybackTime} = useLoopPlayback({
+        range: loopRange,
+        onRestart: handleLoopRestart
+    });
+
+    const handleToggleSelectionLoop = useCallback(() => {
+        if (!timelineSelection) return;
+        if (!isSelectionLoopEnabled) {
+            setAbLoopPoints({a: null, b: null});
+            seekToRangeStart(timelineSelection.start);
+            setIsPlaying(true);
+        }
+        setIsSelectionLoopEnabled(prev => !prev);
+    }, [timelineSelection, isSelectionLoopEnabled, seekToRangeStart]);
+
+    const handleMarkAbLoopPoint = useCallback(() => {
+        if (!playbackTime) return;
+
+        const {a} = abLoopPoints;
+        if (!a) {
+            setAbLoopPoints({a: playbackTime, b: null});
+            return;
+        }
+        // Слишком короткий интервал не ставим; B раньше A меняет точки местами
+        if (Math.abs(playbackTime.getTime() - a.getTime()) < AB_LOOP_MIN_DURATION_MS) return;
+
+        setAbLoopPoints(playbackTime > a ? {a, b: playbackTime} : {a: playbackTime, b: a});
+        setIsSelectionLoopEnabled(false);
+    }, [playbackTime, abLoopPoints]);
+
+    const handleClearAbLoop = useCallback(() => {
+        setAbLoopPoints({a: null, b: null});
+    }, []);
+
+    // Точки повтора относятся к архиву: в прямом эфире повтор снимается
+    useEffect(() => {
+        if (currentMode === Mode.Live) {
+            setAbLoopPoints({a: null, b: null});
+        }
+    }, [currentMode]);
+
+    const abLoop = useMemo(
+        () => ({
+            a: abLoopPoints.a,
+            b: abLoopPoints.b,
+            onMark: handleMarkAbLoopPoint,
+            onClear: handleClearAbLoop
+        }),
+        [abLoopPoints, handleMarkAbLoopPoint, handleClearAbLoop]
+    );
+
+    const handleExportSelection = useCallback(() => {
+        if (!timelineSelection) return;
+        setSaveModalRange(timelineSelection);
+        setShowSaveModal(true);
+    }, [timelineSelection]);
+
+    const handleCopySelectionLink = useCallback(async (): Promise<boolean> => {
+        if (!timelineSelection || !navigator.clipboard) return false;
+        try {
+            await navigator.clipboard.writeText(
+                buildShareLink({camera: camera ?? 0, start: timelineSelection.start, end: timelineSelection.end})
+            );
+            return true;
+        } catch (error) {
+            console.error('Player: не удалось скопировать ссылку', error);
+            return false;
+        }
+    }, [timelineSelection, camera]);
+
+    const handleToggleSelectionMotionSearch = useCallback(() => {
+        if (isSelectionMotionSearchEnabled) {
+            setIsSelectionMotionSearchEnabled(false);
+            return;
+        }
+        // Без фильтра ищем любое движение по всему кадру
+        if (!appliedMotionFilter) {
+            setAppliedMotionFilter({mask: buildMaskPayload(createFilledMaskGrid())});
+        }
+        setIsSelectionMotionSearchEnabled(true);
+        setIsEventsPanelOpen(true);
+    }, [isSelectionMotionSearchEnabled, appliedMotionFilter]);
+
+    const timelineSelectionProps = useMemo(
+        () => ({
+            selection: timelineSelection,
+            onChange: handleTimelineSelectionChange,
+            onExport: handleExportSelection,
+            isLooping: isSelectionLoopEnabled,
+            onToggleLoop: handleToggleSelectionLoop,
+            onCopyLink: handleCopySelectionLink,
+            isMotionSearchActive: isSelectionMotionSearchEnabled,
+            onToggleMotionSearch: handleToggleSelectionMotionSearch
+        }),
+        [
+            timelineSelection,
+            handleTimelineSelectionChange,
+            handleExportSelection,
+            isSelectionLoopEnabled,
+            handleToggleSelectionLoop,
+            handleCopySelectionLink,
+            isSelectionMotionSearchEnabled,
+            handleToggleSelectionMotionSearch
+        ]
+    );
+
     const handlePlayOverlayClick = useCallback(() => {
         handlePlayPause(true);
     }, [handlePlayPause]);
@@ -1332,15 +2016,108 @@ export const Player: React.FC<PlayerProps> = ({
         [getFragmentsFromTimeline]
     );
 
+    /**
+     * Переходит к следующей порции filter_seconds. Если данные таймлайна после nextTime еще не загружены,
+     * центрирует шкалу на nextTime, чтобы запустить загрузку, и ждет их. Участок без событий пропускается
+     */
+    const continueFilteredPlayback = useCallback(
+        async (nextTime: Date) => {
+            const deadline = Date.now() + FILTER_PAGE_WAIT_MS;
+            let from = nextTime;
+            let isCentered = false;
+
+            while (Date.now() < deadline) {
+                const fragmentsData = getFragmentsFromTimeline();
+                const bufferRange = fragmentsData?.fragmentsBufferRange;
+
+                if (bufferRange && bufferRange.start <= from && bufferRange.end > from) {
+                    const batch = buildFilterSeconds(from);
+                    if (batch) {
+                        handleChangeMode(Mode.Record, batch.startTime);
+                        return;
+                    }
+                    // До конца загруженных данных событий нет: архив дальше есть, только если данные не доходят до текущего времени
+                    if (bufferRange.end.getTime() >= Date.now()) {
+                        break;
+                    }
+                    from = bufferRange.end;
+                    isCentered = false;
+                    continue;
+                }
+
+                if (!isCentered) {
+                    timelineRef.current?.centerOnTime(from);
+                    isCentered = true;
+                }
+                await new Promise(resolve => setTimeout(resolve, FILTER_PAGE_POLL_MS));
+            }
+
+            setIsPlaying(false);
+        },
+        [getFragmentsFromTimeline, buildFilterSeconds, handleChangeMode]
+    );
+
+    /**
+     * Запрашивает следующую порцию filter_seconds один раз для текущего потока
+     */
+    const continueWithNextFilterBatch = useCallback(() => {
+        const nextBatchTime = filterSecondsBatch?.nextTime;
+        if (!nextBatchTime || filterPageRequestedRef.current) return;
+
+        filterPageRequestedRef.current = true;
+        void continueFilteredPlayback(nextBatchTime);
+    }, [filterSecondsBatch, continueFilteredPlayback]);
+
+    // Поток порции может не сообщать длительность (Infinity/NaN): тогда порция заканчивается событием ended
+    const handleStreamEnded = useCallback(() => {
+        if (currentMode === Mode.Record && filterSecondsBatch && reverseSpeed === 0) {
+            continueWithNextFilterBatch();
+        }
+    }, [currentMode, filterSecondsBatch, reverseSpeed, continueWithNextFilterBatch]);
+
     const handleProgress = useCallback(
-        (p: {currentTime: number; duration: number}) => {
+        (videoProgress: {currentTime: number; duration: number}) => {
             if (currentMode === Mode.Record && serverTime) {
+                // Позиция в секундах архива: в потоке ускоренного просмотра секунда видео длиннее
+                const p = {
+                    currentTime: videoProgress.currentTime * streamTimeScale,
+                    duration: videoProgress.duration * streamTimeScale
+                };
                 const currentTotalProgress = p.currentTime + fragmetsGapRef.current;
                 const currentAbsoluteTime = new Date(serverTime.getTime() + currentTotalProgress * 1000);
 
-                const isUsingFilterSeconds = appliedMotionFilter && serverApiVersion !== null && serverApiVersion >= 90;
+                // При обратном воспроизведении переходы вперед (повтор, события, порции фильтра) не выполняются
+                if (reverseSpeed !== 0) {
+                    setProgress(currentTotalProgress);
+                    return;
+                }
+
+                // Повтор выделенного периода важнее остальных переходов
+                if (handleLoopPlaybackTime(currentAbsoluteTime)) {
+                    return;
+                }
+
+                const isEventsPlaybackActive = appliedMotionFilter && isEventsPlaybackEnabled;
+                const isUsingFilterSeconds =
+                    appliedMotionFilter &&
+                    !isEventsPlaybackEnabled &&
+                    serverApiVersion !== null &&
+                    serverApiVersion >= 90;
 
-                if (!isUsingFilterSeconds) {
+                if (isEventsPlaybackActive) {
+                    if (handleEventsPlaybackTime(currentAbsoluteTime)) {
+                        return;
+                    }
+                } else if (isUsingFilterSeconds) {
+                    // Порция filter_seconds проиграна: продолжаем со следующей
+                    if (
+                        Number.isFinite(p.duration) &&
+                        p.duration > 0 &&
+                        p.currentTime >= p.duration - FILTER_BATCH_END_THRESHOLD_SECONDS * streamTimeScale
+                    ) {
+                        continueWithNextFilterBatch();
+                    }
+                } else {
                     if (appliedMotionFilter) {
                         if (isTransitioningToNextFragmentRef.current) {
                             return;
@@ -1423,6 +2200,12 @@ export const Player: React.FC<PlayerProps> = ({
             currentMode,
             serverTime,
             appliedMotionFilter,
+            isEventsPlaybackEnabled,
+            handleEventsPlaybackTime,
+            handleLoopPlaybackTime,
+            reverseSpeed,
+            streamTimeScale,
+            continueWithNextFilterBatch,
             serverApiVersion,
             checkVisibleFramesInNextSeconds,
             findNextVisibleFrameFromTimeline,
@@ -1437,14 +2220,98 @@ export const Player: React.FC<PlayerProps> = ({
         url: finalStreamUrl,
         playing: isPlaying,
         muted: isMuted,
-        playbackSpeed,
+        playbackSpeed: videoPlaybackSpeed,
         onPlayPause: handlePlayPause,
         onPlaybackStatusChange: handlePlaybackStatusChange,
-        onProgress: handleProgress
+        onProgress: handleProgress,
+        onEnded: handleStreamEnded
     };
 
     const isVerticalTimeline = isMobileDevice && orientation === 'landscape';
 
+    const mainVideo = isSafari ? (
+        <VideoTag
+            isLandscape={isVerticalTimeline}
+            ref={playerRef}
+            {...props}
+            updateServerTime={updateServerTime}
+            setProgress={setProgress}
+            overlayText={showH265Warning ? OVERLAY_TEXT_265 : undefined}
+        />
+    ) : currentMode === 'record' ? (
+        <HlsPlayer
+            isLandscape={isVerticalTimeline}
+            ref={playerRef}
+            {...props}
+            overlayText={showH265Warning ? OVERLAY_TEXT_265 : undefined}
+            onFragmentTimeUpdate={(time: Date) => {
+                const videoElement = playerRef.current?.getVideoElement?.();
+                const videoCurrentTime = videoElement?.currentTime || 0;
+
+                setServerTime(time, true);
+
+                if (videoCurrentTime > 0) {
+                    setProgress(videoCurrentTime * streamTimeScale);
+                }
+            }}
+            onNextTime={(nextTime: Date) => {
+                if (serverApiVersion !== null && serverApiVersion >= 90) {
+                    handleChangeMode(Mode.Record, nextTime);
+                }
+            }}
+        />
+    ) : (
+        <VideoTag
+            isLandscape={isVerticalTimeline}
+            ref={playerRef}
+            {...props}
+            updateServerTime={updateServerTime}
+            setProgress={setProgress}
+            overlayText={showH265Warning ? OVERLAY_TEXT_265 : undefined}
+        />
+    );
+
+    const renderGridTile = (tileCamera: CameraInfo, isActive: boolean) => {
+        // Активный тайл использует основной плеер: он управляет прогрессом, звуком и переходами между фрагментами
+        if (isActive) {
+            return mainVideo;
+        }
+
+        const tileUrl = getTileStreamUrl(tileCamera.id);
+        const isTilePlaying = isPlaying && !archiveSync.noRecordingCameras.includes(tileCamera.id);
+
+        if (!isSafari && currentMode === Mode.Record) {
+            return (
+                <HlsPlayer
+                    ref={archiveSync.registerTile(tileCamera.id)}
+                    url={tileUrl}
+                    playing={isTilePlaying}
+                    playbackSpeed={playbackSpeed}
+                    muted
+                    onFragmentTimeUpdate={(time: Date) => archiveSync.handleTileFragmentTime(tileCamera.id, time)}
+                />
+            );
+        }
+
+        // Нативный поток начинается с запрошенного момента, поэтому его нулевая позиция - время старта тайла
+        const tileStartTime = currentMode === Mode.Record ? archiveSync.getTileStartTime(tileCamera.id) : null;
+
+        return (
+            <VideoTag
+                ref={archiveSync.registerTile(tileCamera.id)}
+                url={tileUrl}
+                playing={isTilePlaying}
+                playbackSpeed={playbackSpeed}
+                muted
+                onPlaybackStatusChange={status => {
+                    if (status === 'playing' && tileStartTime) {
+                        archiveSync.handleTileFragmentTime(tileCamera.id, tileStartTime);
+                    }
+                }}
+            />
+        );
+    };
+
     const shouldHideUiForMask = isMaskEditorVisible;
 
     return (
@@ -1465,17 +2332,20 @@ export const Player: React.FC<PlayerProps> = ({
                                 label: c.name ?? `Camera ${c.id}`
                             }))}
                             value={camera ?? ''}
-                            onChange={value => {
-                                // Очищаем кэш скачанных фреймов при переключении камеры
-                                if (timelineRef.current) {
-                                    timelineRef.current.clearFramesCache();
-                                    // Загружаем актуальные данные для новой камеры
-                                    timelineRef.current.reloadFragments();
-                                }
-                                setCamera(Number(value));
-                            }}
+                            onChange={value => selectCamera(Number(value))}
                             aria-label="Выбор камеры"
                         />
+                        {availableCameras.length > 1 && (
+                            <Select
+                                options={GRID_LAYOUTS.map(layout => ({
+                                    value: layout,
+                                    label: layout === 1 ? '1 камера' : `${layout}x${layout}`
+                                }))}
+                                value={gridLayout}
+                                onChange={value => handleGridLayoutChange(value as GridLayout)}
+                                aria-label="Раскладка камер"
+                            />
+                        )}
                     </div>
                 )}
 
@@ -1515,86 +2385,70 @@ export const Player: React.FC<PlayerProps> = ({
                             }
                         }}
                     >
-                        {/* Wrapper для видео с зумом */}
-                        <div
-                            style={{
-                                width: '100%',
-                                height: '100%',
-                                transform: enableVideoZoom ? `scale(${videoZoom})` : 'none',
-                                transformOrigin: enableVideoZoom
-                                    ? `${zoomOriginX * 100}% ${zoomOriginY * 100}%`
-                                    : 'center',
-                                transition: enableVideoZoom && videoZoom === 1 ? 'transform 0.3s ease-out' : 'none',
-                                position: 'absolute',
-                                inset: 0
-                            }}
-                        >
-                            {isSafari ? (
-                                <VideoTag
-                                    isLandscape={isVerticalTimeline}
-                                    ref={playerRef}
-                                    {...props}
-                                    updateServerTime={updateServerTime}
-                                    setProgress={setProgress}
-                                    overlayText={showH265Warning ? OVERLAY_TEXT_265 : undefined}
-                                />
-                            ) : currentMode === 'record' ? (
-                                <HlsPlayer
-                                    isLandscape={isVerticalTimeline}
-                                    ref={playerRef}
-                                    {...props}
-                                    overlayText={showH265Warning ? OVERLAY_TEXT_265 : undefined}
-                                    onFragmentTimeUpdate={(time: Date) => {
-                                        const videoElement = playerRef.current?.getVideoElement?.();
-                                        const videoCurrentTime = videoElement?.currentTime || 0;
-
-                                        setServerTime(time, true);
-
-                                        if (videoCurrentTime > 0) {
-                                            setProgress(videoCurrentTime);
-                                        }
-                                    }}
-                                    onNextTime={(nextTime: Date) => {
-                                        if (serverApiVersion !== null && serverApiVersion >= 90) {
-                                            handleChangeMode(Mode.Record, nextTime);
-                                        }
-                                    }}
-                                />
-                            ) : (
-                                <VideoTag
-                                    isLandscape={isVerticalTimeline}
-                                    ref={playerRef}
-                                    {...props}
-                                    updateServerTime={updateServerTime}
-                                    setProgress={setProgress}
-                                    overlayText={showH265Warning ? OVERLAY_TEXT_265 : undefined}
-                                />
-                            )}
-                        </div>
+                        {/* Сетка камер либо одиночное видео в обертке для зума */}
+                        {isGridView ? (
+                            <CameraGrid
+                                cameras={availableCameras}
+                                layout={gridLayout}
+                                activeCamera={camera}
+                                expandedCamera={expandedCamera}
+                                noRecordingCameras={archiveSync.noRecordingCameras}
+                                renderTile={renderGridTile}
+                                onSelectTile={handleSelectTile}
+                                onToggleExpand={handleToggleExpandTile}
+                            />
+                        ) : (
+                            <div
+                                style={{
+                                    width: '100%',
+                                    height: '100%',
+                                    transform: enableVideoZoom ? `scale(${videoZoom})` : 'none',
+                                    transformOrigin: enableVideoZoom
+                                        ? `${zoomOriginX * 100}% ${zoomOriginY * 100}%`
+                                        : 'center',
+                                    transition: enableVideoZoom && videoZoom === 1 ? 'transform 0.3s ease-out' : 'none',
+                                    position: 'absolute',
+                                    inset: 0
+                                }}
+                            >
+                                {mainVideo}
+                            </div>
+                        )}
                     </div>
                     {/* Оверлеи поверх видео без зума - вне transform-контейнера */}
                     <MotionMaskOverlay
                         isVisible={isMaskEditorVisible}
                         maskGrid={maskGrid}
-                        onToggleCell={handleMaskToggleCell}
+                        resolutions={maskResolutions}
+                        objectTypes={editingObjectTypes}
+                        onChange={setMaskGrid}
+                        onObjectTypesChange={setEditingObjectTypes}
                         onApply={handleMaskApply}
                     />
                     {(playbackStatus === 'loading' || playbackStatus === 'buffering') && (
                         <Loader message={playbackStatus === 'loading' ? 'Загрузка видео...' : 'Буферизация...'} />
                     )}
-                    {!isPlaying && playbackStatus !== 'loading' && playbackStatus !== 'buffering' && (
-                        <PlayOverlay
-                            onClick={handlePlayOverlayClick}
-                            text={showH265Warning ? OVERLAY_TEXT_265 : undefined}
-                        />
-                    )}
+                    {!isPlaying &&
+                        reverseSpeed === 0 &&
+                        playbackStatus !== 'loading' &&
+                        playbackStatus !== 'buffering' && (
+                            <PlayOverlay
+                                onClick={handlePlayOverlayClick}
+                                text={showH265Warning ? OVERLAY_TEXT_265 : undefined}
+                            />
+                        )}
                     {/* Для iPhone всегда используем VideoTag с нативным воспроизведением m3u8 */}
                     {showSaveModal && (
                         <SaveStreamModal
                             currentTime={addSecondsToDate(serverTime ?? new Date(), ctxProgress)}
+                            initialRange={saveModalRange}
                             isOpen={showSaveModal}
                             onClose={handleCloseSaveModal}
                             onFinish={handleSaveStreamFinish}
+                            exportJobs={exportJobs}
+                            onCancelExport={cancelExport}
+                            onRetryExport={retryExport}
+                            onRemoveExport={removeExport}
                             url={streamUrl}
                             port={streamPort}
                             credentials={authVerified ? authorization : ''}
@@ -1603,6 +2457,35 @@ export const Player: React.FC<PlayerProps> = ({
                             proxy={effectiveProxy}
                         />
                     )}
+                    {isBookmarksPanelOpen && !shouldHideUiForMask && (
+                        <BookmarksPanel
+                            bookmarks={bookmarks}
+                            onAdd={serverTime ? handleAddBookmarkAtPlayhead : undefined}
+                            onJump={bookmark => seekTo(bookmark.time)}
+                            onRename={renameBookmark}
+                            onRemove={removeBookmark}
+                            onExport={exportBookmarks}
+                            onImport={importBookmarks}
+                            onClose={handleToggleBookmarksPanel}
+                        />
+                    )}
+                    {isEventsPanelOpen && appliedMotionFilter && !shouldHideUiForMask && (
+                        <MotionEventsPanel
+                            events={scopedMotionEvents}
+                            activeIndex={activeMotionEventIndex}
+                            onJump={handleJumpToMotionEvent}
+                            onPrevious={
+                                previousMotionEvent ? () => handleJumpToMotionEvent(previousMotionEvent) : undefined
+                            }
+                            onNext={nextMotionEvent ? () => handleJumpToMotionEvent(nextMotionEvent) : undefined}
+                            getThumbnailUrl={
+                                serverApiVersion !== null && serverApiVersion >= 90
+                                    ? getMotionEventThumbnailUrl
+                                    : undefined
+                            }
+                            onClose={handleToggleEventsPanel}
+                        />
+                    )}
                     {(serverUnavailable || authRequired) && (
                         <div
                             className={styles.overlay}
@@ -1693,6 +2576,7 @@ export const Player: React.FC<PlayerProps> = ({
                                 isFullscreen={isFullscreen}
                                 isNoSound={isNoSound}
                                 playbackSpeed={playbackSpeed}
+                                fastForwardSpeeds={isFastForwardAvailable ? fastForwardSpeeds : undefined}
                                 url={streamUrl}
                                 port={streamPort}
                                 protocol={protocol}
@@ -1708,6 +2592,8 @@ export const Player: React.FC<PlayerProps> = ({
                                 onToggleFullscreen={handleToggleFullscreen}
                                 onSpeedChange={handleSpeedChange}
                                 onSaveStream={handleSaveStream}
+                                onSnapshot={isGridView ? undefined : handleSnapshot}
+                                isSnapshotCapturing={isSnapshotCapturing}
                                 onTimeClick={handleTimelineClick}
                                 onChangeStartDate={handleTimeChange}
                                 onChangeMode={handleChangeMode}
@@ -1715,11 +2601,27 @@ export const Player: React.FC<PlayerProps> = ({
                                 disableCenterTimeline={currentMode === Mode.Live}
                                 motionFilter={appliedMotionFilter}
                                 isFilterPanelOpen={isFilterPanelOpen}
-                                activeFilterType={activeFilterType}
+                                activeFilterTypes={activeFilterTypes}
+                                showMotionLanes={showMotionLanes}
+                                onToggleMotionLanes={handleToggleMotionLanes}
+                                onMotionEventsChange={setMotionEvents}
+                                isEventsPanelOpen={isEventsPanelOpen}
+                                onToggleEventsPanel={appliedMotionFilter ? handleToggleEventsPanel : undefined}
                                 onToggleFilterPanel={handleToggleFilterPanel}
                                 onSelectFilterOption={handleSelectFilterOption}
                                 onClearFilter={handleClearMotionFilter}
+                                motionFilterPresets={motionFilterPresets}
+                                eventsPlayback={eventsPlayback}
                                 serverVersion={serverApiVersion}
+                                bookmarks={bookmarks}
+                                isBookmarksPanelOpen={isBookmarksPanelOpen}
+                                onToggleBookmarksPanel={handleToggleBookmarksPanel}
+                                showFilmstrip={showFilmstrip}
+                                onToggleFilmstrip={handleToggleFilmstrip}
+                                onBookmarkCreate={handleCreateBookmarkAtTime}
+                                timelineSelection={timelineSelectionProps}
+                                abLoop={abLoop}
+                                frameControls={frameControls}
                             />
                         </div>
                     </div>
@@ -1744,3 +2646,5 @@ export const Player: React.FC<PlayerProps> = ({
         </>
     );
 };
+
+export const Player = forwardRef(PlayerComponent);
@@ -9,9 +9,18 @@ interface SpeedSelectorProps {
     disabled?: boolean;
     isFullscreen?: boolean;
     isMobileLandscape?: boolean;
+    /** Дополнительные скорости ускоренного просмотра на сервере; показываются, если сервер их поддерживает */
+    fastForwardSpeeds?: number[];
 }
 
-const speedOptions = [
+interface SpeedOption {
+    value: number;
+    label: string;
+    /** Подпись на кнопке, если отличается от label */
+    controlLabel?: string;
+}
+
+const speedOptions: SpeedOption[] = [
     {value: 1, label: 'Обычная', controlLabel: '1x'},
     {value: 1.25, label: '1.25x'},
     {value: 1.5, label: '1.5x'},
@@ -20,18 +29,26 @@ const speedOptions = [
     {value: 4, label: '4x'}
 ];
 
+/** Высота строки списка скоростей, px */
+const OPTION_HEIGHT = 30;
+
 export const SpeedSelector: React.FC<SpeedSelectorProps> = ({
     playbackSpeed,
     onSpeedChange,
     disabled = false,
     isFullscreen = false,
-    isMobileLandscape = false
+    isMobileLandscape = false,
+    fastForwardSpeeds = []
 }) => {
     const [isOpen, setIsOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const [dropdownPosition, setDropdownPosition] = useState({top: 0, left: 0, width: 0});
 
+    const options: SpeedOption[] = [...speedOptions, ...fastForwardSpeeds.map(value => ({value, label: `${value}x`}))];
+    // Список открывается над кнопкой: дополнительные строки сдвигают его вверх
+    const extraOptionsHeight = fastForwardSpeeds.length * OPTION_HEIGHT;
+
     const handleToggle = () => {
         if (!disabled) {
             if (!isOpen && containerRef.current) {
@@ -39,13 +56,13 @@ export const SpeedSelector: React.FC<SpeedSelectorProps> = ({
 
                 if (isMobileLandscape) {
                     setDropdownPosition({
-                        top: rect.top - 230,
+                        top: rect.top - 230 - extraOptionsHeight,
                         left: rect.left,
                         width: rect.width
                     });
                 } else {
                     setDropdownPosition({
-                        top: rect.top - 253,
+                        top: rect.top - 253 - extraOptionsHeight,
                         left: rect.right - 165,
                         width: rect.width
                     });
@@ -84,7 +101,7 @@ export const SpeedSelector: React.FC<SpeedSelectorProps> = ({
     }, [isOpen]);
 
     const getCurrentSpeedLabel = () => {
-        const option = speedOptions.find(opt => opt.value === playbackSpeed);
+        const option = options.find(opt => opt.value === playbackSpeed);
         let label;
 
         if (option?.controlLabel) {
@@ -99,7 +116,7 @@ export const SpeedSelector: React.FC<SpeedSelectorProps> = ({
     };
 
     const getCurrentSpeedValue = () => {
-        return speedOptions.find(opt => opt.value === playbackSpeed)?.value || playbackSpeed;
+        return options.find(opt => opt.value === playbackSpeed)?.value || playbackSpeed;
     };
 
     return (
@@ -139,7 +156,7 @@ export const SpeedSelector: React.FC<SpeedSelectorProps> = ({
                         <div className={styles.divider} />
 
                         <div className={styles.options}>
-                            {speedOptions.map(option => (
+                            {options.map(option => (
                                 <button
                                     key={option.value}
                                     className={`${styles.option} ${getCurrentSpeedValue() === option.value ? styles.selected : ''}`}
@@ -177,7 +194,7 @@ export const SpeedSelector: React.FC<SpeedSelectorProps> = ({
                             <div className={styles.divider} />
 
                             <div className={styles.options}>
-                                {speedOptions.map(option => (
+                                {options.map(option => (
                                     <button
                                         key={option.value}
                                         className={`${styles.option} ${getCurrentSpeedValue() === option.value ? styles.selected : ''}`}
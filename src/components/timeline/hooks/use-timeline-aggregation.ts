@@ -0,0 +1,125 @@
+/**
+ * Хук для агрегации данных таймлайна в Web Worker
+ */
+import {useCallback, useEffect, useRef} from 'react';
+import {
+    aggregateTimeline,
+    TimelineAggregationRequest,
+    TimelineAggregationResult,
+    TimelineAggregationWorkerMessage,
+    TimelineAggregationWorkerResponse
+} from '../utils/timeline-aggregation';
+
+interface PendingAggregation {
+    request: TimelineAggregationRequest;
+    resolve: (result: TimelineAggregationResult | null) => void;
+}
+
+const createWorker = (): Worker | null => {
+    if (typeof Worker === 'undefined') {
+        return null;
+    }
+    try {
+        return new Worker(new URL('../workers/timeline-aggregation.worker.ts', import.meta.url));
+    } catch (error) {
+        console.warn('Воркер агрегации таймлайна недоступен, агрегация выполняется в основном потоке', error);
+        return null;
+    }
+};
+
+/**
+ * Выполняет агрегацию в воркере. Одновременно выполняется только последний запрос:
+ * новый запрос отменяет предыдущий, и тот завершается с null.
+ * Если воркер не создался или упал, агрегация выполняется синхронно в основном потоке
+ */
+export const useTimelineAggregation = () => {
+    const workerRef = useRef<Worker | null>(null);
+    const isWorkerFailedRef = useRef<boolean>(false);
+    const pendingRef = useRef<PendingAggregation | null>(null);
+    const requestIdRef = useRef<number>(0);
+
+    const getWorker = useCallback((): Worker | null => {
+        if (workerRef.current || isWorkerFailedRef.current) {
+            return workerRef.current;
+        }
+
+        const worker = createWorker();
+        if (!worker) {
+            isWorkerFailedRef.current = true;
+            return null;
+        }
+
+        worker.onmessage = (event: MessageEvent<TimelineAggregationWorkerResponse>) => {
+            const {result} = event.data;
+            const pending = pendingRef.current;
+            if (!pending || pending.request.requestId !== result.requestId) return;
+
+            pendingRef.current = null;
+            pending.resolve(result);
+        };
+
+        // Скрипт воркера не загрузился или упал: переключаемся на основной поток и досчитываем текущий запрос
+        worker.onerror = event => {
+            console.warn('Ошибка воркера агрегации таймлайна, агрегация выполняется в основном потоке', event.message);
+            worker.terminate();
+            workerRef.current = null;
+            isWorkerFailedRef.current = true;
+
+            const pending = pendingRef.current;
+            if (pending) {
+                pendingRef.current = null;
+                pending.resolve(aggregateTimeline(pending.request));
+            }
+        };
+
+        workerRef.current = worker;
+        return worker;
+    }, []);
+
+    /**
+     * Отменяет ожидающий запрос агрегации
+     */
+    const cancelAggregation = useCallback(() => {
+        const pending = pendingRef.current;
+        if (!pending) return;
+
+        pendingRef.current = null;
+        const message: TimelineAggregationWorkerMessage = {type: 'cancel', requestId: pending.request.requestId};
+        workerRef.current?.postMessage(message);
+        pending.resolve(null);
+    }, []);
+
+    /**
+     * Агрегирует данные; возвращает null, если запрос был вытеснен более новым или отменен
+     */
+    const aggregate = useCallback(
+        (params: Omit<TimelineAggregationRequest, 'requestId'>): Promise<TimelineAggregationResult | null> => {
+            cancelAggregation();
+
+            requestIdRef.current += 1;
+            const request: TimelineAggregationRequest = {...params, requestId: requestIdRef.current};
+
+            const worker = getWorker();
+            if (!worker) {
+                return Promise.resolve(aggregateTimeline(request));
+            }
+
+            return new Promise(resolve => {
+                pendingRef.current = {request, resolve};
+                const message: TimelineAggregationWorkerMessage = {type: 'aggregate', request};
+                worker.postMessage(message);
+            });
+        },
+        [cancelAggregation, getWorker]
+    );
+
+    useEffect(() => {
+        return () => {
+            cancelAggregation();
+            workerRef.current?.terminate();
+            workerRef.current = null;
+        };
+    }, [cancelAggregation]);
+
+    return {aggregate, cancelAggregation};
+};
@@ -3,24 +3,33 @@
  */
 import {useCallback, useEffect, useRef} from 'react';
 import {TimelineDrawingParams} from '../types';
-import {INTERVALS, UNIT_LENGTHS} from '../utils/constants';
+import {FILMSTRIP_LANE_SHIFT, INTERVALS, UNIT_LENGTHS} from '../utils/constants';
 import {Mode} from '../../../utils/types';
 import {
     drawBackground,
+    drawBookmarks,
     drawCurrentTimeIndicator,
     drawCursorPositionIndicator,
     drawDayAndHourMarkers,
+    drawFilmstrip,
     drawFragments,
     drawIntervalMarkers,
-    drawProgressFragments
+    drawMotionLanes,
+    drawLoopMarkers,
+    drawProgressFragments,
+    drawSelection
 } from '../utils/drawing-utils';
 import {
+    drawVerticalBookmarks,
     drawVerticalDayAndHourMarkers,
     drawVerticalIntervalMarkers,
     drawVerticalFragments,
+    drawVerticalMotionLanes,
     drawVerticalCurrentTimeIndicator,
     drawVerticalCursorPositionIndicator,
-    drawVerticalProgressFragments
+    drawVerticalLoopMarkers,
+    drawVerticalProgressFragments,
+    drawVerticalSelection
 } from '../utils/vertical-drawing-utils';
 
 /**
@@ -45,7 +54,12 @@ export const useTimelineDrawing = ({
     isVertical = false,
     isMobile = false,
     isDragging = false,
-    mode
+    mode,
+    bookmarks,
+    motionLanes,
+    selection,
+    loopMarkers,
+    filmstrip
 }: TimelineDrawingParams) => {
     // Сохраняем последнее известное время и прогресс
     const lastTimeRef = useRef<Date>(new Date(currentTime));
@@ -96,6 +110,11 @@ export const useTimelineDrawing = ({
             // Используем интерполированный прогресс, если он передан
             const actualProgress = interpolatedProgress !== undefined ? interpolatedProgress : progress;
 
+            // Лента кадров занимает место под полосой записей: метки шкалы и дорожки движения сдвигаются ниже
+            const laneShift = filmstrip && !isVertical ? FILMSTRIP_LANE_SHIFT : 0;
+            ctx.save();
+            ctx.translate(0, laneShift);
+
             // Отрисовываем маркеры дней и часов
             if (isVertical) {
                 drawVerticalDayAndHourMarkers(
@@ -107,7 +126,14 @@ export const useTimelineDrawing = ({
                     isMobile
                 );
             } else {
-                drawDayAndHourMarkers(ctx, visibleTimeRange, containerRect.width, containerRect.height, pixelsPerMilli, isMobile);
+                drawDayAndHourMarkers(
+                    ctx,
+                    visibleTimeRange,
+                    containerRect.width,
+                    containerRect.height - laneShift,
+                    pixelsPerMilli,
+                    isMobile
+                );
             }
 
             // Отрисовываем маркеры интервалов
@@ -126,12 +152,13 @@ export const useTimelineDrawing = ({
                     ctx,
                     visibleTimeRange,
                     containerRect.width,
-                    containerRect.height,
+                    containerRect.height - laneShift,
                     pixelsPerMilli,
                     INTERVALS[intervalIndex],
                     isMobile
                 );
             }
+            ctx.restore();
 
             // Отрисовываем фрагменты
             if (isVertical) {
@@ -160,6 +187,34 @@ export const useTimelineDrawing = ({
                 );
             }
 
+            if (filmstrip && !isVertical) {
+                drawFilmstrip(ctx, filmstrip, visibleTimeRange, containerRect.width, containerRect.height);
+            }
+
+            // Отрисовываем дорожки движения и объектов под полосой записей
+            if (motionLanes && motionLanes.length > 0) {
+                if (isVertical) {
+                    drawVerticalMotionLanes(
+                        ctx,
+                        motionLanes,
+                        visibleTimeRange,
+                        containerRect.width,
+                        containerRect.height
+                    );
+                } else {
+                    ctx.save();
+                    ctx.translate(0, laneShift);
+                    drawMotionLanes(
+                        ctx,
+                        motionLanes,
+                        visibleTimeRange,
+                        containerRect.width,
+                        containerRect.height - laneShift
+                    );
+                    ctx.restore();
+                }
+            }
+
             // Отрисовываем фреймы от времени начала трансляции до текущего индикатора времени
             // Это отдельная отрисовка, не зависящая от данных в fragments
             // Рисуем только в режиме прямой трансляции (Live)
@@ -193,6 +248,38 @@ export const useTimelineDrawing = ({
                 }
             }
 
+            // Выделенный диапазон рисуем поверх фрагментов, но под закладками и индикаторами
+            if (selection) {
+                if (isVertical) {
+                    drawVerticalSelection(ctx, selection, visibleTimeRange, containerRect.width, containerRect.height);
+                } else {
+                    drawSelection(ctx, selection, visibleTimeRange, containerRect.width, containerRect.height);
+                }
+            }
+
+            if (loopMarkers && (loopMarkers.a || loopMarkers.b)) {
+                if (isVertical) {
+                    drawVerticalLoopMarkers(
+                        ctx,
+                        loopMarkers,
+                        visibleTimeRange,
+                        containerRect.width,
+                        containerRect.height
+                    );
+                } else {
+                    drawLoopMarkers(ctx, loopMarkers, visibleTimeRange, containerRect.width, containerRect.height);
+                }
+            }
+
+            // Отрисовываем закладки под индикаторами времени и курсора
+            if (bookmarks && bookmarks.length > 0) {
+                if (isVertical) {
+                    drawVerticalBookmarks(ctx, bookmarks, visibleTimeRange, containerRect.width, containerRect.height);
+                } else {
+                    drawBookmarks(ctx, bookmarks, visibleTimeRange, containerRect.width, containerRect.height);
+                }
+            }
+
             // Отрисовываем индикатор текущего времени только если он находится в видимой области
             const currentTimeMs = currentTime.getTime() + actualProgress * 1000;
             const isCurrentTimeVisible =
@@ -255,7 +342,12 @@ export const useTimelineDrawing = ({
             intervalIndex,
             fragments,
             fragmentsBufferRange,
-            mode
+            mode,
+            bookmarks,
+            motionLanes,
+            selection,
+            loopMarkers,
+            filmstrip
         ]
     );
 
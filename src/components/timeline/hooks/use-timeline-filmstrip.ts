@@ -0,0 +1,186 @@
+/**
+ * Хук для загрузки ленты кадров видимой области шкалы
+ */
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import {format} from 'date-fns';
+import {FilmstripFrame, TimeRange} from '../types';
+import {
+    FILMSTRIP_CACHE_LIMIT,
+    FILMSTRIP_FAILED_RETRY_MS,
+    FILMSTRIP_IMAGE_RESOLUTION,
+    FILMSTRIP_MAX_CONCURRENT_LOADS,
+    FILMSTRIP_STEPS,
+    FILMSTRIP_STREAM
+} from '../utils/constants';
+import {ImageLoadQueue} from '../utils/image-load-queue';
+import {Protocol} from '../../../utils/types';
+import {buildRequestUrl} from '../../../utils/url-builder';
+import {getAuthToken} from '../../../utils/getAuthToken';
+import {getProtocol} from '../../../utils/url-params';
+import {getFramesCacheKey} from '../../../utils/frames-cache';
+import {useTransport} from '../../../context/transport-context';
+
+interface UseTimelineFilmstripParams {
+    enabled: boolean;
+    serverVersion: number | null | undefined;
+    url: string;
+    port: number;
+    credentials: string;
+    camera: number;
+    protocol?: Protocol;
+    proxy?: string;
+    visibleTimeRange: TimeRange | null;
+    intervalIndex: number;
+}
+
+const DEBOUNCE_MS = 300;
+
+interface FilmstripCacheEntry {
+    /** null - кадр получить не удалось */
+    image: HTMLImageElement | null;
+    /** Для неудачной загрузки: время, после которого кадр запрашивается снова */
+    retryAt?: number;
+}
+
+/**
+ * Кэш кадров по серверу, учетным данным, камере, потоку и началу периода: общий для всех шкал, чтобы при возврате
+ * к уже просмотренному периоду или смене камеры туда и обратно кадры не загружались заново
+ */
+const filmstripCache = new Map<string, FilmstripCacheEntry>();
+
+const putToCache = (key: string, image: HTMLImageElement | null) => {
+    filmstripCache.delete(key);
+    filmstripCache.set(key, image ? {image} : {image, retryAt: Date.now() + FILMSTRIP_FAILED_RETRY_MS});
+    // Map хранит порядок вставки: первыми удаляются давно загруженные кадры
+    while (filmstripCache.size > FILMSTRIP_CACHE_LIMIT) {
+        const oldestKey = filmstripCache.keys().next().value;
+        if (oldestKey === undefined) break;
+        filmstripCache.delete(oldestKey);
+    }
+};
+
+/**
+ * Запись кэша; неудачная загрузка по истечении срока удаляется, чтобы кадр запросился снова
+ */
+const getFromCache = (key: string): FilmstripCacheEntry | undefined => {
+    const entry = filmstripCache.get(key);
+    if (entry?.retryAt !== undefined && entry.retryAt <= Date.now()) {
+        filmstripCache.delete(key);
+        return undefined;
+    }
+    return entry;
+};
+
+/**
+ * Начала периодов ленты, пересекающих видимую область; периоды после текущего времени пропускаются
+ */
+const getFilmstripBuckets = (visibleTimeRange: TimeRange, stepMs: number): number[] => {
+    const buckets: number[] = [];
+    const end = Math.min(visibleTimeRange.end.getTime(), Date.now());
+    for (let time = Math.floor(visibleTimeRange.start.getTime() / stepMs) * stepMs; time < end; time += stepMs) {
+        buckets.push(time);
+    }
+    return buckets;
+};
+
+/**
+ * Загружает кадры на начало каждого периода видимой области. Шаг периода зависит от масштаба,
+ * кадры запрашиваются после остановки прокрутки через очередь с ограничением одновременных запросов.
+ * Возвращает null, если лента выключена или сервер не отдает кадры архива
+ */
+export const useTimelineFilmstrip = ({
+    enabled,
+    serverVersion,
+    url,
+    port,
+    credentials,
+    camera,
+    protocol,
+    proxy,
+    visibleTimeRange,
+    intervalIndex
+}: UseTimelineFilmstripParams): FilmstripFrame[] | null => {
+    const transport = useTransport();
+    const queueRef = useRef<ImageLoadQueue | null>(null);
+    // Меняется после загрузки очередного кадра, чтобы пересобрать ленту
+    const [loadedVersion, setLoadedVersion] = useState(0);
+
+    const isActive = enabled && serverVersion !== null && serverVersion !== undefined && serverVersion >= 90;
+    const stepMs = FILMSTRIP_STEPS[intervalIndex] * 1000;
+
+    const cacheKeyPrefix = useMemo(
+        () =>
+            `${getFramesCacheKey({url, port, protocol: protocol ?? getProtocol(), proxy, credentials, camera})}|${FILMSTRIP_STREAM}`,
+        [url, port, protocol, proxy, credentials, camera]
+    );
+    const getCacheKey = useCallback((time: number) => `${cacheKeyPrefix}|${time}`, [cacheKeyPrefix]);
+
+    const buildImageUrl = useCallback(
+        (time: Date): string => {
+            const timeStr = format(time, "yyyy-MM-dd'T'HH:mm:ss");
+            const preferredProtocol = protocol ?? getProtocol();
+            const authToken = getAuthToken(credentials);
+            const path = `/cameras/${camera}/image?stream=${FILMSTRIP_STREAM}&time=${timeStr}&resolution=${FILMSTRIP_IMAGE_RESOLUTION}&authorization=Basic%20${authToken}`;
+
+            return transport.resolveMediaUrl(
+                buildRequestUrl({
+                    host: url,
+                    port,
+                    protocol: preferredProtocol,
+                    proxy,
+                    path
+                })
+            );
+        },
+        [url, port, credentials, camera, protocol, proxy, transport]
+    );
+
+    useEffect(() => {
+        if (!queueRef.current) {
+            queueRef.current = new ImageLoadQueue(FILMSTRIP_MAX_CONCURRENT_LOADS);
+        }
+        const queue = queueRef.current;
+
+        if (!isActive || !visibleTimeRange) {
+            queue.clear();
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            const buckets = getFilmstripBuckets(visibleTimeRange, stepMs);
+            queue.retain(new Set(buckets.map(getCacheKey)));
+
+            buckets.forEach(time => {
+                const key = getCacheKey(time);
+                if (getFromCache(key)) return;
+                queue.enqueue({
+                    key,
+                    url: buildImageUrl(new Date(time)),
+                    onDone: image => {
+                        putToCache(key, image);
+                        setLoadedVersion(version => version + 1);
+                    }
+                });
+            });
+        }, DEBOUNCE_MS);
+
+        return () => clearTimeout(timer);
+    }, [isActive, visibleTimeRange, stepMs, getCacheKey, buildImageUrl]);
+
+    // Отменяем ожидающие загрузки при размонтировании
+    useEffect(() => () => queueRef.current?.clear(), []);
+
+    return useMemo(() => {
+        if (!isActive || !visibleTimeRange) return null;
+
+        return getFilmstripBuckets(visibleTimeRange, stepMs).reduce<FilmstripFrame[]>((frames, time) => {
+            const entry = getFromCache(getCacheKey(time));
+            if (entry) {
+                frames.push({start: new Date(time), end: new Date(time + stepMs), image: entry.image});
+            }
+            return frames;
+        }, []);
+        // loadedVersion - признак пополнения кэша
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isActive, visibleTimeRange, stepMs, getCacheKey, loadedVersion]);
+};
@@ -1,27 +1,58 @@
 /**
  * Хук для управления фрагментами временной шкалы
  */
-import {useState, useRef, useCallback, useMemo, useEffect} from 'react';
+import {useState, useRef, useCallback, useEffect} from 'react';
 import {getFramesTimeline} from '../../../utils/api';
 import {TimeRange, TimelineFragmentsParams, FragmentTimeRange} from '../types';
 import {BUFFER_SCREENS, UNIT_LENGTHS} from '../utils/constants';
+import {RunLengthTimeline} from '../utils/run-length-timeline';
+import {AggregationSegment, createDataSegment, toFragmentRanges} from '../utils/timeline-aggregation';
+import {useTimelineAggregation} from './use-timeline-aggregation';
 import {useTimelineAuth} from '../../../context/timeline-auth-context';
+import {useTransport} from '../../../context/transport-context';
 import {Protocol} from '../../../utils/types';
 import {TimelineMotionFilter} from '../../../types/motion-filter';
-import {buildRequestUrl} from '../../../utils/url-builder';
-import {getAuthToken} from '../../../utils/getAuthToken';
+import {DevlineRpcClient} from '../../../utils/rpc-client';
+import {isRpcAbortError, isRpcAuthError} from '../../../utils/rpc-errors';
+import {getFramesCacheKey, readCachedFramesDay, writeCachedFramesDay} from '../../../utils/frames-cache';
 import {startOfDay, endOfDay, addDays, format} from 'date-fns';
 
 // Константа для 30 минут в миллисекундах
 const THIRTY_MINUTES_MS = 30 * 60 * 1000;
 
 // Глобальное хранилище данных по камерам (чтобы сохранять данные между размонтированием и монтированием компонента)
-const globalFramesDataByCamera = new Map<string, Map<string, number[]>>();
+const globalFramesDataByCamera = new Map<string, Map<string, RunLengthTimeline>>();
 // Глобальное хранилище для отслеживания загрузки по камерам
 // Структура: Map<cameraKey, Set<dayKey>>
 // Отслеживает, какие дни сейчас загружаются, чтобы избежать дублирующих запросов
 const globalLoadingDaysByCamera = new Map<string, Set<string>>();
 
+/**
+ * Данные буфера, подготовленные для агрегации: участки посекундных данных и пропуски
+ */
+interface MergedTimelineData {
+    unitLength: number;
+    segments: AggregationSegment[];
+    bufferRange: TimeRange;
+}
+
+/**
+ * Результат последней примененной агрегации. Хранится в ref, чтобы код, дождавшийся applyMergedData,
+ * читал новые данные сразу, не дожидаясь перерисовки
+ */
+interface AppliedFragmentsData {
+    fragments: number[];
+    /** Индекс масштаба, в котором агрегированы fragments */
+    intervalIndex: number;
+    fragmentsBufferRange: TimeRange;
+    fragmentRanges: FragmentTimeRange[];
+}
+
+/** Источник данных таймлайна: обычные фреймы или motion filter */
+type FragmentsSource = 'frames' | 'motion';
+
+const EMPTY_BUFFER_RANGE: TimeRange = {start: new Date(0), end: new Date(0)};
+
 interface MotionTimelineRequest {
     start: Date;
     end: Date;
@@ -56,6 +87,7 @@ export const useTimelineFragments = (
         zoomIndex = 8
     } = params;
     const {setTimelineAccess} = useTimelineAuth();
+    const transport = useTransport();
 
     // Ref для хранения актуального zoomIndex, чтобы использовать его в асинхронных операциях
     const zoomIndexRef = useRef<number>(zoomIndex);
@@ -69,6 +101,19 @@ export const useTimelineFragments = (
     const setFragments = (data: number[]) => {
         _setFragments(data);
     };
+    // Диапазоны времени для каждого фрагмента (вычисляются вместе с fragments в воркере агрегации)
+    const [fragmentRanges, setFragmentRanges] = useState<FragmentTimeRange[]>([]);
+    // У фреймов и motion filter свои воркеры агрегации, чтобы запросы одного не вытесняли запросы другого
+    const {aggregate: aggregateFrames, cancelAggregation: cancelFramesAggregation} = useTimelineAggregation();
+    const {aggregate: aggregateMotion, cancelAggregation: cancelMotionAggregation} = useTimelineAggregation();
+    const appliedFragmentsRef = useRef<AppliedFragmentsData>({
+        fragments: [],
+        intervalIndex: 0,
+        fragmentsBufferRange: EMPTY_BUFFER_RANGE,
+        fragmentRanges: []
+    });
+    const motionFilterRef = useRef(motionFilter);
+    motionFilterRef.current = motionFilter;
     // Буферизованный диапазон фрагментов
     const [fragmentsBufferRange, setFragmentsBufferRange] = useState<TimeRange>(() => ({
         start: new Date(0), // Устанавливаем невалидный диапазон, чтобы гарантировать загрузку
@@ -112,8 +157,11 @@ export const useTimelineFragments = (
         loadingDaysRef.current = globalLoadingDaysByCamera.get(cameraKey)!;
     }, [cameraKey]);
     // Хранилище загруженных данных по 30-минутным интервалам для motion filter (посекундно, unit_len=1)
-    // Ключ: timestamp начала 30-минутного интервала в миллисекундах, значение: массив фреймов (unit_len=1, посекундно)
-    const motionDataByIntervalRef = useRef<Map<number, number[]>>(new Map());
+    // Ключ: timestamp начала 30-минутного интервала в миллисекундах, значение: серии фреймов (unit_len=1, посекундно)
+    const motionDataByIntervalRef = useRef<Map<number, RunLengthTimeline>>(new Map());
+    // Версия данных motion filter: увеличивается при каждом изменении motionDataByIntervalRef,
+    // чтобы производные от них данные (список событий) пересчитывались
+    const [motionDataVersion, setMotionDataVersion] = useState<number>(0);
     // Set для отслеживания 30-минутных интервалов motion filter, которые уже запрашиваются
     // Ключ: timestamp начала 30-минутного интервала в миллисекундах
     const loadingMotionIntervalsRef = useRef<Set<number>>(new Set());
@@ -141,83 +189,17 @@ export const useTimelineFragments = (
     }, []);
 
     /**
-     * Преобразует данные из секундных (unit_len=1) в нужный масштаб
-     * @param secondData Данные посекундно (unit_len=1)
-     * @param targetUnitLength Целевая длина единицы времени в секундах
-     * @param dayStart Начало дня
-     * @param rangeStart Начало нужного диапазона
-     * @param rangeEnd Конец нужного диапазона
-     * @returns Преобразованные данные для нужного диапазона
-     */
-    const convertSecondDataToScale = useCallback(
-        (
-            secondData: number[],
-            targetUnitLength: number,
-            dayStart: Date,
-            rangeStart: Date,
-            rangeEnd: Date
-        ): number[] => {
-            const dayStartTime = dayStart.getTime();
-            const rangeStartTime = rangeStart.getTime();
-            const rangeEndTime = rangeEnd.getTime();
-
-            // Вычисляем индексы в секундных данных
-            const startIndex = Math.max(0, Math.floor((rangeStartTime - dayStartTime) / 1000));
-            const endIndex = Math.min(secondData.length, Math.ceil((rangeEndTime - dayStartTime) / 1000));
-
-            // Если нужен масштаб 1 секунда, просто возвращаем нужный диапазон
-            if (targetUnitLength === 1) {
-                return secondData.slice(startIndex, endIndex);
-            }
-
-            // Преобразуем в нужный масштаб: группируем секунды в единицы нужной длины
-            const result: number[] = [];
-            const unitsInDay = Math.floor((endIndex - startIndex) / targetUnitLength);
-            const remainder = (endIndex - startIndex) % targetUnitLength;
-
-            for (let i = 0; i < unitsInDay; i++) {
-                const unitStart = startIndex + i * targetUnitLength;
-                const unitEnd = unitStart + targetUnitLength;
-                // Если хотя бы одна секунда в единице имеет фрейм, то единица имеет фрейм
-                let hasFrame = false;
-                for (let j = unitStart; j < unitEnd && j < endIndex; j++) {
-                    if (secondData[j] === 1 || secondData[j] > 0) {
-                        hasFrame = true;
-                        break;
-                    }
-                }
-                result.push(hasFrame ? 1 : 0);
-            }
-
-            // Обрабатываем остаток, если есть
-            if (remainder > 0) {
-                const unitStart = startIndex + unitsInDay * targetUnitLength;
-                let hasFrame = false;
-                for (let j = unitStart; j < endIndex; j++) {
-                    if (secondData[j] === 1 || secondData[j] > 0) {
-                        hasFrame = true;
-                        break;
-                    }
-                }
-                result.push(hasFrame ? 1 : 0);
-            }
-
-            return result;
-        },
-        []
-    );
-
-    /**
-     * Объединяет данные по дням для видимого диапазона и преобразует в нужный масштаб
+     * Собирает данные по дням для видимого диапазона. Преобразование в нужный масштаб выполняется
+     * в воркере агрегации (см. applyMergedData)
      * @param rangeStart Начало диапазона
      * @param rangeEnd Конец диапазона
      * @param zoomIndex Индекс масштаба для преобразования данных
-     * @returns Объединенные данные и диапазон буфера
+     * @returns Участки данных и диапазон буфера
      */
     const mergeDaysDataForRange = useCallback(
-        (rangeStart: Date, rangeEnd: Date, zoomIndex: number): {timeline: number[]; bufferRange: TimeRange} => {
+        (rangeStart: Date, rangeEnd: Date, zoomIndex: number): MergedTimelineData => {
             const targetUnitLength = UNIT_LENGTHS[zoomIndex];
-            const result: number[] = [];
+            const segments: AggregationSegment[] = [];
             let bufferRangeStart: Date | null = null;
             let bufferRangeEnd: Date | null = null;
 
@@ -238,15 +220,7 @@ export const useTimelineFragments = (
                             ? rangeEnd
                             : dayEnd;
 
-                    const convertedData = convertSecondDataToScale(
-                        dayData,
-                        targetUnitLength,
-                        dayStart,
-                        dayRangeStart,
-                        dayRangeEnd
-                    );
-
-                    result.push(...convertedData);
+                    segments.push(createDataSegment(dayData, dayRangeStart, dayRangeEnd));
 
                     if (bufferRangeStart === null) {
                         bufferRangeStart = dayRangeStart;
@@ -264,10 +238,7 @@ export const useTimelineFragments = (
 
                     const duration = dayRangeEnd.getTime() - dayRangeStart.getTime();
                     const units = Math.ceil(duration / (targetUnitLength * 1000));
-                    // Используем более безопасный способ добавления элементов для больших массивов
-                    for (let i = 0; i < units; i++) {
-                        result.push(0);
-                    }
+                    segments.push({type: 'gap', units});
 
                     if (bufferRangeStart === null) {
                         bufferRangeStart = dayRangeStart;
@@ -279,14 +250,15 @@ export const useTimelineFragments = (
             }
 
             return {
-                timeline: result,
+                unitLength: targetUnitLength,
+                segments,
                 bufferRange: {
                     start: bufferRangeStart || rangeStart,
                     end: bufferRangeEnd || rangeEnd
                 }
             };
         },
-        [getDayKey, convertSecondDataToScale]
+        [getDayKey]
     );
 
     /**
@@ -364,12 +336,13 @@ export const useTimelineFragments = (
     );
 
     /**
-     * Объединяет данные motion filter по 30-минутным интервалам для видимого диапазона и преобразует в нужный масштаб
+     * Собирает данные motion filter по 30-минутным интервалам для видимого диапазона.
+     * Преобразование в нужный масштаб выполняется в воркере агрегации (см. applyMergedData)
      */
     const mergeMotionIntervalsDataForRange = useCallback(
-        (rangeStart: Date, rangeEnd: Date, zoomIndex: number): {timeline: number[]; bufferRange: TimeRange} => {
+        (rangeStart: Date, rangeEnd: Date, zoomIndex: number): MergedTimelineData => {
             const targetUnitLength = UNIT_LENGTHS[zoomIndex];
-            const result: number[] = [];
+            const segments: AggregationSegment[] = [];
             let bufferRangeStart: Date | null = null;
             let bufferRangeEnd: Date | null = null;
 
@@ -388,15 +361,7 @@ export const useTimelineFragments = (
                     const intervalRangeEnd =
                         currentIntervalStart + THIRTY_MINUTES_MS > endTime ? rangeEnd : intervalEndDate;
 
-                    const convertedData = convertSecondDataToScale(
-                        intervalData,
-                        targetUnitLength,
-                        intervalStartDate,
-                        intervalRangeStart,
-                        intervalRangeEnd
-                    );
-
-                    result.push(...convertedData);
+                    segments.push(createDataSegment(intervalData, intervalRangeStart, intervalRangeEnd));
 
                     if (bufferRangeStart === null) {
                         bufferRangeStart = intervalRangeStart;
@@ -413,10 +378,7 @@ export const useTimelineFragments = (
 
                     const duration = intervalRangeEnd.getTime() - intervalRangeStart.getTime();
                     const units = Math.ceil(duration / (targetUnitLength * 1000));
-                    // Используем более безопасный способ добавления элементов для больших массивов
-                    for (let i = 0; i < units; i++) {
-                        result.push(0);
-                    }
+                    segments.push({type: 'gap', units});
 
                     if (bufferRangeStart === null) {
                         bufferRangeStart = intervalRangeStart;
@@ -428,68 +390,50 @@ export const useTimelineFragments = (
             }
 
             return {
-                timeline: result,
+                unitLength: targetUnitLength,
+                segments,
                 bufferRange: {
                     start: bufferRangeStart || rangeStart,
                     end: bufferRangeEnd || rangeEnd
                 }
             };
         },
-        [getIntervalKey, convertSecondDataToScale]
+        [getIntervalKey]
     );
 
-    // Вычисляем диапазоны времени для каждого фрагмента
-    const fragmentRanges = useMemo((): FragmentTimeRange[] => {
-        if (!fragments || fragments.length === 0 || fragmentsBufferRange.start.getTime() === 0) {
-            return [];
-        }
-
-        const ranges: FragmentTimeRange[] = [];
-        // Получаем текущий intervalIndex из loadQueue или используем 0 по умолчанию
-        const currentIntervalIndex = zoomIndex;
-        const unitLength = UNIT_LENGTHS[currentIntervalIndex];
-
-        let currentFragmentStart: number | null = null;
-
-        for (let i = 0; i < fragments.length; i++) {
-            if (fragments[i] === 1) {
-                // Начало фрагмента
-                if (currentFragmentStart === null) {
-                    currentFragmentStart = i;
-                }
-            } else if (fragments[i] === 0 && currentFragmentStart !== null) {
-                // Конец фрагмента
-                const fragmentStartTime = new Date(
-                    fragmentsBufferRange.start.getTime() + currentFragmentStart * unitLength * 1000
-                );
-                const fragmentEndTime = new Date(fragmentsBufferRange.start.getTime() + i * unitLength * 1000);
-
-                ranges.push({
-                    start: fragmentStartTime,
-                    end: fragmentEndTime
-                });
-
-                currentFragmentStart = null;
-            }
-        }
-
-        // Обрабатываем случай, когда фрагмент заканчивается в конце массива
-        if (currentFragmentStart !== null) {
-            const fragmentStartTime = new Date(
-                fragmentsBufferRange.start.getTime() + currentFragmentStart * unitLength * 1000
-            );
-            const fragmentEndTime = new Date(
-                fragmentsBufferRange.start.getTime() + fragments.length * unitLength * 1000
-            );
-
-            ranges.push({
-                start: fragmentStartTime,
-                end: fragmentEndTime
+    /**
+     * Агрегирует подготовленные данные в воркере и применяет результат; промис завершается после применения.
+     * Результаты запросов, вытесненных более новыми (например, при продолжении панорамирования),
+     * и результаты источника, который уже не отображается, отбрасываются
+     */
+    const applyMergedData = useCallback(
+        async (mergedData: MergedTimelineData, source: FragmentsSource): Promise<void> => {
+            const aggregate = source === 'motion' ? aggregateMotion : aggregateFrames;
+            const result = await aggregate({
+                unitLength: mergedData.unitLength,
+                bufferStart: mergedData.bufferRange.start.getTime(),
+                segments: mergedData.segments
             });
-        }
+            if (!result || (source === 'motion') !== Boolean(motionFilterRef.current)) return;
 
-        return ranges;
-    }, [fragments, fragmentsBufferRange, zoomIndex]);
+            const applied: AppliedFragmentsData = {
+                fragments: Array.from(result.timeline),
+                intervalIndex: UNIT_LENGTHS.indexOf(mergedData.unitLength),
+                fragmentsBufferRange: mergedData.bufferRange,
+                fragmentRanges: toFragmentRanges(result.ranges)
+            };
+            appliedFragmentsRef.current = applied;
+            _setFragments(applied.fragments);
+            setFragmentsBufferRange(applied.fragmentsBufferRange);
+            setFragmentRanges(applied.fragmentRanges);
+        },
+        [aggregateFrames, aggregateMotion]
+    );
+
+    /**
+     * Данные последней примененной агрегации без ожидания перерисовки
+     */
+    const getAppliedFragments = useCallback((): AppliedFragmentsData => appliedFragmentsRef.current, []);
 
     // Старая функция разбиения на блоки (больше не используется)
     // const splitIntoTimeBlocks = ...
@@ -554,6 +498,20 @@ export const useTimelineFragments = (
                     return;
                 }
 
+                const cacheKey = getFramesCacheKey({url, port, protocol, proxy, credentials, camera});
+
+                // Завершившиеся сутки берем из постоянного кэша, если учетные данные уже известны
+                if (credentials) {
+                    const cachedDay = await readCachedFramesDay(cacheKey, dayKey);
+                    if (cachedDay) {
+                        framesDataByDayRef.current.set(
+                            dayKey,
+                            new RunLengthTimeline(dayStart, 1, cachedDay.length, cachedDay.runs)
+                        );
+                        return;
+                    }
+                }
+
                 const response = await getFramesTimeline({
                     startTime: dayStart,
                     endTime: dayEnd,
@@ -564,26 +522,30 @@ export const useTimelineFragments = (
                     stream: 'video',
                     channel: camera,
                     protocol,
-                    proxy
+                    proxy,
+                    transport
                 });
 
                 // Бэкенд всегда возвращает 31 день в месяце, заполняя несуществующие дни нулями
                 // Берем только первые 86400 элементов (первые запрашиваемые сутки)
                 const SECONDS_IN_DAY = 86400;
-                const dayTimeline = response.timeline.slice(0, SECONDS_IN_DAY);
+                const dayTimeline = RunLengthTimeline.fromArray(response.timeline.slice(0, SECONDS_IN_DAY), dayStart);
 
                 // Сохраняем данные по дню
                 framesDataByDayRef.current.set(dayKey, dayTimeline);
+                if (dayEnd.getTime() === nextDayStart.getTime()) {
+                    void writeCachedFramesDay(cacheKey, dayKey, nextDayStart, dayTimeline);
+                }
             } catch (error) {
                 console.error('loadDayData: ошибка при загрузке дня', error);
-                if (error instanceof Error && error.message === 'FORBIDDEN') {
+                if (isRpcAuthError(error)) {
                     setTimelineAccess(false);
                 }
             } finally {
                 loadingDaysRef.current.delete(dayKey);
             }
         },
-        [url, port, credentials, camera, protocol, proxy, getDayKey, setTimelineAccess]
+        [url, port, credentials, camera, protocol, proxy, transport, getDayKey, setTimelineAccess]
     );
 
     /**
@@ -632,78 +594,37 @@ export const useTimelineFragments = (
                 // Сохраняем AbortController в ref для возможности отмены
                 activeMotionAbortControllerRef.current.set(intervalStartTimestamp, abortController);
 
-                const rpcUrl = buildRequestUrl({
+                const client = new DevlineRpcClient({
                     host: url,
                     port,
-                    protocol: protocol ?? 'http',
+                    credentials,
+                    protocol: protocol ?? Protocol.Http,
                     proxy,
-                    path: proxy
-                        ? '/rpc'
-                        : `/rpc?authorization=Basic ${getAuthToken(credentials)}&content-type=application/json`
+                    transport
                 });
+                const timelineParams = {
+                    startTime: intervalStart,
+                    endTime: actualIntervalEnd,
+                    unitLength: 1, // Всегда загружаем посекундно
+                    channel: camera,
+                    stream: 'video'
+                };
 
-                const headers: HeadersInit = {};
-                if (proxy) {
-                    headers['Content-Type'] = 'application/json';
-                    headers['Authorization'] = `Basic ${getAuthToken(credentials)}`;
-                }
-
-                // Определяем метод API и параметры фильтра в зависимости от типа фильтра
-                const hasTypes = motionFilter?.types && motionFilter.types.length > 0;
-                const apiMethod = hasTypes ? 'archive.get_objects_timeline' : 'archive.get_motions_timeline';
-
-                // Формируем параметры фильтра: для объектов передаем types и mask, для движения - весь фильтр
-                const filterParam = hasTypes
-                    ? {
-                          types: motionFilter.types,
-                          ...(motionFilter.mask && {mask: motionFilter.mask})
-                      }
-                    : motionFilter;
-
-                const version = hasTypes ? 71 : 13;
-
-                const response = await fetch(rpcUrl, {
-                    method: 'POST',
-                    headers,
-                    body: JSON.stringify({
-                        method: apiMethod,
-                        params: {
-                            start_time: [
-                                intervalStart.getFullYear(),
-                                intervalStart.getMonth() + 1,
-                                intervalStart.getDate(),
-                                intervalStart.getHours(),
-                                intervalStart.getMinutes(),
-                                intervalStart.getSeconds()
-                            ],
-                            end_time: [
-                                actualIntervalEnd.getFullYear(),
-                                actualIntervalEnd.getMonth() + 1,
-                                actualIntervalEnd.getDate(),
-                                actualIntervalEnd.getHours(),
-                                actualIntervalEnd.getMinutes(),
-                                actualIntervalEnd.getSeconds()
-                            ],
-                            unit_len: 1, // Всегда загружаем посекундно
-                            channel: camera,
-                            stream: 'video',
-                            filter: filterParam
-                        },
-                        version
-                    }),
-                    signal: abortController.signal
-                });
-
-                if (!response.ok) {
-                    throw new Error('Failed to fetch motion timeline data');
-                }
-
-                const data = await response.json();
-                if (data.error && data.error.type === 'auth' && data.error.message === 'forbidden') {
-                    throw new Error('FORBIDDEN');
-                }
-
-                const result = data.result;
+                // Для объектов используем get_objects_timeline с types и mask, для движения - get_motions_timeline с фильтром
+                const types = motionFilter?.types;
+                const result =
+                    types && types.length > 0
+                        ? await client.getObjectsTimeline(
+                              {
+                                  ...timelineParams,
+                                  filter: {types, ...(motionFilter?.mask && {mask: motionFilter.mask})}
+                              },
+                              abortController.signal
+                          )
+                        : await client.getMotionsTimeline(
+                              {...timelineParams, filter: motionFilter ?? undefined},
+                              abortController.signal
+                          );
 
                 // Проверяем, что активный запрос не был отменен перед сохранением данных
                 if (activeRequestRef.current === null) {
@@ -716,14 +637,18 @@ export const useTimelineFragments = (
                 }
 
                 // Сохраняем данные по интервалу
-                motionDataByIntervalRef.current.set(intervalStartTimestamp, result.timeline);
+                motionDataByIntervalRef.current.set(
+                    intervalStartTimestamp,
+                    RunLengthTimeline.fromArray(result.timeline, intervalStart)
+                );
+                setMotionDataVersion(version => version + 1);
             } catch (error) {
                 // Игнорируем ошибку, если запрос был отменен
-                if (error instanceof Error && (error.name === 'AbortError' || error.message === 'Request aborted')) {
+                if (isRpcAbortError(error)) {
                     return;
                 }
                 console.error('loadMotionIntervalData: ошибка при загрузке интервала', error);
-                if (error instanceof Error && error.message === 'FORBIDDEN') {
+                if (isRpcAuthError(error)) {
                     setTimelineAccess(false);
                 }
             } finally {
@@ -732,17 +657,19 @@ export const useTimelineFragments = (
                 activeMotionAbortControllerRef.current.delete(intervalStartTimestamp);
             }
         },
-        [url, port, credentials, camera, protocol, proxy, setTimelineAccess, motionFilter]
+        [url, port, credentials, camera, protocol, proxy, transport, setTimelineAccess, motionFilter]
     );
 
     // Ref для debounce таймера обычных фреймов
     const regularFramesDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
     /**
-     * Функция для добавления запроса в очередь
+     * Функция для добавления запроса в очередь.
+     * При immediate промис завершается, когда отображение обновлено данными, уже имеющимися в кэше,
+     * а для обычных фреймов - и данными загруженных дней
      */
     const loadFragments = useCallback(
-        (start: Date, end: Date, zoomIndex: number = 0, immediate: boolean = false) => {
+        async (start: Date, end: Date, zoomIndex: number = 0, immediate: boolean = false): Promise<void> => {
             const screenDuration = end.getTime() - start.getTime();
             const bufferStart = new Date(start.getTime() - screenDuration * BUFFER_SCREENS);
             const bufferEnd = new Date(end.getTime() + screenDuration * BUFFER_SCREENS);
@@ -786,8 +713,7 @@ export const useTimelineFragments = (
                         new Date(expandedBufferEnd),
                         zoomIndex
                     );
-                    setFragments(mergedData.timeline);
-                    setFragmentsBufferRange(mergedData.bufferRange);
+                    await applyMergedData(mergedData, 'motion');
                     return;
                 }
 
@@ -881,8 +807,7 @@ export const useTimelineFragments = (
                                 currentZoomIndex
                             );
 
-                            setFragments(mergedData.timeline);
-                            setFragmentsBufferRange(mergedData.bufferRange);
+                            void applyMergedData(mergedData, 'motion');
                             // Принудительно обновляем компонент после изменения зума
                             // Используем двойной requestAnimationFrame для гарантии, что React перерисует компонент
                             // после того, как браузер будет готов к обновлению и React обработает первое обновление
@@ -904,7 +829,7 @@ export const useTimelineFragments = (
                 }
 
                 // Функция для выполнения обновления motion filter
-                const executeMotionUpdate = () => {
+                const executeMotionUpdate = async (): Promise<void> => {
                     if (isLoadingFragments) {
                         return;
                     }
@@ -944,8 +869,7 @@ export const useTimelineFragments = (
                         new Date(expandedBufferEnd),
                         zoomIndex
                     );
-                    setFragments(mergedData.timeline);
-                    setFragmentsBufferRange(mergedData.bufferRange);
+                    const applied = applyMergedData(mergedData, 'motion');
                     lastAppliedFilterSignatureRef.current = motionFilterSignature ?? null;
 
                     // Если есть интервалы для загрузки, запускаем загрузку последовательно по 30 минут
@@ -993,15 +917,14 @@ export const useTimelineFragments = (
                                     new Date(expandedBufferEnd),
                                     currentZoomIndex
                                 );
-                                setFragments(updatedData.timeline);
-                                setFragmentsBufferRange(updatedData.bufferRange);
+                                await applyMergedData(updatedData, 'motion');
                             }
                         };
 
                         loadIntervalsSequentially()
                             .catch(error => {
                                 console.error('loadFragments (motion): ошибка при загрузке интервалов', error);
-                                if (error instanceof Error && error.message === 'FORBIDDEN') {
+                                if (isRpcAuthError(error)) {
                                     setTimelineAccess(false);
                                 }
                             })
@@ -1013,6 +936,8 @@ export const useTimelineFragments = (
                         setIsLoadingFragments(false);
                         activeRequestRef.current = null;
                     }
+
+                    await applied;
                 };
 
                 // Если требуется немедленное обновление (после отпускания), выполняем сразу
@@ -1022,7 +947,7 @@ export const useTimelineFragments = (
                         clearTimeout(loadFragmentsDebounceTimerRef.current);
                         loadFragmentsDebounceTimerRef.current = null;
                     }
-                    executeMotionUpdate();
+                    await executeMotionUpdate();
                 } else {
                     // Во время перетаскивания используем debounce для предотвращения частых обновлений
                     if (loadFragmentsDebounceTimerRef.current) {
@@ -1030,7 +955,7 @@ export const useTimelineFragments = (
                     }
                     loadFragmentsDebounceTimerRef.current = setTimeout(() => {
                         loadFragmentsDebounceTimerRef.current = null;
-                        executeMotionUpdate();
+                        void executeMotionUpdate();
                     }, DEBOUNCE_DELAY);
                 }
             } else {
@@ -1042,7 +967,7 @@ export const useTimelineFragments = (
                 // - Избегать разрывов в данных при переключении на дальние даты
 
                 // Функция для выполнения обновления фреймов
-                const executeUpdate = () => {
+                const executeUpdate = async (): Promise<void> => {
                     const actualBufferEnd = bufferEnd;
                     // Проверяем, нужно ли загружать новые дни
                     const daysToLoad = getDaysToLoad(bufferStart, actualBufferEnd);
@@ -1050,8 +975,7 @@ export const useTimelineFragments = (
                     // Всегда обновляем отображение для нового видимого диапазона
                     // Это применяет данные к отображению, даже если начальная загрузка еще не завершена
                     const mergedData = mergeDaysDataForRange(bufferStart, actualBufferEnd, zoomIndex);
-                    setFragments(mergedData.timeline);
-                    setFragmentsBufferRange(mergedData.bufferRange);
+                    await applyMergedData(mergedData, 'frames');
 
                     // Если начальная загрузка еще не завершена, не загружаем новые дни
                     // Но данные, которые уже есть в кэше, уже применены к отображению выше
@@ -1065,12 +989,11 @@ export const useTimelineFragments = (
                     }
 
                     // Запускаем загрузку дней параллельно
-                    Promise.all(daysToLoad.map(day => loadDayData(day))).then(() => {
-                        // После загрузки обновляем отображение
-                        const updatedData = mergeDaysDataForRange(bufferStart, actualBufferEnd, zoomIndex);
-                        setFragments(updatedData.timeline);
-                        setFragmentsBufferRange(updatedData.bufferRange);
-                    });
+                    await Promise.all(daysToLoad.map(day => loadDayData(day)));
+
+                    // После загрузки обновляем отображение
+                    const updatedData = mergeDaysDataForRange(bufferStart, actualBufferEnd, zoomIndex);
+                    await applyMergedData(updatedData, 'frames');
                 };
 
                 // Если требуется немедленное обновление (после отпускания), выполняем сразу
@@ -1080,7 +1003,7 @@ export const useTimelineFragments = (
                         clearTimeout(regularFramesDebounceTimerRef.current);
                         regularFramesDebounceTimerRef.current = null;
                     }
-                    executeUpdate();
+                    await executeUpdate();
                 } else {
                     // Во время перетаскивания используем debounce для предотвращения частых обновлений
                     if (regularFramesDebounceTimerRef.current) {
@@ -1088,7 +1011,7 @@ export const useTimelineFragments = (
                     }
                     regularFramesDebounceTimerRef.current = setTimeout(() => {
                         regularFramesDebounceTimerRef.current = null;
-                        executeUpdate();
+                        void executeUpdate();
                     }, DEBOUNCE_DELAY);
                 }
             }
@@ -1108,6 +1031,7 @@ export const useTimelineFragments = (
             getMotionIntervalsToLoad,
             mergeMotionIntervalsDataForRange,
             loadMotionIntervalData,
+            applyMergedData,
             setTimelineAccess
         ]
     );
@@ -1119,7 +1043,16 @@ export const useTimelineFragments = (
      * НЕ должна вызываться при изменении зума или visibleTimeRange
      */
     const resetFragments = useCallback(() => {
+        cancelFramesAggregation();
+        cancelMotionAggregation();
+        appliedFragmentsRef.current = {
+            fragments: [],
+            intervalIndex: 0,
+            fragmentsBufferRange: EMPTY_BUFFER_RANGE,
+            fragmentRanges: []
+        };
         setFragments([]);
+        setFragmentRanges([]);
         setFragmentsBufferRange({
             start: new Date(0), // Устанавливаем невалидный диапазон, чтобы гарантировать перезагрузку
             end: new Date(0)
@@ -1142,6 +1075,7 @@ export const useTimelineFragments = (
         activeMotionAbortControllerRef.current.clear();
         motionDataByIntervalRef.current.clear();
         loadingMotionIntervalsRef.current.clear();
+        setMotionDataVersion(version => version + 1);
         // Очищаем активный запрос - это прерывает загрузку фильтров
         activeRequestRef.current = null;
         // Очищаем debounce таймеры
@@ -1159,7 +1093,7 @@ export const useTimelineFragments = (
         }
         // Останавливаем активные запросы
         stopProcessingQueue();
-    }, [stopProcessingQueue]);
+    }, [stopProcessingQueue, cancelFramesAggregation, cancelMotionAggregation]);
 
     /**
      * Функция для очистки кэша данных фильтров (motion/objects)
@@ -1176,6 +1110,7 @@ export const useTimelineFragments = (
         // Очищаем данные и очередь загрузки
         motionDataByIntervalRef.current.clear();
         loadingMotionIntervalsRef.current.clear();
+        setMotionDataVersion(version => version + 1);
 
         // Очищаем активный запрос - это прерывает загрузку фильтров
         activeRequestRef.current = null;
@@ -1199,6 +1134,7 @@ export const useTimelineFragments = (
         loadingDaysRef.current.clear();
         motionDataByIntervalRef.current.clear();
         loadingMotionIntervalsRef.current.clear();
+        setMotionDataVersion(version => version + 1);
     }, []);
 
     /**
@@ -1250,8 +1186,7 @@ export const useTimelineFragments = (
 
                         // Обновляем fragments с загруженными данными
                         const mergedData = mergeDaysDataForRange(bufferStart, bufferEnd, currentZoomIndex);
-                        setFragments([...mergedData.timeline]);
-                        setFragmentsBufferRange(mergedData.bufferRange);
+                        void applyMergedData(mergedData, 'frames');
                     }, 0);
                 }
             });
@@ -1272,8 +1207,7 @@ export const useTimelineFragments = (
 
                     // Обновляем fragments с загруженными данными
                     const mergedData = mergeDaysDataForRange(bufferStart, bufferEnd, currentZoomIndex);
-                    setFragments(mergedData.timeline);
-                    setFragmentsBufferRange(mergedData.bufferRange);
+                    void applyMergedData(mergedData, 'frames');
                 }, 0);
             }
         }
@@ -1301,8 +1235,7 @@ export const useTimelineFragments = (
 
             // Обновляем fragments с загруженными данными
             const mergedData = mergeDaysDataForRange(bufferStart, bufferEnd, currentZoomIndex);
-            setFragments(mergedData.timeline);
-            setFragmentsBufferRange(mergedData.bufferRange);
+            void applyMergedData(mergedData, 'frames');
         }, 0);
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [visibleTimeRange, motionFilter]);
@@ -1372,8 +1305,7 @@ export const useTimelineFragments = (
                 const bufferStart = new Date(visibleTimeRange.start.getTime() - screenDuration * BUFFER_SCREENS);
                 const bufferEnd = new Date(visibleTimeRange.end.getTime() + screenDuration * BUFFER_SCREENS);
                 const mergedData = mergeDaysDataForRange(bufferStart, bufferEnd, zoomIndex);
-                setFragments(mergedData.timeline);
-                setFragmentsBufferRange(mergedData.bufferRange);
+                void applyMergedData(mergedData, 'frames');
             }
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -1391,7 +1323,7 @@ export const useTimelineFragments = (
             // Для motion filter используем другую логику
             if (motionFilter) {
                 // Для motion filter просто вызываем loadFragments, который сам проверит и загрузит данные
-                loadFragments(rangeStart, rangeEnd, zoomIndex, true);
+                await loadFragments(rangeStart, rangeEnd, zoomIndex, true);
                 return;
             }
 
@@ -1407,8 +1339,7 @@ export const useTimelineFragments = (
 
             // Сразу отображаем данные, которые уже есть в кэше (используем буферный диапазон для отображения)
             const mergedData = mergeDaysDataForRange(bufferStart, bufferEnd, zoomIndex);
-            setFragments(mergedData.timeline);
-            setFragmentsBufferRange(mergedData.bufferRange);
+            const applied = applyMergedData(mergedData, 'frames');
 
             // Если есть дни для загрузки, загружаем их
             if (daysToLoad.length > 0) {
@@ -1417,17 +1348,32 @@ export const useTimelineFragments = (
 
                 // После загрузки обновляем отображение
                 const updatedData = mergeDaysDataForRange(bufferStart, bufferEnd, zoomIndex);
-                setFragments(updatedData.timeline);
-                setFragmentsBufferRange(updatedData.bufferRange);
+                await applyMergedData(updatedData, 'frames');
+            } else {
+                await applied;
             }
         },
-        [motionFilter, loadFragments, getDaysToLoad, mergeDaysDataForRange, loadDayData, serverTime]
+        [motionFilter, loadFragments, getDaysToLoad, mergeDaysDataForRange, loadDayData, applyMergedData, serverTime]
     );
 
+    /**
+     * Посекундные интервалы движения из всех загруженных 30-минутных интервалов в порядке времени
+     */
+    const getMotionRanges = useCallback((): FragmentTimeRange[] => {
+        const intervalKeys = Array.from(motionDataByIntervalRef.current.keys()).sort((a, b) => a - b);
+        return intervalKeys.reduce<FragmentTimeRange[]>(
+            (ranges, key) => ranges.concat(motionDataByIntervalRef.current.get(key)!.rangesIn()),
+            []
+        );
+    }, []);
+
     return {
         fragments,
         fragmentsBufferRange,
         fragmentRanges,
+        getAppliedFragments,
+        motionDataVersion,
+        getMotionRanges,
         isLoadingFragments,
         loadFragments,
         resetFragments,
@@ -1,7 +1,7 @@
 /**
  * Хук для обработки взаимодействий пользователя с временной шкалой
  */
-import {useState, useCallback, useRef} from 'react';
+import {useState, useCallback, useEffect, useRef} from 'react';
 import {TimelineInteractionsParams} from '../types';
 import {
     INTERVALS,
@@ -9,9 +9,15 @@ import {
     UNIT_LENGTHS,
     VERTICAL_SWIPE_THRESHOLD,
     HORIZONTAL_SWIPE_THRESHOLD,
-    ZOOM_SWIPE_DISTANCE
+    ZOOM_SWIPE_DISTANCE,
+    SELECTION_HANDLE_HIT_PX,
+    SELECTION_HANDLE_TOUCH_HIT_PX,
+    SELECTION_LONG_PRESS_MS,
+    SELECTION_LONG_PRESS_MOVE_PX,
+    SELECTION_MIN_DURATION_MS
 } from '../utils/constants';
 import {findNearestAvailableFragment, findNearestVisibleFragment} from '../utils/fragment-utils';
+import {buildSelection, findSelectionHandle, getTimeAtPosition} from '../utils/selection-utils';
 
 /**
  * Хук для обработки взаимодействий пользователя с временной шкалой
@@ -33,7 +39,10 @@ export const useTimelineInteractions = ({
     onTimeClick,
     progress, // eslint-disable-line @typescript-eslint/no-unused-vars
     isVertical = false,
-    motionFilter
+    motionFilter,
+    onBookmarkCreate,
+    selection,
+    onSelectionChange
 }: TimelineInteractionsParams) => {
     // Состояние для отслеживания перетаскивания
     const [isDragging, setIsDragging] = useState(false);
@@ -51,34 +60,153 @@ export const useTimelineInteractions = ({
     // Аккумулятор для дельты колесика мыши
     const [wheelDeltaAccumulator, setWheelDeltaAccumulator] = useState(0);
 
+    // Выделение диапазона: неподвижная точка (противоположный край при перетаскивании за край), мс
+    const selectionAnchorRef = useRef<number | null>(null);
+    // Клик после выделения не должен переходить по времени
+    const suppressClickRef = useRef(false);
+    const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const touchStartPointRef = useRef<{x: number; y: number} | null>(null);
+
+    /**
+     * Координата точки вдоль шкалы и длина шкалы с учетом ориентации
+     */
+    const getPointerPosition = useCallback(
+        (clientX: number, clientY: number) => {
+            const rect = containerRef.current!.getBoundingClientRect();
+            return isVertical
+                ? {position: clientY - rect.top, size: rect.height}
+                : {position: clientX - rect.left, size: rect.width};
+        },
+        [containerRef, isVertical]
+    );
+
+    /**
+     * Начинает перетаскивание края выделения, если точка попала на него
+     */
+    const startHandleDrag = useCallback(
+        (clientX: number, clientY: number, hitArea: number): boolean => {
+            if (!selection || !onSelectionChange || !containerRef.current) return false;
+
+            const {position, size} = getPointerPosition(clientX, clientY);
+            const handle = findSelectionHandle(selection, position, size, visibleTimeRange, hitArea);
+            if (!handle) return false;
+
+            selectionAnchorRef.current = handle === 'start' ? selection.end.getTime() : selection.start.getTime();
+            suppressClickRef.current = true;
+            return true;
+        },
+        [selection, onSelectionChange, containerRef, getPointerPosition, visibleTimeRange]
+    );
+
+    /**
+     * Продлевает выделение до точки под указателем
+     */
+    const updateSelection = useCallback(
+        (clientX: number, clientY: number) => {
+            if (selectionAnchorRef.current === null || !onSelectionChange || !containerRef.current) return;
+
+            const {position, size} = getPointerPosition(clientX, clientY);
+            const time = getTimeAtPosition(position, size, visibleTimeRange).getTime();
+            onSelectionChange(buildSelection(selectionAnchorRef.current, time));
+        },
+        [onSelectionChange, containerRef, getPointerPosition, visibleTimeRange]
+    );
+
+    /**
+     * Завершает выделение; слишком короткое выделение снимается
+     */
+    const finishSelection = useCallback(() => {
+        selectionAnchorRef.current = null;
+        if (
+            selection &&
+            onSelectionChange &&
+            selection.end.getTime() - selection.start.getTime() < SELECTION_MIN_DURATION_MS
+        ) {
+            onSelectionChange(null);
+        }
+    }, [selection, onSelectionChange]);
+
+    const clearLongPressTimer = useCallback(() => {
+        if (longPressTimerRef.current) {
+            clearTimeout(longPressTimerRef.current);
+            longPressTimerRef.current = null;
+        }
+    }, []);
+
+    useEffect(() => clearLongPressTimer, [clearLongPressTimer]);
+
+    // Курсор изменения размера мог остаться от наведения на край снятого выделения
+    useEffect(() => {
+        if (!selection && containerRef.current) {
+            containerRef.current.style.cursor = '';
+        }
+    }, [selection, containerRef]);
+
     /**
      * Обработчик нажатия кнопки мыши
      */
     const handleMouseDown = useCallback(
         (e: React.MouseEvent) => {
+            suppressClickRef.current = false;
+
+            // Перетаскивание за край выделения или новое выделение с Shift вместо прокрутки шкалы
+            if (startHandleDrag(e.clientX, e.clientY, SELECTION_HANDLE_HIT_PX)) return;
+            if (e.shiftKey && onSelectionChange && containerRef.current) {
+                const {position, size} = getPointerPosition(e.clientX, e.clientY);
+                const anchor = getTimeAtPosition(position, size, visibleTimeRange).getTime();
+                selectionAnchorRef.current = anchor;
+                suppressClickRef.current = true;
+                // Новое выделение заменяет прежнее; Shift+клик без перетаскивания снимает выделение
+                onSelectionChange(buildSelection(anchor, anchor));
+                return;
+            }
+
             setIsDragging(true);
             setHasDragged(false);
             setStartX(e.pageX - containerRef.current!.offsetLeft);
         },
-        [containerRef]
+        [containerRef, startHandleDrag, onSelectionChange, getPointerPosition, visibleTimeRange]
     );
 
     /**
      * Обработчик отпускания кнопки мыши
      */
     const handleMouseUp = useCallback(() => {
+        if (selectionAnchorRef.current !== null) {
+            finishSelection();
+            return;
+        }
+
         setIsDragging(false);
         // Вызываем handleTimelineChange после окончания перетаскивания
         if (handleTimelineChange && visibleTimeRange) {
             handleTimelineChange(visibleTimeRange.start, visibleTimeRange.end, intervalIndex);
         }
-    }, [handleTimelineChange, visibleTimeRange, intervalIndex]);
+    }, [handleTimelineChange, visibleTimeRange, intervalIndex, finishSelection]);
 
     /**
      * Обработчик движения мыши
      */
     const handleMouseMove = useCallback(
         (e: React.MouseEvent) => {
+            if (selectionAnchorRef.current !== null) {
+                updateSelection(e.clientX, e.clientY);
+                return;
+            }
+
+            if (!isDragging && containerRef.current && selection && onSelectionChange) {
+                // Над краем выделения показываем курсор изменения размера
+                const {position, size} = getPointerPosition(e.clientX, e.clientY);
+                const handle = findSelectionHandle(
+                    selection,
+                    position,
+                    size,
+                    visibleTimeRange,
+                    SELECTION_HANDLE_HIT_PX
+                );
+                containerRef.current.style.cursor = handle ? (isVertical ? 'ns-resize' : 'ew-resize') : '';
+            }
+
             if (!isDragging || !containerRef.current) return;
 
             const deltaX = e.clientX - startX;
@@ -107,7 +235,18 @@ export const useTimelineInteractions = ({
             setVisibleTimeRange({start: newStart, end: newEnd});
             setHasDragged(true);
         },
-        [isDragging, startX, isVertical, containerRef, visibleTimeRange, setVisibleTimeRange]
+        [
+            isDragging,
+            startX,
+            isVertical,
+            containerRef,
+            visibleTimeRange,
+            setVisibleTimeRange,
+            updateSelection,
+            selection,
+            onSelectionChange,
+            getPointerPosition
+        ]
     );
 
     /**
@@ -213,7 +352,12 @@ export const useTimelineInteractions = ({
      */
     const handleClick = useCallback(
         (e: React.MouseEvent) => {
-            if (!hasDragged && onTimeClick && canvasRef.current) {
+            if (suppressClickRef.current) {
+                suppressClickRef.current = false;
+                return;
+            }
+
+            if (!hasDragged && (onTimeClick || onBookmarkCreate) && canvasRef.current) {
                 const rect = canvasRef.current.getBoundingClientRect();
                 let timeOffset: number;
 
@@ -230,6 +374,14 @@ export const useTimelineInteractions = ({
 
                 const clickedTime = new Date(visibleTimeRange.start.getTime() + timeOffset);
 
+                // Клик с зажатым Alt ставит закладку в точное место клика без перехода
+                if (e.altKey && onBookmarkCreate) {
+                    onBookmarkCreate(clickedTime);
+                    return;
+                }
+
+                if (!onTimeClick) return;
+
                 // При включенном фильтре проверяем, кликнул ли пользователь на отображаемом фрагменте
                 // Если нет, ищем ближайший будущий отображаемый фрагмент
                 let finalTime: Date;
@@ -260,6 +412,7 @@ export const useTimelineInteractions = ({
         [
             hasDragged,
             onTimeClick,
+            onBookmarkCreate,
             visibleTimeRange,
             canvasRef,
             fragments,
@@ -276,8 +429,28 @@ export const useTimelineInteractions = ({
     const handleTouchStart = useCallback(
         (e: React.TouchEvent) => {
             // e.preventDefault();
+            clearLongPressTimer();
             if (e.touches.length === 1) {
                 const touch = e.touches[0];
+                suppressClickRef.current = false;
+
+                // Край выделения перетаскивается сразу, без долгого нажатия
+                if (startHandleDrag(touch.clientX, touch.clientY, SELECTION_HANDLE_TOUCH_HIT_PX)) return;
+
+                // Долгое нажатие без смещения начинает новое выделение от точки касания
+                if (onSelectionChange) {
+                    const {position, size} = getPointerPosition(touch.clientX, touch.clientY);
+                    const anchor = getTimeAtPosition(position, size, visibleTimeRange).getTime();
+                    touchStartPointRef.current = {x: touch.clientX, y: touch.clientY};
+                    longPressTimerRef.current = setTimeout(() => {
+                        longPressTimerRef.current = null;
+                        selectionAnchorRef.current = anchor;
+                        suppressClickRef.current = true;
+                        setIsDragging(false);
+                        onSelectionChange(buildSelection(anchor, anchor));
+                    }, SELECTION_LONG_PRESS_MS);
+                }
+
                 setIsDragging(true);
                 setHasDragged(false);
                 setStartX(touch.clientX - containerRef.current!.getBoundingClientRect().left);
@@ -287,7 +460,7 @@ export const useTimelineInteractions = ({
                 lastSwipeDirectionRef.current = null;
             }
         },
-        [containerRef]
+        [containerRef, clearLongPressTimer, startHandleDrag, onSelectionChange, getPointerPosition, visibleTimeRange]
     );
 
     /**
@@ -295,9 +468,25 @@ export const useTimelineInteractions = ({
      */
     const handleTouchMove = useCallback(
         (e: React.TouchEvent) => {
+            if (selectionAnchorRef.current !== null && e.touches.length === 1) {
+                updateSelection(e.touches[0].clientX, e.touches[0].clientY);
+                return;
+            }
+
             if (!isDragging || !containerRef.current || e.touches.length !== 1) return;
 
             const touch = e.touches[0];
+
+            const touchStartPoint = touchStartPointRef.current;
+            if (
+                longPressTimerRef.current &&
+                touchStartPoint &&
+                Math.hypot(touch.clientX - touchStartPoint.x, touch.clientY - touchStartPoint.y) >
+                    SELECTION_LONG_PRESS_MOVE_PX
+            ) {
+                clearLongPressTimer();
+            }
+
             const currentX = touch.clientX - containerRef.current!.getBoundingClientRect().left;
             const currentY = touch.clientY - containerRef.current!.getBoundingClientRect().top;
             const deltaX = currentX - startX;
@@ -476,12 +665,22 @@ export const useTimelineInteractions = ({
             setVisibleTimeRange,
             intervalIndex,
             setIntervalIndex,
-            handleTimelineChange
+            handleTimelineChange,
+            updateSelection,
+            clearLongPressTimer
         ]
     );
 
     const handleTouchEnd = useCallback(
         (e: React.TouchEvent) => {
+            clearLongPressTimer();
+            if (selectionAnchorRef.current !== null) {
+                finishSelection();
+                setIsDragging(false);
+                swipeTypeRef.current = null;
+                return;
+            }
+
             setIsDragging(false);
             // Вызываем handleTimelineChange после окончания перетаскивания
             if (handleTimelineChange && visibleTimeRange && hasDragged) {
@@ -554,7 +753,9 @@ export const useTimelineInteractions = ({
             intervalIndex,
             isVertical,
             handleTimelineChange,
-            motionFilter
+            motionFilter,
+            clearLongPressTimer,
+            finishSelection
         ]
     );
 
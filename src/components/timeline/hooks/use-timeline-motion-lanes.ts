@@ -0,0 +1,186 @@
+/**
+ * Хук для загрузки дорожек движения и объектов по типам
+ */
+import {useEffect, useRef, useState} from 'react';
+import {MotionLane, TimeRange} from '../types';
+import {BUFFER_SCREENS, UNIT_LENGTHS} from '../utils/constants';
+import {buildFragmentRanges} from '../utils/fragment-utils';
+import {useTimelineAuth} from '../../../context/timeline-auth-context';
+import {useTransport} from '../../../context/transport-context';
+import {Protocol} from '../../../utils/types';
+import {MotionFilterOption, TimelineMotionFilter} from '../../../types/motion-filter';
+import {DevlineRpcClient} from '../../../utils/rpc-client';
+import {isRpcAbortError, isRpcAuthError} from '../../../utils/rpc-errors';
+
+interface UseTimelineMotionLanesParams {
+    enabled: boolean;
+    url: string;
+    port: number;
+    credentials: string;
+    camera: number;
+    protocol?: Protocol;
+    proxy?: string;
+    motionFilter: TimelineMotionFilter | null;
+    motionFilterSignature: string;
+    visibleTimeRange: TimeRange | null;
+    zoomIndex: number;
+}
+
+interface LoadedLanesRange {
+    start: number;
+    end: number;
+    unitLength: number;
+    signature: string;
+}
+
+const DEBOUNCE_MS = 400;
+
+/**
+ * Дорожки, которые нужны для фильтра: общее движение и отдельная дорожка на каждый выбранный тип объектов
+ */
+const getLaneTypes = (filter: TimelineMotionFilter | null): MotionFilterOption[] => [
+    'motion',
+    ...(filter?.types ?? [])
+];
+
+/**
+ * Загружает интервалы для видимой области с буфером в экран с каждой стороны.
+ * Дорожка motion строится по get_motions_timeline с маской фильтра, дорожки типов -
+ * по get_objects_timeline с одним типом и той же маской
+ */
+export const useTimelineMotionLanes = ({
+    enabled,
+    url,
+    port,
+    credentials,
+    camera,
+    protocol,
+    proxy,
+    motionFilter,
+    motionFilterSignature,
+    visibleTimeRange,
+    zoomIndex
+}: UseTimelineMotionLanesParams): MotionLane[] => {
+    const {setTimelineAccess} = useTimelineAuth();
+    const transport = useTransport();
+    const [lanes, setLanes] = useState<MotionLane[]>([]);
+    const loadedRangeRef = useRef<LoadedLanesRange | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const isActive = enabled && motionFilter !== null;
+
+    // Сбрасываем дорожки при выключении или смене фильтра
+    useEffect(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        loadedRangeRef.current = null;
+        setLanes([]);
+    }, [isActive, motionFilterSignature, url, port, camera]);
+
+    useEffect(() => {
+        if (!isActive || !visibleTimeRange) return;
+
+        const unitLength = UNIT_LENGTHS[zoomIndex];
+        const visibleStart = visibleTimeRange.start.getTime();
+        const visibleEnd = Math.min(visibleTimeRange.end.getTime(), Date.now());
+        const loaded = loadedRangeRef.current;
+
+        // Видимая область уже покрыта данными с тем же шагом
+        if (
+            loaded &&
+            loaded.signature === motionFilterSignature &&
+            loaded.unitLength === unitLength &&
+            loaded.start <= visibleStart &&
+            loaded.end >= visibleEnd
+        ) {
+            return;
+        }
+
+        const timer = setTimeout(async () => {
+            const screenDuration = visibleTimeRange.end.getTime() - visibleStart;
+            const unitMs = unitLength * 1000;
+            // Выравниваем начало по шагу, чтобы ячейки сервера совпадали с ячейками полосы записей
+            const start = Math.floor((visibleStart - screenDuration * BUFFER_SCREENS) / unitMs) * unitMs;
+            const end = Math.min(visibleTimeRange.end.getTime() + screenDuration * BUFFER_SCREENS, Date.now());
+            if (end <= start) return;
+
+            abortControllerRef.current?.abort();
+            const abortController = new AbortController();
+            abortControllerRef.current = abortController;
+
+            const client = new DevlineRpcClient({
+                host: url,
+                port,
+                credentials,
+                protocol: protocol ?? Protocol.Http,
+                proxy,
+                transport
+            });
+            const timelineParams = {
+                startTime: new Date(start),
+                endTime: new Date(end),
+                unitLength,
+                channel: camera,
+                stream: 'video'
+            };
+            const mask = motionFilter?.mask;
+
+            try {
+                const results = await Promise.all(
+                    getLaneTypes(motionFilter).map(type =>
+                        type === 'motion'
+                            ? client.getMotionsTimeline(
+                                  {...timelineParams, filter: mask ? {mask} : undefined},
+                                  abortController.signal
+                              )
+                            : client.getObjectsTimeline(
+                                  {...timelineParams, filter: {types: [type], ...(mask && {mask})}},
+                                  abortController.signal
+                              )
+                    )
+                );
+
+                if (abortControllerRef.current !== abortController) return;
+
+                loadedRangeRef.current = {start, end, unitLength, signature: motionFilterSignature};
+                setLanes(
+                    getLaneTypes(motionFilter).map((type, index) => ({
+                        type,
+                        ranges: buildFragmentRanges(results[index].timeline, new Date(start), unitLength)
+                    }))
+                );
+            } catch (error) {
+                if (isRpcAbortError(error)) return;
+                console.error('useTimelineMotionLanes: ошибка загрузки дорожек', error);
+                if (isRpcAuthError(error)) {
+                    setTimelineAccess(false);
+                }
+            } finally {
+                if (abortControllerRef.current === abortController) {
+                    abortControllerRef.current = null;
+                }
+            }
+        }, DEBOUNCE_MS);
+
+        return () => clearTimeout(timer);
+    }, [
+        isActive,
+        visibleTimeRange,
+        zoomIndex,
+        motionFilter,
+        motionFilterSignature,
+        url,
+        port,
+        credentials,
+        camera,
+        protocol,
+        proxy,
+        transport,
+        setTimelineAccess
+    ]);
+
+    // Отменяем загрузку при размонтировании
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    return lanes;
+};
@@ -4,6 +4,7 @@ import {Protocol} from '../../../utils/types';
 import {buildRequestUrl} from '../../../utils/url-builder';
 import {getAuthToken} from '../../../utils/getAuthToken';
 import {getProtocol} from '../../../utils/url-params';
+import {useTransport} from '../../../context/transport-context';
 import {format} from 'date-fns';
 
 interface UseTimelinePreviewParams {
@@ -40,6 +41,7 @@ export const useTimelinePreview = ({
     isDragging = false,
     containerWidth
 }: UseTimelinePreviewParams): UseTimelinePreviewResult => {
+    const transport = useTransport();
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
     const [previewTime, setPreviewTime] = useState<string | null>(null);
     const [previewX, setPreviewX] = useState<number>(0);
@@ -56,15 +58,17 @@ export const useTimelinePreview = ({
             const authToken = getAuthToken(credentials);
             const path = `/cameras/${camera}/image?stream=main&time=${timeStr}&resolution=320x240&authorization=Basic%20${authToken}`;
 
-            return buildRequestUrl({
-                host: url,
-                port,
-                protocol: preferredProtocol,
-                proxy,
-                path
-            });
+            return transport.resolveMediaUrl(
+                buildRequestUrl({
+                    host: url,
+                    port,
+                    protocol: preferredProtocol,
+                    proxy,
+                    path
+                })
+            );
         },
-        [url, port, credentials, camera, protocol, proxy]
+        [url, port, credentials, camera, protocol, proxy, transport]
     );
 
     const clampX = useCallback(
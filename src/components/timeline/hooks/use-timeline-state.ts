@@ -3,6 +3,7 @@
  */
 import {useState, useCallback, useEffect, useRef} from 'react';
 import {useTime} from '../../../context/time-context';
+import {useTransport} from '../../../context/transport-context';
 import {TimeRange, CursorPosition} from '../types';
 import {INTERVALS} from '../utils/constants';
 import {getServerTime} from '../../../utils/api';
@@ -35,6 +36,7 @@ export const useTimelineState = (
 ) => {
     // Получаем время из глобального контекста
     const {serverTime, setServerTime, progress: ctxProgress, skipCenterTimeline} = useTime();
+    const transport = useTransport();
     const [isLoading, setIsLoading] = useState<boolean>(true);
 
     const [serverTimeError, setServerTimeError] = useState<boolean>(false);
@@ -77,7 +79,7 @@ export const useTimelineState = (
 
         const fetchServerTime = () => {
             setIsLoading(true);
-            getServerTime(url, port, credentials, protocol, proxy)
+            getServerTime(url, port, credentials, protocol, proxy, undefined, transport)
                 .then(time => {
                     setServerTime(time);
 
@@ -101,11 +103,11 @@ export const useTimelineState = (
         };
 
         fetchServerTime();
-    }, [url, port, credentials, intervalIndex, protocol, proxy]);
+    }, [url, port, credentials, intervalIndex, protocol, proxy, transport]);
 
     const updateServerTime = async () => {
         if (!url || !port || !credentials) return;
-        const time = await getServerTime(url, port, credentials, protocol, proxy);
+        const time = await getServerTime(url, port, credentials, protocol, proxy, undefined, transport);
         setServerTime(time);
         return time;
     };
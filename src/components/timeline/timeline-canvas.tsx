@@ -44,7 +44,12 @@ export const TimelineCanvas = ({
     credentials,
     camera,
     protocol,
-    proxy
+    proxy,
+    bookmarks,
+    motionLanes,
+    selection,
+    loopMarkers,
+    filmstrip
 }: TimelineCanvasProps) => {
     const [containerWidth, setContainerWidth] = useState(0);
 
@@ -78,7 +83,12 @@ export const TimelineCanvas = ({
         isVertical,
         isMobile,
         isDragging,
-        mode
+        mode,
+        bookmarks,
+        motionLanes,
+        selection,
+        loopMarkers,
+        filmstrip
     });
 
     const {previewUrl, previewX, previewTime} = useTimelinePreview({
@@ -97,7 +107,9 @@ export const TimelineCanvas = ({
     return (
         <div
             ref={containerRef}
-            className={`${styles.timeline} ${isMobile ? styles.mobile : ''} ${isVertical ? styles.vertical : ''}`}
+            className={`${styles.timeline} ${isMobile ? styles.mobile : ''} ${isVertical ? styles.vertical : ''} ${
+                filmstrip && !isVertical ? styles.withFilmstrip : ''
+            }`}
             onMouseDown={onMouseDown}
             onMouseUp={onMouseUp}
             onMouseMove={onMouseMove}
@@ -7,16 +7,39 @@ import {TimelineProps, TimelineRef} from './types';
 import {useTimelineState} from './hooks/use-timeline-state';
 import {useTimelineFragments} from './hooks/use-timeline-fragments';
 import {useTimelineInteractions} from './hooks/use-timeline-interactions';
+import {useTimelineMotionLanes} from './hooks/use-timeline-motion-lanes';
+import {useTimelineFilmstrip} from './hooks/use-timeline-filmstrip';
 import {useOrientation} from './hooks/use-orientation';
 import {Mode} from '../../utils/types';
 import {createMotionFilterSignature} from '../../types/motion-filter';
+import {buildMotionEvents} from '../../utils/motion-events';
 
 /**
  * Компонент временной шкалы
  */
 export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
     (
-        {url, port, credentials, onTimeClick, progress = 0, camera, mode, protocol, proxy, motionFilter, serverVersion},
+        {
+            url,
+            port,
+            credentials,
+            onTimeClick,
+            progress = 0,
+            camera,
+            mode,
+            protocol,
+            proxy,
+            motionFilter,
+            serverVersion,
+            bookmarks,
+            onBookmarkCreate,
+            showMotionLanes = false,
+            onMotionEventsChange,
+            selection,
+            onSelectionChange,
+            loopMarkers,
+            showFilmstrip = false
+        },
         ref
     ) => {
         // Создаем ссылки на DOM-элементы
@@ -65,7 +88,9 @@ export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
         const {
             fragments,
             fragmentsBufferRange,
-            fragmentRanges,
+            getAppliedFragments,
+            motionDataVersion,
+            getMotionRanges,
             loadFragments,
             resetFragments,
             clearFramesCache,
@@ -85,6 +110,41 @@ export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
             zoomIndex: intervalIndex
         });
 
+        // Пересобираем события при каждом изменении загруженных данных фильтра
+        useEffect(() => {
+            onMotionEventsChange?.(motionFilter ? buildMotionEvents(getMotionRanges()) : []);
+            // eslint-disable-next-line react-hooks/exhaustive-deps
+        }, [motionDataVersion, motionFilterSignature]);
+
+        // Дорожки движения и объектов по типам загружаются отдельно от полосы записей
+        const motionLanes = useTimelineMotionLanes({
+            enabled: showMotionLanes,
+            url,
+            port,
+            credentials,
+            camera,
+            protocol,
+            proxy,
+            motionFilter: motionFilter ?? null,
+            motionFilterSignature,
+            visibleTimeRange,
+            zoomIndex: intervalIndex
+        });
+
+        // Лента кадров только для горизонтальной шкалы: в вертикальной нет места под кадры
+        const filmstrip = useTimelineFilmstrip({
+            enabled: showFilmstrip && !isVerticalTimeline,
+            serverVersion,
+            url,
+            port,
+            credentials,
+            camera,
+            protocol,
+            proxy,
+            visibleTimeRange,
+            intervalIndex
+        });
+
         // Используем хук для обработки взаимодействий пользователя
         const {
             handleMouseDown,
@@ -111,7 +171,10 @@ export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
             onTimeClick,
             progress,
             isVertical: isVerticalTimeline,
-            motionFilter: motionFilter ?? null
+            motionFilter: motionFilter ?? null,
+            onBookmarkCreate,
+            selection,
+            onSelectionChange
         });
 
         // Обработчик движения мыши для отслеживания позиции курсора
@@ -147,11 +210,11 @@ export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
             resetFragmentsRef.current = resetFragments;
         }, [loadFragments, resetFragments]);
 
-        // Функция для перезагрузки фрагментов для текущего видимого диапазона
-        const reloadFragments = useCallback(() => {
+        // Функция для перезагрузки фрагментов для текущего видимого диапазона; завершается после применения данных
+        const reloadFragments = useCallback(async () => {
             if (!visibleTimeRange) return;
             resetFragmentsRef.current();
-            loadFragmentsRef.current(visibleTimeRange.start, visibleTimeRange.end, intervalIndex);
+            await loadFragmentsRef.current(visibleTimeRange.start, visibleTimeRange.end, intervalIndex, true);
         }, [visibleTimeRange, intervalIndex]);
 
         // Экспортируем методы через ref
@@ -163,16 +226,11 @@ export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
                     centerOnTime,
                     getCurrentTime: () => serverTime,
                     getVisibleTimeRange: () => visibleTimeRange,
+                    // Данные берутся из последней примененной агрегации, а не из состояния рендера,
+                    // чтобы код, дождавшийся checkAndLoadDaysForRange или reloadFragments, видел новые данные
                     getFragmentsData: () => {
-                        if (!fragments || fragments.length === 0) {
-                            return null;
-                        }
-                        return {
-                            fragments,
-                            fragmentsBufferRange,
-                            intervalIndex,
-                            fragmentRanges
-                        };
+                        const applied = getAppliedFragments();
+                        return applied.fragments.length > 0 ? applied : null;
                     },
                     updateCursorPositionByTime: (time: Date) => {
                         if (containerRef.current) {
@@ -193,10 +251,8 @@ export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
             centerOnTime,
             serverTime,
             visibleTimeRange,
-            fragments,
-            fragmentsBufferRange,
+            getAppliedFragments,
             intervalIndex,
-            fragmentRanges,
             updateCursorPositionByTime,
             clearFramesCache,
             reloadFragments,
@@ -325,6 +381,11 @@ export const Timeline = React.forwardRef<TimelineRef, TimelineProps>(
                     camera={camera}
                     protocol={protocol}
                     proxy={proxy}
+                    bookmarks={bookmarks}
+                    motionLanes={motionLanes}
+                    selection={selection}
+                    loopMarkers={loopMarkers}
+                    filmstrip={filmstrip}
                 />
             </>
         );
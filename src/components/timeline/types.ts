@@ -6,7 +6,8 @@
  * Свойства компонента Timeline
  */
 import {Mode, Protocol} from '../../utils/types';
-import {TimelineMotionFilter} from '../../types/motion-filter';
+import {MotionEvent, MotionFilterOption, TimelineMotionFilter} from '../../types/motion-filter';
+import {Bookmark} from '../../types/bookmark';
 
 export interface TimelineProps {
     /** URL сервера */
@@ -33,6 +34,22 @@ export interface TimelineProps {
     motionFilter?: TimelineMotionFilter | null;
     /** Версия API сервера */
     serverVersion?: number | null;
+    /** Закладки камеры для отображения на шкале */
+    bookmarks?: Bookmark[];
+    /** Создание закладки кликом по шкале с зажатым Alt */
+    onBookmarkCreate?: (time: Date) => void;
+    /** Показывать под полосой записей отдельные дорожки движения и каждого типа объектов фильтра */
+    showMotionLanes?: boolean;
+    /** Вызывается при изменении событий движения, собранных из загруженных данных фильтра */
+    onMotionEventsChange?: (events: MotionEvent[]) => void;
+    /** Выделенный на шкале диапазон */
+    selection?: TimeRange | null;
+    /** Изменение выделения перетаскиванием с Shift, долгим нажатием или за края; null - выделение снято */
+    onSelectionChange?: (selection: TimeRange | null) => void;
+    /** Точки повтора A-B */
+    loopMarkers?: LoopMarkers;
+    /** Показывать под полосой записей ленту кадров видимого периода (только горизонтальная шкала) */
+    showFilmstrip?: boolean;
 }
 
 /**
@@ -60,8 +77,8 @@ export interface TimelineRef {
     updateCursorPositionByTime: (time: Date) => void;
     /** Очистить кэш скачанных фреймов */
     clearFramesCache: () => void;
-    /** Перезагрузить фрагменты для текущего видимого диапазона */
-    reloadFragments: () => void;
+    /** Перезагрузить фрагменты для текущего видимого диапазона; завершается после применения данных */
+    reloadFragments: () => Promise<void>;
     /** Проверить наличие данных для дней в диапазоне и загрузить недостающие */
     checkAndLoadDaysForRange: (rangeStart: Date, rangeEnd: Date, zoomIndex?: number) => Promise<void>;
 }
@@ -116,6 +133,31 @@ export interface FragmentTimeRange {
     end: Date;
 }
 
+/**
+ * Дорожка таймлайна с интервалами движения (motion) или объектов одного типа
+ */
+export interface MotionLane {
+    type: MotionFilterOption;
+    ranges: FragmentTimeRange[];
+}
+
+/**
+ * Кадр ленты: изображение на начало периода; null, если кадр получить не удалось
+ */
+export interface FilmstripFrame {
+    start: Date;
+    end: Date;
+    image: HTMLImageElement | null;
+}
+
+/**
+ * Точки повтора A-B; пока точка не поставлена, она равна null
+ */
+export interface LoopMarkers {
+    a: Date | null;
+    b: Date | null;
+}
+
 /**
  * Информация о позиции курсора
  */
@@ -194,6 +236,16 @@ export interface TimelineCanvasProps {
     protocol?: Protocol;
     /** Прокси-сервер */
     proxy?: string;
+    /** Закладки камеры */
+    bookmarks?: Bookmark[];
+    /** Дорожки движения и объектов по типам */
+    motionLanes?: MotionLane[];
+    /** Выделенный диапазон */
+    selection?: TimeRange | null;
+    /** Точки повтора A-B */
+    loopMarkers?: LoopMarkers;
+    /** Загруженные кадры ленты; null - лента не показывается */
+    filmstrip?: FilmstripFrame[] | null;
 }
 
 /**
@@ -240,6 +292,12 @@ export interface TimelineInteractionsParams {
     isVertical?: boolean;
     /** Фильтр движения (если включен, используется логика отображаемых фрагментов) */
     motionFilter?: TimelineMotionFilter | null;
+    /** Создание закладки кликом с зажатым Alt */
+    onBookmarkCreate?: (time: Date) => void;
+    /** Выделенный диапазон */
+    selection?: TimeRange | null;
+    /** Изменение выделенного диапазона */
+    onSelectionChange?: (selection: TimeRange | null) => void;
 }
 
 /**
@@ -280,6 +338,16 @@ export interface TimelineDrawingParams {
     isDragging?: boolean;
     /** Режим воспроизведения (live/record) */
     mode?: Mode;
+    /** Закладки камеры */
+    bookmarks?: Bookmark[];
+    /** Дорожки движения и объектов по типам */
+    motionLanes?: MotionLane[];
+    /** Выделенный диапазон */
+    selection?: TimeRange | null;
+    /** Точки повтора A-B */
+    loopMarkers?: LoopMarkers;
+    /** Загруженные кадры ленты; null - лента не показывается */
+    filmstrip?: FilmstripFrame[] | null;
 }
 
 /**
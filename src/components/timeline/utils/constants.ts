@@ -1,6 +1,7 @@
 /**
  * Константы для компонента Timeline
  */
+import {MotionFilterOption} from '../../../types/motion-filter';
 
 /**
  * Интервалы масштабирования в миллисекундах
@@ -89,3 +90,68 @@ export const TIMELINE_POSITIONS = {
     FIVE_MIN_MARKER_HEIGHT: 20, // Высота маркера 5 минут
     MINUTE_MARKER_HEIGHT: 15 // Высота маркера минуты (самые короткие)
 };
+
+/**
+ * Цвета дорожек движения и объектов по типам
+ */
+export const MOTION_LANE_COLORS: Record<MotionFilterOption, string> = {
+    motion: '#29B6F6', // Любое движение
+    human: '#FFA726', // Люди
+    transport: '#EC407A' // Транспорт
+};
+
+/**
+ * Толщина дорожки и отступ первой дорожки от края шкалы (под полосой записей)
+ */
+export const MOTION_LANE_SIZE = 2;
+export const MOTION_LANE_OFFSET = 10;
+
+/**
+ * Выделение диапазона: цвет, зона захвата края (мышь / касание), задержка долгого нажатия
+ * и минимальная длительность выделения
+ */
+export const SELECTION_COLOR = '#42A5F5';
+export const SELECTION_HANDLE_HIT_PX = 6;
+export const SELECTION_HANDLE_TOUCH_HIT_PX = 16;
+export const SELECTION_LONG_PRESS_MS = 500;
+export const SELECTION_MIN_DURATION_MS = 1000;
+/** Смещение пальца, после которого долгое нажатие считается свайпом */
+export const SELECTION_LONG_PRESS_MOVE_PX = 10;
+
+/**
+ * Цвет маркеров повтора A-B
+ */
+export const LOOP_MARKER_COLOR = '#66BB6A';
+
+/**
+ * Шаг кадров ленты для каждого интервала масштабирования (в секундах): на экран приходится 24-30 кадров
+ */
+export const FILMSTRIP_STEPS = [
+    10, // 5 минут
+    20, // 10 минут
+    30, // 15 минут
+    60, // 30 минут
+    120, // 1 час
+    600, // 4 часа
+    900, // 6 часов
+    1800, // 12 часов
+    3600 // 1 день
+];
+
+/**
+ * Лента кадров: отступ от верхнего края (под полосой записей), высота кадра и сдвиг меток шкалы вниз.
+ * Высота шкалы с лентой задана в timeline.module.scss (.withFilmstrip)
+ */
+export const FILMSTRIP_LANE_OFFSET = 10;
+export const FILMSTRIP_LANE_HEIGHT = 27;
+export const FILMSTRIP_LANE_SHIFT = FILMSTRIP_LANE_HEIGHT + 4;
+/** Размер запрашиваемого кадра */
+export const FILMSTRIP_IMAGE_RESOLUTION = '160x120';
+/** Одновременно загружаемых кадров ленты */
+export const FILMSTRIP_MAX_CONCURRENT_LOADS = 4;
+/** Количество кадров в кэше ленты */
+export const FILMSTRIP_CACHE_LIMIT = 600;
+/** Поток камеры, из которого берутся кадры ленты */
+export const FILMSTRIP_STREAM = 'main';
+/** Через сколько мс повторяется загрузка кадра, который не удалось получить */
+export const FILMSTRIP_FAILED_RETRY_MS = 60000;
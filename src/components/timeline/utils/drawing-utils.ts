@@ -1,12 +1,22 @@
 /**
  * Утилиты для отрисовки временной шкалы
  */
-import {TimeRange} from '../types';
+import {FilmstripFrame, LoopMarkers, MotionLane, TimeRange} from '../types';
 import {Mode} from '../../../utils/types';
+import {Bookmark} from '../../../types/bookmark';
 
 // Импортируем функции из новых файлов
 import {drawDayAndHourMarkers} from './day-hour-markers';
 import {drawIntervalMarkers, drawSubMarkers} from './interval-markers';
+import {
+    FILMSTRIP_LANE_HEIGHT,
+    FILMSTRIP_LANE_OFFSET,
+    LOOP_MARKER_COLOR,
+    MOTION_LANE_COLORS,
+    MOTION_LANE_OFFSET,
+    MOTION_LANE_SIZE,
+    SELECTION_COLOR
+} from './constants';
 
 // Экспортируем функции для обратной совместимости
 export {drawDayAndHourMarkers, drawIntervalMarkers, drawSubMarkers};
@@ -196,6 +206,219 @@ export const drawCurrentTimeIndicator = (
     }
 };
 
+/**
+ * Отрисовывает дорожки движения и объектов: по тонкой цветной полосе на каждый тип под полосой записей
+ * @param ctx Контекст canvas
+ * @param lanes Дорожки с интервалами
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawMotionLanes = (
+    ctx: CanvasRenderingContext2D,
+    lanes: MotionLane[],
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number // eslint-disable-line @typescript-eslint/no-unused-vars
+): void => {
+    const visibleStart = visibleTimeRange.start.getTime();
+    const screenDuration = visibleTimeRange.end.getTime() - visibleStart;
+
+    lanes.forEach((lane, laneIndex) => {
+        const laneY = MOTION_LANE_OFFSET + laneIndex * (MOTION_LANE_SIZE + 1);
+        ctx.fillStyle = MOTION_LANE_COLORS[lane.type];
+
+        lane.ranges.forEach(range => {
+            const xStart = Math.max(0, ((range.start.getTime() - visibleStart) / screenDuration) * width);
+            const xEnd = Math.min(width, ((range.end.getTime() - visibleStart) / screenDuration) * width);
+            // Короткие интервалы на крупном масштабе рисуем хотя бы в один пиксель
+            if (xEnd > 0 && xStart < width) {
+                ctx.fillRect(xStart, laneY, Math.max(1, xEnd - xStart), MOTION_LANE_SIZE);
+            }
+        });
+    });
+};
+
+/**
+ * Отрисовывает ленту кадров под полосой записей. Кадр вписывается по высоте ленты и выравнивается
+ * по началу своего периода; если период на экране уже кадра, кадр обрезается по границе периода
+ * @param ctx Контекст canvas
+ * @param frames Загруженные кадры
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawFilmstrip = (
+    ctx: CanvasRenderingContext2D,
+    frames: FilmstripFrame[],
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number // eslint-disable-line @typescript-eslint/no-unused-vars
+): void => {
+    const visibleStart = visibleTimeRange.start.getTime();
+    const screenDuration = visibleTimeRange.end.getTime() - visibleStart;
+
+    ctx.fillStyle = 'rgba(128, 128, 128, 0.15)';
+    ctx.fillRect(0, FILMSTRIP_LANE_OFFSET, width, FILMSTRIP_LANE_HEIGHT);
+
+    frames.forEach(frame => {
+        if (!frame.image) return;
+
+        const xStart = ((frame.start.getTime() - visibleStart) / screenDuration) * width;
+        const xEnd = ((frame.end.getTime() - visibleStart) / screenDuration) * width;
+        if (xEnd <= 0 || xStart >= width) return;
+
+        const imageWidth = (frame.image.naturalWidth / frame.image.naturalHeight) * FILMSTRIP_LANE_HEIGHT;
+        // Между соседними кадрами оставляем зазор в пиксель
+        const cellWidth = Math.min(imageWidth, xEnd - xStart - 1);
+        if (cellWidth <= 0) return;
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(xStart, FILMSTRIP_LANE_OFFSET, cellWidth, FILMSTRIP_LANE_HEIGHT);
+        ctx.clip();
+        ctx.drawImage(frame.image, xStart, FILMSTRIP_LANE_OFFSET, imageWidth, FILMSTRIP_LANE_HEIGHT);
+        ctx.restore();
+    });
+};
+
+/**
+ * Отрисовывает маркеры закладок: вертикальную линию с флажком у верхнего края
+ * @param ctx Контекст canvas
+ * @param bookmarks Закладки камеры
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawBookmarks = (
+    ctx: CanvasRenderingContext2D,
+    bookmarks: Bookmark[],
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number
+): void => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+
+    ctx.strokeStyle = '#FFC107';
+    ctx.fillStyle = '#FFC107';
+    ctx.lineWidth = 1;
+
+    bookmarks.forEach(bookmark => {
+        const x = ((bookmark.time.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * width;
+        if (x < 0 || x > width) return;
+
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+
+        // Флажок у верхнего края
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x + 7, 3.5);
+        ctx.lineTo(x, 7);
+        ctx.closePath();
+        ctx.fill();
+    });
+};
+
+/**
+ * Отрисовывает выделенный диапазон: полупрозрачную заливку и края с ручками для перетаскивания
+ * @param ctx Контекст canvas
+ * @param selection Выделенный диапазон
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawSelection = (
+    ctx: CanvasRenderingContext2D,
+    selection: TimeRange,
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number
+): void => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+    const xStart = ((selection.start.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * width;
+    const xEnd = ((selection.end.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * width;
+    if (xEnd < 0 || xStart > width) return;
+
+    ctx.save();
+    ctx.globalAlpha = 0.25;
+    ctx.fillStyle = SELECTION_COLOR;
+    ctx.fillRect(Math.max(0, xStart), 0, Math.min(width, xEnd) - Math.max(0, xStart), height);
+    ctx.restore();
+
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.fillStyle = SELECTION_COLOR;
+    ctx.lineWidth = 1;
+
+    [xStart, xEnd].forEach(x => {
+        if (x < 0 || x > width) return;
+
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+
+        // Ручка по центру края
+        ctx.fillRect(x - 2, height / 2 - 6, 4, 12);
+    });
+};
+
+/**
+ * Отрисовывает маркеры повтора A-B: линии с подписями точек и заливку интервала, когда поставлены обе точки
+ * @param ctx Контекст canvas
+ * @param markers Точки повтора
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawLoopMarkers = (
+    ctx: CanvasRenderingContext2D,
+    markers: LoopMarkers,
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number
+): void => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+    const toX = (time: Date) => ((time.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * width;
+
+    if (markers.a && markers.b) {
+        const xStart = Math.max(0, toX(markers.a));
+        const xEnd = Math.min(width, toX(markers.b));
+        if (xEnd > xStart) {
+            ctx.save();
+            ctx.globalAlpha = 0.15;
+            ctx.fillStyle = LOOP_MARKER_COLOR;
+            ctx.fillRect(xStart, 0, xEnd - xStart, height);
+            ctx.restore();
+        }
+    }
+
+    ctx.strokeStyle = LOOP_MARKER_COLOR;
+    ctx.fillStyle = LOOP_MARKER_COLOR;
+    ctx.lineWidth = 2;
+    ctx.font = 'bold 10px Arial';
+    ctx.textBaseline = 'top';
+
+    (['a', 'b'] as const).forEach(point => {
+        const time = markers[point];
+        if (!time) return;
+
+        const x = toX(time);
+        if (x < 0 || x > width) return;
+
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+
+        // Подпись внутри интервала: справа от A, слева от B
+        ctx.textAlign = point === 'a' ? 'left' : 'right';
+        ctx.fillText(point.toUpperCase(), point === 'a' ? x + 3 : x - 3, 1);
+    });
+};
+
 /**
  * Отрисовывает индикатор позиции курсора
  * @param ctx Контекст canvas
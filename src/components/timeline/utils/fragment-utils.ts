@@ -1,7 +1,8 @@
 /**
  * Утилиты для работы с фрагментами временной шкалы
  */
-import {TimeRange} from '../types';
+import {FragmentTimeRange, TimeRange} from '../types';
+import {RunLengthTimeline} from './run-length-timeline';
 
 /**
  * Находит ближайший доступный фрагмент для указанного времени
@@ -286,3 +287,16 @@ export const findNextVisibleFrame = (
 
     return null;
 };
+
+/**
+ * Собирает непрерывные диапазоны записи из массива наличия фрагментов
+ * @param fragments Массив с наличием фрагментов
+ * @param bufferStart Время начала массива
+ * @param unitLengthSeconds Длина единицы времени в секундах
+ * @returns Диапазоны времени, в которых есть запись
+ */
+export const buildFragmentRanges = (
+    fragments: number[],
+    bufferStart: Date,
+    unitLengthSeconds: number
+): FragmentTimeRange[] => RunLengthTimeline.fromArray(fragments, bufferStart, unitLengthSeconds).rangesIn();
@@ -0,0 +1,62 @@
+/**
+ * Очередь загрузки изображений с ограничением числа одновременных запросов.
+ * Задания различаются по ключу: повторная постановка того же ключа игнорируется,
+ * а при смене видимой области ненужные задания убираются из очереди до начала загрузки
+ */
+
+interface ImageLoadTask {
+    key: string;
+    url: string;
+    /** Вызывается с загруженным изображением или null при ошибке */
+    onDone: (image: HTMLImageElement | null) => void;
+}
+
+export class ImageLoadQueue {
+    private readonly maxConcurrent: number;
+    private pending: ImageLoadTask[] = [];
+    /** Ключи заданий, которые загружаются сейчас */
+    private readonly active = new Set<string>();
+
+    constructor(maxConcurrent: number) {
+        this.maxConcurrent = maxConcurrent;
+    }
+
+    /**
+     * Ставит изображение в очередь, если оно еще не ожидает и не загружается
+     */
+    enqueue(task: ImageLoadTask): void {
+        if (this.active.has(task.key) || this.pending.some(item => item.key === task.key)) return;
+        this.pending.push(task);
+        this.next();
+    }
+
+    /**
+     * Оставляет в очереди только задания с указанными ключами; начатые загрузки продолжаются
+     */
+    retain(keys: Set<string>): void {
+        this.pending = this.pending.filter(item => keys.has(item.key));
+    }
+
+    clear(): void {
+        this.pending = [];
+    }
+
+    private next(): void {
+        while (this.active.size < this.maxConcurrent && this.pending.length > 0) {
+            const task = this.pending.shift()!;
+            this.active.add(task.key);
+
+            const image = new Image();
+            const finish = (result: HTMLImageElement | null) => {
+                image.onload = null;
+                image.onerror = null;
+                this.active.delete(task.key);
+                task.onDone(result);
+                this.next();
+            };
+            image.onload = () => finish(image);
+            image.onerror = () => finish(null);
+            image.src = task.url;
+        }
+    }
+}
@@ -0,0 +1,183 @@
+/**
+ * Компактное хранение таймлайна наличия кадров в виде серий (run-length encoding).
+ * Вместо массива значений по каждой единице времени хранятся только границы серий с кадрами:
+ * сутки посекундных данных в number[] занимают ~700 КБ (86400 элементов по 8 байт),
+ * а в сериях - 8 байт на каждый непрерывный участок записи (обычно единицы килобайт).
+ * Агрегация и поиск диапазонов проходят по сериям, а не по каждой секунде
+ */
+import {FragmentTimeRange} from '../types';
+
+export class RunLengthTimeline {
+    /** Время начала таймлайна, мс */
+    readonly startTime: number;
+    /** Длина единицы времени в секундах */
+    readonly unitLength: number;
+    /** Количество единиц времени */
+    readonly length: number;
+    /** Границы серий с кадрами в индексах единиц: [start0, end0, start1, end1, ...], end не включается */
+    readonly runs: Uint32Array;
+
+    constructor(startTime: Date, unitLength: number, length: number, runs: Uint32Array) {
+        this.startTime = startTime.getTime();
+        this.unitLength = unitLength;
+        this.length = length;
+        this.runs = runs;
+    }
+
+    /**
+     * Строит таймлайн из массива значений; значение больше нуля означает наличие кадра
+     */
+    static fromArray(values: ArrayLike<number>, startTime: Date, unitLength: number = 1): RunLengthTimeline {
+        const bounds: number[] = [];
+        let runStart = -1;
+
+        for (let i = 0; i < values.length; i++) {
+            if (values[i] > 0) {
+                if (runStart === -1) {
+                    runStart = i;
+                }
+            } else if (runStart !== -1) {
+                bounds.push(runStart, i);
+                runStart = -1;
+            }
+        }
+        if (runStart !== -1) {
+            bounds.push(runStart, values.length);
+        }
+
+        return new RunLengthTimeline(startTime, unitLength, values.length, new Uint32Array(bounds));
+    }
+
+    /** Количество серий с кадрами */
+    get runCount(): number {
+        return this.runs.length / 2;
+    }
+
+    /** Объем памяти под данные серий, байт */
+    get byteLength(): number {
+        return this.runs.byteLength;
+    }
+
+    private runStart(index: number): number {
+        return this.runs[index * 2];
+    }
+
+    private runEnd(index: number): number {
+        return this.runs[index * 2 + 1];
+    }
+
+    /**
+     * Индекс первой серии, заканчивающейся после указанной единицы времени (бинарный поиск)
+     */
+    private findFirstRunEndingAfter(unitIndex: number): number {
+        let low = 0;
+        let high = this.runCount;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (this.runEnd(middle) <= unitIndex) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    /**
+     * Переводит границы диапазона времени в индексы единиц, ограниченные длиной таймлайна
+     */
+    private toIndexRange(rangeStart?: Date, rangeEnd?: Date): {startIndex: number; endIndex: number} {
+        const unitLengthMs = this.unitLength * 1000;
+        const startIndex = rangeStart
+            ? Math.max(0, Math.floor((rangeStart.getTime() - this.startTime) / unitLengthMs))
+            : 0;
+        const endIndex = rangeEnd
+            ? Math.min(this.length, Math.ceil((rangeEnd.getTime() - this.startTime) / unitLengthMs))
+            : this.length;
+        return {startIndex, endIndex: Math.max(startIndex, endIndex)};
+    }
+
+    private getGroupSize(unitLength: number): number {
+        return Math.max(1, Math.round(unitLength / this.unitLength));
+    }
+
+    hasFrameAt(time: Date): boolean {
+        const unitIndex = Math.floor((time.getTime() - this.startTime) / (this.unitLength * 1000));
+        if (unitIndex < 0 || unitIndex >= this.length) {
+            return false;
+        }
+        const runIndex = this.findFirstRunEndingAfter(unitIndex);
+        return runIndex < this.runCount && this.runStart(runIndex) <= unitIndex;
+    }
+
+    /**
+     * Диапазоны времени с кадрами, пересекающиеся с [start, end). Границы выравниваются по единицам времени
+     */
+    rangesIn(start?: Date, end?: Date): FragmentTimeRange[] {
+        const {startIndex, endIndex} = this.toIndexRange(start, end);
+        const unitLengthMs = this.unitLength * 1000;
+        const ranges: FragmentTimeRange[] = [];
+
+        for (let i = this.findFirstRunEndingAfter(startIndex); i < this.runCount; i++) {
+            const runStart = Math.max(this.runStart(i), startIndex);
+            if (runStart >= endIndex) break;
+            const runEnd = Math.min(this.runEnd(i), endIndex);
+
+            ranges.push({
+                start: new Date(this.startTime + runStart * unitLengthMs),
+                end: new Date(this.startTime + runEnd * unitLengthMs)
+            });
+        }
+
+        return ranges;
+    }
+
+    /**
+     * Количество единиц результата aggregate для указанного масштаба и диапазона
+     */
+    aggregatedLength(unitLength: number, rangeStart?: Date, rangeEnd?: Date): number {
+        const {startIndex, endIndex} = this.toIndexRange(rangeStart, rangeEnd);
+        return Math.ceil((endIndex - startIndex) / this.getGroupSize(unitLength));
+    }
+
+    /**
+     * То же, что aggregate, но записывает результат в готовый массив начиная с offset (массив должен быть заполнен нулями).
+     * Позволяет собрать данные нескольких таймлайнов в один массив без промежуточных копий
+     * @returns Количество записанных единиц
+     */
+    aggregateInto(
+        target: Uint8Array | number[],
+        offset: number,
+        unitLength: number,
+        rangeStart?: Date,
+        rangeEnd?: Date
+    ): number {
+        const {startIndex, endIndex} = this.toIndexRange(rangeStart, rangeEnd);
+        const groupSize = this.getGroupSize(unitLength);
+
+        for (let i = this.findFirstRunEndingAfter(startIndex); i < this.runCount; i++) {
+            const runStart = Math.max(this.runStart(i), startIndex);
+            if (runStart >= endIndex) break;
+            const runEnd = Math.min(this.runEnd(i), endIndex);
+
+            target.fill(
+                1,
+                offset + Math.floor((runStart - startIndex) / groupSize),
+                offset + Math.floor((runEnd - 1 - startIndex) / groupSize) + 1
+            );
+        }
+
+        return Math.ceil((endIndex - startIndex) / groupSize);
+    }
+
+    /**
+     * Переводит таймлайн в более крупный масштаб для диапазона [rangeStart, rangeEnd):
+     * единица результата имеет кадр, если кадр есть хотя бы в одной из входящих в нее единиц.
+     * Последняя единица результата может быть неполной
+     */
+    aggregate(unitLength: number, rangeStart?: Date, rangeEnd?: Date): number[] {
+        const result: number[] = new Array(this.aggregatedLength(unitLength, rangeStart, rangeEnd)).fill(0);
+        this.aggregateInto(result, 0, unitLength, rangeStart, rangeEnd);
+        return result;
+    }
+}
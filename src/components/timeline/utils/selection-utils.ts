@@ -0,0 +1,44 @@
+/**
+ * Утилиты выделения диапазона на временной шкале
+ */
+import {TimeRange} from '../types';
+
+export type SelectionHandle = 'start' | 'end';
+
+/**
+ * Время в точке шкалы
+ * @param position Координата от начала шкалы (X для горизонтальной, Y для вертикальной)
+ * @param size Длина шкалы в пикселях
+ */
+export const getTimeAtPosition = (position: number, size: number, visibleTimeRange: TimeRange): Date => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+    return new Date(visibleTimeRange.start.getTime() + (position / size) * screenDuration);
+};
+
+/**
+ * Возвращает край выделения под точкой шкалы, если точка попадает в зону захвата
+ */
+export const findSelectionHandle = (
+    selection: TimeRange,
+    position: number,
+    size: number,
+    visibleTimeRange: TimeRange,
+    hitArea: number
+): SelectionHandle | null => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+    const toPosition = (time: Date) => ((time.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * size;
+
+    const startDistance = Math.abs(toPosition(selection.start) - position);
+    const endDistance = Math.abs(toPosition(selection.end) - position);
+
+    if (Math.min(startDistance, endDistance) > hitArea) return null;
+    return startDistance < endDistance ? 'start' : 'end';
+};
+
+/**
+ * Диапазон между неподвижной точкой выделения и текущей, в любом порядке
+ */
+export const buildSelection = (anchor: number, time: number): TimeRange => ({
+    start: new Date(Math.min(anchor, time)),
+    end: new Date(Math.max(anchor, time))
+});
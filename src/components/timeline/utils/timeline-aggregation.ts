@@ -0,0 +1,129 @@
+/**
+ * Агрегация посекундных данных таймлайна в масштаб отображения и протокол сообщений воркера агрегации.
+ * Функции чистые и выполняются как в воркере, так и в основном потоке, если воркер недоступен
+ */
+import {FragmentTimeRange} from '../types';
+import {RunLengthTimeline} from './run-length-timeline';
+
+/**
+ * Участок буфера с загруженными данными (день фреймов или 30-минутный интервал фильтра)
+ */
+export interface AggregationDataSegment {
+    type: 'data';
+    /** Время начала исходных данных, мс */
+    startTime: number;
+    /** Длина единицы исходных данных в секундах */
+    unitLength: number;
+    length: number;
+    /** Границы серий с кадрами, см. RunLengthTimeline.runs. Передаются копией, исходные данные остаются в кэше */
+    runs: Uint32Array;
+    /** Часть исходных данных, попадающая в буфер, мс */
+    rangeStart: number;
+    rangeEnd: number;
+}
+
+/**
+ * Участок буфера без загруженных данных - заполняется нулями
+ */
+export interface AggregationGapSegment {
+    type: 'gap';
+    units: number;
+}
+
+export type AggregationSegment = AggregationDataSegment | AggregationGapSegment;
+
+export interface TimelineAggregationRequest {
+    requestId: number;
+    /** Целевая длина единицы времени в секундах */
+    unitLength: number;
+    /** Время начала буфера, мс */
+    bufferStart: number;
+    segments: AggregationSegment[];
+}
+
+export interface TimelineAggregationResult {
+    requestId: number;
+    /** Наличие кадров по единицам целевого масштаба */
+    timeline: Uint8Array;
+    /** Непрерывные диапазоны записи: [start0, end0, start1, end1, ...], мс */
+    ranges: Float64Array;
+}
+
+export type TimelineAggregationWorkerMessage =
+    | {type: 'aggregate'; request: TimelineAggregationRequest}
+    | {type: 'cancel'; requestId: number};
+
+export type TimelineAggregationWorkerResponse = {type: 'result'; result: TimelineAggregationResult};
+
+/**
+ * Создает описание участка для запроса агрегации
+ */
+export const createDataSegment = (
+    source: RunLengthTimeline,
+    rangeStart: Date,
+    rangeEnd: Date
+): AggregationDataSegment => ({
+    type: 'data',
+    startTime: source.startTime,
+    unitLength: source.unitLength,
+    length: source.length,
+    runs: source.runs,
+    rangeStart: rangeStart.getTime(),
+    rangeEnd: rangeEnd.getTime()
+});
+
+const toTimeline = (segment: AggregationDataSegment): RunLengthTimeline =>
+    new RunLengthTimeline(new Date(segment.startTime), segment.unitLength, segment.length, segment.runs);
+
+/**
+ * Преобразует участки посекундных данных в нужный масштаб, объединяет их в один массив
+ * и вычисляет непрерывные диапазоны записи
+ */
+export const aggregateTimeline = (request: TimelineAggregationRequest): TimelineAggregationResult => {
+    const {requestId, unitLength, bufferStart, segments} = request;
+
+    const getSegmentLength = (segment: AggregationSegment): number =>
+        segment.type === 'gap'
+            ? segment.units
+            : toTimeline(segment).aggregatedLength(
+                  unitLength,
+                  new Date(segment.rangeStart),
+                  new Date(segment.rangeEnd)
+              );
+
+    const timeline = new Uint8Array(segments.reduce((sum, segment) => sum + getSegmentLength(segment), 0));
+    let offset = 0;
+    segments.forEach(segment => {
+        if (segment.type === 'gap') {
+            offset += segment.units;
+            return;
+        }
+        offset += toTimeline(segment).aggregateInto(
+            timeline,
+            offset,
+            unitLength,
+            new Date(segment.rangeStart),
+            new Date(segment.rangeEnd)
+        );
+    });
+
+    const fragmentRanges = RunLengthTimeline.fromArray(timeline, new Date(bufferStart), unitLength).rangesIn();
+    const ranges = new Float64Array(fragmentRanges.length * 2);
+    fragmentRanges.forEach((range, index) => {
+        ranges[index * 2] = range.start.getTime();
+        ranges[index * 2 + 1] = range.end.getTime();
+    });
+
+    return {requestId, timeline, ranges};
+};
+
+/**
+ * Восстанавливает диапазоны записи из результата агрегации
+ */
+export const toFragmentRanges = (ranges: Float64Array): FragmentTimeRange[] => {
+    const result: FragmentTimeRange[] = [];
+    for (let i = 0; i < ranges.length; i += 2) {
+        result.push({start: new Date(ranges[i]), end: new Date(ranges[i + 1])});
+    }
+    return result;
+};
@@ -1,8 +1,9 @@
 /**
  * Утилиты для отрисовки вертикального таймлайна
  */
-import {TimeRange} from '../types';
+import {LoopMarkers, MotionLane, TimeRange} from '../types';
 import {Mode} from '../../../utils/types';
+import {Bookmark} from '../../../types/bookmark';
 import {
     formatDay,
     formatTime,
@@ -15,6 +16,13 @@ import {
     isStartOfFiveMinutes,
     isStartOfMinute
 } from './time-utils';
+import {
+    LOOP_MARKER_COLOR,
+    MOTION_LANE_COLORS,
+    MOTION_LANE_OFFSET,
+    MOTION_LANE_SIZE,
+    SELECTION_COLOR
+} from './constants';
 
 /**
  * Отрисовывает маркеры дней и часов для вертикального таймлайна
@@ -468,6 +476,175 @@ export const drawVerticalCurrentTimeIndicator = (
     ctx.stroke();
 };
 
+/**
+ * Отрисовывает дорожки движения и объектов для вертикального таймлайна
+ * @param ctx Контекст canvas
+ * @param lanes Дорожки с интервалами
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawVerticalMotionLanes = (
+    ctx: CanvasRenderingContext2D,
+    lanes: MotionLane[],
+    visibleTimeRange: TimeRange,
+    width: number, // eslint-disable-line @typescript-eslint/no-unused-vars
+    height: number
+): void => {
+    const visibleStart = visibleTimeRange.start.getTime();
+    const screenDuration = visibleTimeRange.end.getTime() - visibleStart;
+
+    lanes.forEach((lane, laneIndex) => {
+        const laneX = MOTION_LANE_OFFSET + laneIndex * (MOTION_LANE_SIZE + 1);
+        ctx.fillStyle = MOTION_LANE_COLORS[lane.type];
+
+        lane.ranges.forEach(range => {
+            const yStart = Math.max(0, ((range.start.getTime() - visibleStart) / screenDuration) * height);
+            const yEnd = Math.min(height, ((range.end.getTime() - visibleStart) / screenDuration) * height);
+            if (yEnd > 0 && yStart < height) {
+                ctx.fillRect(laneX, yStart, MOTION_LANE_SIZE, Math.max(1, yEnd - yStart));
+            }
+        });
+    });
+};
+
+/**
+ * Отрисовывает маркеры закладок для вертикального таймлайна
+ * @param ctx Контекст canvas
+ * @param bookmarks Закладки камеры
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawVerticalBookmarks = (
+    ctx: CanvasRenderingContext2D,
+    bookmarks: Bookmark[],
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number
+): void => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+
+    ctx.strokeStyle = '#FFC107';
+    ctx.fillStyle = '#FFC107';
+    ctx.lineWidth = 1;
+
+    bookmarks.forEach(bookmark => {
+        const y = ((bookmark.time.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * height;
+        if (y < 0 || y > height) return;
+
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+
+        // Флажок у левого края
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(3.5, y + 7);
+        ctx.lineTo(7, y);
+        ctx.closePath();
+        ctx.fill();
+    });
+};
+
+/**
+ * Отрисовывает выделенный диапазон для вертикального таймлайна
+ * @param ctx Контекст canvas
+ * @param selection Выделенный диапазон
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawVerticalSelection = (
+    ctx: CanvasRenderingContext2D,
+    selection: TimeRange,
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number
+): void => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+    const yStart = ((selection.start.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * height;
+    const yEnd = ((selection.end.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * height;
+    if (yEnd < 0 || yStart > height) return;
+
+    ctx.save();
+    ctx.globalAlpha = 0.25;
+    ctx.fillStyle = SELECTION_COLOR;
+    ctx.fillRect(0, Math.max(0, yStart), width, Math.min(height, yEnd) - Math.max(0, yStart));
+    ctx.restore();
+
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.fillStyle = SELECTION_COLOR;
+    ctx.lineWidth = 1;
+
+    [yStart, yEnd].forEach(y => {
+        if (y < 0 || y > height) return;
+
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+
+        // Ручка по центру края
+        ctx.fillRect(width / 2 - 6, y - 2, 12, 4);
+    });
+};
+
+/**
+ * Отрисовывает маркеры повтора A-B для вертикального таймлайна
+ * @param ctx Контекст canvas
+ * @param markers Точки повтора
+ * @param visibleTimeRange Видимый диапазон времени
+ * @param width Ширина canvas
+ * @param height Высота canvas
+ */
+export const drawVerticalLoopMarkers = (
+    ctx: CanvasRenderingContext2D,
+    markers: LoopMarkers,
+    visibleTimeRange: TimeRange,
+    width: number,
+    height: number
+): void => {
+    const screenDuration = visibleTimeRange.end.getTime() - visibleTimeRange.start.getTime();
+    const toY = (time: Date) => ((time.getTime() - visibleTimeRange.start.getTime()) / screenDuration) * height;
+
+    if (markers.a && markers.b) {
+        const yStart = Math.max(0, toY(markers.a));
+        const yEnd = Math.min(height, toY(markers.b));
+        if (yEnd > yStart) {
+            ctx.save();
+            ctx.globalAlpha = 0.15;
+            ctx.fillStyle = LOOP_MARKER_COLOR;
+            ctx.fillRect(0, yStart, width, yEnd - yStart);
+            ctx.restore();
+        }
+    }
+
+    ctx.strokeStyle = LOOP_MARKER_COLOR;
+    ctx.fillStyle = LOOP_MARKER_COLOR;
+    ctx.lineWidth = 2;
+    ctx.font = 'bold 10px Arial';
+    ctx.textAlign = 'right';
+
+    (['a', 'b'] as const).forEach(point => {
+        const time = markers[point];
+        if (!time) return;
+
+        const y = toY(time);
+        if (y < 0 || y > height) return;
+
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+
+        // Подпись внутри интервала: ниже A, выше B
+        ctx.textBaseline = point === 'a' ? 'top' : 'bottom';
+        ctx.fillText(point.toUpperCase(), width - 2, point === 'a' ? y + 2 : y - 2);
+    });
+};
+
 /**
  * Отрисовывает индикатор позиции курсора для вертикального таймлайна
  * @param ctx Контекст canvas
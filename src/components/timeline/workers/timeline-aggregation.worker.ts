@@ -0,0 +1,43 @@
+/**
+ * Воркер агрегации таймлайна: переводит посекундные данные в масштаб отображения вне основного потока.
+ * Выполняется только последний полученный запрос: запросы, пришедшие во время панорамирования или зума,
+ * вытесняют еще не начатые, а отмененные основным потоком не выполняются
+ */
+import {
+    aggregateTimeline,
+    TimelineAggregationRequest,
+    TimelineAggregationWorkerMessage,
+    TimelineAggregationWorkerResponse
+} from '../utils/timeline-aggregation';
+
+let pendingRequest: TimelineAggregationRequest | null = null;
+let isScheduled = false;
+
+const processPendingRequest = () => {
+    isScheduled = false;
+    const request = pendingRequest;
+    pendingRequest = null;
+    if (!request) return;
+
+    const result = aggregateTimeline(request);
+    const response: TimelineAggregationWorkerResponse = {type: 'result', result};
+    self.postMessage(response, {transfer: [result.timeline.buffer, result.ranges.buffer]});
+};
+
+self.onmessage = (event: MessageEvent<TimelineAggregationWorkerMessage>) => {
+    const message = event.data;
+
+    if (message.type === 'cancel') {
+        if (pendingRequest?.requestId === message.requestId) {
+            pendingRequest = null;
+        }
+        return;
+    }
+
+    pendingRequest = message.request;
+    // Обработка откладывается, чтобы следующие сообщения из очереди успели вытеснить или отменить запрос
+    if (!isScheduled) {
+        isScheduled = true;
+        setTimeout(processPendingRequest, 0);
+    }
+};
@@ -0,0 +1,20 @@
+import React, {createContext, useContext} from 'react';
+
+import {DevlineTransport, fetchTransport} from '../utils/transport';
+
+const TransportContext = createContext<DevlineTransport>(fetchTransport);
+
+interface TransportProviderProps {
+    /** Транспорт запросов плеера; по умолчанию fetch браузера */
+    transport?: DevlineTransport | null;
+    children: React.ReactNode;
+}
+
+/**
+ * Транспорт задается для каждого плеера отдельно: несколько плееров на странице не влияют друг на друга
+ */
+export const TransportProvider: React.FC<TransportProviderProps> = ({transport, children}) => (
+    <TransportContext.Provider value={transport ?? fetchTransport}>{children}</TransportContext.Provider>
+);
+
+export const useTransport = (): DevlineTransport => useContext(TransportContext);
@@ -1,9 +1,12 @@
-import React, {useState} from 'react';
+import React, {useMemo, useState} from 'react';
 import {Player} from '../components/player';
 import {TimeProvider} from '../context/time-context';
 import {TimelineAuthProvider} from '../context/timeline-auth-context';
 import {Mode, Protocol} from '../utils/types';
 import type {PlayerProps} from '../components/player/player';
+import type {GridLayout} from '../components/player/components';
+import {TransportProvider} from '../context/transport-context';
+import {createMockTransport, defaultMockFixture, fastForwardMockFixture} from '../mock';
 
 import './DebugPlayer.scss';
 
@@ -15,8 +18,14 @@ interface DebugPlayerParams extends PlayerProps {
     mode: Mode;
     protocol: Protocol;
     archiveStartTimeStr: string; // Строка для ввода времени начала архива
+    useMock: boolean; // Отвечать на запросы из фикстур вместо реального сервера
 }
 
+// Mock-режим можно включить сразу через ?mock в адресе страницы; ?mock=fast-forward - сервер с ускоренным просмотром
+const mockParam = new URLSearchParams(window.location.search).get('mock');
+const isMockRequested = mockParam !== null;
+const mockFixture = mockParam === 'fast-forward' ? fastForwardMockFixture : defaultMockFixture;
+
 /**
  * Компонент для отладки Player
  * Позволяет настраивать параметры плеера и тестировать его функциональность
@@ -35,8 +44,11 @@ const DebugPlayer: React.FC = () => {
         protocol: Protocol.Https,
         showCameraSelector: true,
         proxy: 'https://proxy.devline.ru',
-        archiveStartTimeStr: '2026-01-16T08:27:52.331'
+        archiveStartTimeStr: '2026-01-16T08:27:52.331',
+        useMock: isMockRequested,
+        gridLayout: 1
     });
+    const mockTransport = useMemo(() => createMockTransport(mockFixture), []);
 
     // Обработчик изменения параметров
     const handleParamChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -53,7 +65,9 @@ const DebugPlayer: React.FC = () => {
                         ? (value as Mode)
                         : name === 'protocol'
                           ? (value as Protocol)
-                          : value
+                          : name === 'gridLayout'
+                            ? (Number(value) as GridLayout)
+                            : value
         }));
     };
 
@@ -177,6 +191,21 @@ const DebugPlayer: React.FC = () => {
                             </select>
                         </div>
 
+                        <div className="form-group">
+                            <label htmlFor="gridLayout">Grid layout:</label>
+                            <select
+                                id="gridLayout"
+                                name="gridLayout"
+                                value={params.gridLayout}
+                                onChange={handleParamChange}
+                            >
+                                <option value={1}>1x1</option>
+                                <option value={2}>2x2</option>
+                                <option value={3}>3x3</option>
+                                <option value={4}>4x4</option>
+                            </select>
+                        </div>
+
                         <div className="form-group">
                             <label htmlFor="archiveStartTimeStr">Archive Start Time:</label>
                             <input
@@ -201,6 +230,19 @@ const DebugPlayer: React.FC = () => {
                             </label>
                         </div>
 
+                        <div className="form-group checkbox">
+                            <label htmlFor="useMock">
+                                <input
+                                    type="checkbox"
+                                    id="useMock"
+                                    name="useMock"
+                                    checked={params.useMock}
+                                    onChange={handleParamChange}
+                                />
+                                Mock-сервер (без сети)
+                            </label>
+                        </div>
+
                         <button
                             type="submit"
                             className="apply-button"
@@ -213,14 +255,16 @@ const DebugPlayer: React.FC = () => {
                 <div className="player-container">
                     <h2 className="title">Плеер</h2>
                     <div className="player-wrapper">
-                        <TimeProvider>
-                            <TimelineAuthProvider>
-                                <Player
-                                    {...params}
-                                    archiveStartTime={params.archiveStartTimeStr || undefined}
-                                />
-                            </TimelineAuthProvider>
-                        </TimeProvider>
+                        <TransportProvider transport={params.useMock ? mockTransport : null}>
+                            <TimeProvider key={`${params.useMock ? 'mock' : 'network'}-${params.gridLayout}`}>
+                                <TimelineAuthProvider>
+                                    <Player
+                                        {...params}
+                                        archiveStartTime={params.archiveStartTimeStr || undefined}
+                                    />
+                                </TimelineAuthProvider>
+                            </TimeProvider>
+                        </TransportProvider>
                     </div>
                 </div>
             </div>
@@ -1,9 +1,15 @@
-import React from 'react';
+import React, {createRef} from 'react';
 import {createRoot} from 'react-dom/client';
 import {Mode, Protocol} from '../utils/types';
-import {Player} from '../components/player';
+import {Player, type PlayerHandle} from '../components/player';
+import type {GridLayout} from '../components/player/components';
 import {TimeProvider} from '../context/time-context';
 import {TimelineAuthProvider} from '../context/timeline-auth-context';
+import {TransportProvider} from '../context/transport-context';
+import type {DevlineTransport} from '../utils/transport';
+import {EventHandler, TypedEventEmitter} from '../utils/event-emitter';
+import type {PlaybackStatus} from '../components/player/components/player-interface';
+import type {Snapshot, SnapshotFormat} from '../types/snapshot';
 
 import '../styles/global.scss';
 
@@ -19,12 +25,36 @@ interface DevLinePlayerOptions {
     protocol?: Protocol;
     proxy?: string;
     isUseProxy?: boolean;
+    // Раскладка сетки камер: 1 - одна камера, 2 - 2x2, 3 - 3x3, 4 - 4x4
+    gridLayout?: GridLayout;
+    // Формат снимка кадра (по умолчанию png)
+    snapshotFormat?: SnapshotFormat;
+    // Сохранять снимок файлом; false - снимок только передается в событие snapshot
+    downloadSnapshot?: boolean;
+    // Транспорт запросов к серверу (например, mock-транспорт для офлайн-режима)
+    transport?: DevlineTransport;
+}
+
+/**
+ * События плеера, на которые может подписаться страница-хост
+ */
+export interface DevLinePlayerEvents {
+    statusChange: PlaybackStatus;
+    modeChange: Mode;
+    cameraChange: number;
+    authRequired: void;
+    serverUnavailable: void;
+    timelineClick: Date;
+    exportStart: {start: Date; end: Date};
+    snapshot: Snapshot;
 }
 
 class DevLinePlayer {
     private container: HTMLElement;
     private root: ReturnType<typeof createRoot>;
     private options: DevLinePlayerOptions;
+    private playerRef = createRef<PlayerHandle>();
+    private events = new TypedEventEmitter<DevLinePlayerEvents>();
 
     constructor(
         container: string | HTMLElement,
@@ -63,21 +93,117 @@ class DevLinePlayer {
         this.render();
     }
 
+    // Колбэки создаются один раз, чтобы повторный render не передавал плееру новые функции
+    private handleStatusChange = (status: PlaybackStatus) => this.events.emit('statusChange', status);
+    private handleModeChange = (mode: Mode) => this.events.emit('modeChange', mode);
+    private handleCameraChange = (camera: number) => this.events.emit('cameraChange', camera);
+    private handleAuthRequired = () => this.events.emit('authRequired', undefined);
+    private handleServerUnavailable = () => this.events.emit('serverUnavailable', undefined);
+    private handleTimelineClick = (time: Date) => this.events.emit('timelineClick', time);
+    private handleExportStart = (range: {start: Date; end: Date}) => this.events.emit('exportStart', range);
+    private handleSnapshot = (snapshot: Snapshot) => this.events.emit('snapshot', snapshot);
+
     private render() {
+        const {transport, ...playerProps} = this.options;
         this.root.render(
             // <React.StrictMode>
+            <TransportProvider transport={transport}>
                 <TimeProvider>
                     <TimelineAuthProvider>
-                        <Player {...this.options} />
+                        <Player
+                            ref={this.playerRef}
+                            {...playerProps}
+                            onPlaybackStatusChange={this.handleStatusChange}
+                            onModeChange={this.handleModeChange}
+                            onCameraChange={this.handleCameraChange}
+                            onAuthRequired={this.handleAuthRequired}
+                            onServerUnavailable={this.handleServerUnavailable}
+                            onTimelineClick={this.handleTimelineClick}
+                            onExportStart={this.handleExportStart}
+                            onSnapshot={this.handleSnapshot}
+                        />
                     </TimelineAuthProvider>
                 </TimeProvider>
+            </TransportProvider>
             // </React.StrictMode>
         );
     }
 
     // Публичные методы для управления плеером
+    on<K extends keyof DevLinePlayerEvents>(event: K, handler: EventHandler<DevLinePlayerEvents[K]>) {
+        this.events.on(event, handler);
+        return this;
+    }
+
+    off<K extends keyof DevLinePlayerEvents>(event: K, handler?: EventHandler<DevLinePlayerEvents[K]>) {
+        this.events.off(event, handler);
+        return this;
+    }
+
+    play() {
+        this.playerRef.current?.play();
+    }
+
+    pause() {
+        this.playerRef.current?.pause();
+    }
+
+    seekTo(time: Date) {
+        this.playerRef.current?.seekTo(time);
+    }
+
+    setCamera(camera: number) {
+        this.playerRef.current?.setCamera(camera);
+    }
+
+    setMode(mode: Mode) {
+        this.playerRef.current?.setMode(mode);
+    }
+
+    setMuted(muted: boolean) {
+        this.playerRef.current?.setMuted(muted);
+    }
+
+    setPlaybackSpeed(speed: number) {
+        this.playerRef.current?.setPlaybackSpeed(speed);
+    }
+
+    getCurrentTime(): Date | null {
+        return this.playerRef.current?.getCurrentTime() ?? null;
+    }
+
+    getMode(): Mode {
+        return this.playerRef.current?.getMode() ?? this.options.mode ?? Mode.Live;
+    }
+
+    /**
+     * Обновляет параметры без пересоздания React-дерева.
+     * mode, camera и muted задают только начальное состояние плеера, поэтому применяются через его API
+     */
+    updateOptions(partial: Partial<DevLinePlayerOptions>) {
+        const nextOptions = {...this.options, ...partial};
+        if (!nextOptions.streamUrl) throw new Error('streamUrl is required');
+
+        this.options = nextOptions;
+        this.render();
+
+        const player = this.playerRef.current;
+        if (!player) return;
+
+        if (partial.mode !== undefined && partial.mode !== player.getMode()) {
+            player.setMode(partial.mode);
+        }
+        if (partial.camera !== undefined) {
+            player.setCamera(partial.camera);
+        }
+        if (partial.muted !== undefined) {
+            player.setMuted(partial.muted);
+        }
+    }
+
     destroy() {
         this.root.unmount();
+        this.events.clear();
     }
 }
 
@@ -0,0 +1,141 @@
+import {MotionObjectType} from '../types/motion-filter';
+import {FAST_FORWARD_MIN_VERSION} from '../utils/fast-forward';
+
+/**
+ * Суточный интервал в формате 'HH:mm:ss', конец не включается.
+ * Интервалы повторяются каждый день в пределах глубины архива
+ */
+export interface MockTimeRange {
+    start: string;
+    end: string;
+}
+
+export interface MockCameraFixture {
+    id: number;
+    name: string;
+    width: number;
+    height: number;
+    codec: 'h264' | 'h265';
+    hasAudio: boolean;
+    /** Интервалы записи (archive.get_frames_timeline) */
+    recordings: MockTimeRange[];
+    /** Интервалы движения (archive.get_motions_timeline) */
+    motions: MockTimeRange[];
+    /** Интервалы обнаружения объектов по типам (archive.get_objects_timeline) */
+    objects: Partial<Record<MotionObjectType, MockTimeRange[]>>;
+}
+
+export interface MockServerFixture {
+    /** Значение, возвращаемое get_version */
+    apiVersion: number;
+    /** Если заданы, запросы с другими учетными данными получают ошибку авторизации */
+    login?: string;
+    password?: string;
+    /** Глубина архива в сутках, не считая текущих */
+    archiveDays: number;
+    cameras: MockCameraFixture[];
+    /** Подставляется вместо URL HLS/MP4-потоков; без него URL потоков не меняются */
+    mediaUrl?: string;
+    /**
+     * Подставляется вместо потока ускоренного просмотра (параметр speed): секунда видео соответствует speed секундам
+     * архива. Без него отдается mediaUrl, и его секунда так же считается speed секундами архива
+     */
+    fastForwardMediaUrl?: string;
+}
+
+/**
+ * Фикстура по умолчанию: записи с разрывами, движение и объекты в течение дня
+ */
+export const defaultMockFixture: MockServerFixture = {
+    apiVersion: 90,
+    archiveDays: 7,
+    cameras: [
+        {
+            id: 0,
+            name: 'Вход',
+            width: 1920,
+            height: 1080,
+            codec: 'h264',
+            hasAudio: true,
+            recordings: [
+                {start: '00:00:00', end: '02:30:00'},
+                {start: '03:00:00', end: '08:15:00'},
+                {start: '08:20:00', end: '24:00:00'}
+            ],
+            motions: [
+                {start: '07:45:00', end: '08:05:00'},
+                {start: '09:00:00', end: '09:12:30'},
+                {start: '12:30:00', end: '13:10:00'},
+                {start: '18:00:00', end: '18:45:00'}
+            ],
+            objects: {
+                human: [
+                    {start: '07:50:00', end: '08:00:00'},
+                    {start: '12:35:00', end: '12:50:00'}
+                ],
+                transport: [{start: '18:05:00', end: '18:20:00'}]
+            }
+        },
+        {
+            id: 1,
+            name: 'Парковка',
+            width: 1280,
+            height: 720,
+            codec: 'h264',
+            hasAudio: false,
+            recordings: [{start: '00:00:00', end: '24:00:00'}],
+            motions: [
+                {start: '06:00:00', end: '06:30:00'},
+                {start: '17:30:00', end: '19:00:00'}
+            ],
+            objects: {
+                transport: [
+                    {start: '06:05:00', end: '06:25:00'},
+                    {start: '17:40:00', end: '18:50:00'}
+                ],
+                human: [{start: '17:35:00', end: '17:45:00'}]
+            }
+        },
+        {
+            id: 2,
+            name: 'Склад',
+            width: 1920,
+            height: 1080,
+            codec: 'h265',
+            hasAudio: false,
+            recordings: [
+                {start: '08:00:00', end: '12:00:00'},
+                {start: '13:00:00', end: '20:00:00'}
+            ],
+            motions: [{start: '10:00:00', end: '10:20:00'}],
+            objects: {
+                human: [{start: '10:02:00', end: '10:15:00'}]
+            }
+        },
+        {
+            id: 3,
+            name: 'Коридор',
+            width: 640,
+            height: 480,
+            codec: 'h264',
+            hasAudio: true,
+            recordings: [
+                {start: '00:00:00', end: '11:59:00'},
+                {start: '12:01:00', end: '24:00:00'}
+            ],
+            motions: [
+                {start: '09:15:00', end: '09:16:00'},
+                {start: '14:40:00', end: '14:55:00'}
+            ],
+            objects: {}
+        }
+    ]
+};
+
+/**
+ * Фикстура сервера с ускоренным просмотром архива: те же камеры, версия API с потоком со скоростями 16x-64x
+ */
+export const fastForwardMockFixture: MockServerFixture = {
+    ...defaultMockFixture,
+    apiVersion: FAST_FORWARD_MIN_VERSION
+};
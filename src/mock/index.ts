@@ -0,0 +1,4 @@
+export {createMockTransport} from './mock-transport';
+export type {MockTransportOptions} from './mock-transport';
+export {defaultMockFixture, fastForwardMockFixture} from './fixtures';
+export type {MockCameraFixture, MockServerFixture, MockTimeRange} from './fixtures';
@@ -0,0 +1,74 @@
+import {addDays, startOfDay} from 'date-fns';
+import {beforeAll, describe, expect, it} from '@jest/globals';
+
+import {DevlineRpcClient} from '../utils/rpc-client';
+import {RpcAuthError} from '../utils/rpc-errors';
+import {Protocol} from '../utils/types';
+import {defaultMockFixture} from './fixtures';
+import {createMockTransport} from './mock-transport';
+
+const createClient = (credentials: string, fixture = defaultMockFixture) =>
+    new DevlineRpcClient({
+        host: 'mock.devline.local',
+        port: 443,
+        credentials,
+        protocol: Protocol.Https,
+        transport: createMockTransport(fixture)
+    });
+
+/** Время вчерашнего дня: вчерашние сутки целиком входят в глубину архива фикстуры */
+const yesterdayAt = (hours: number, minutes: number = 0): Date => {
+    const date = startOfDay(addDays(new Date(), -1));
+    date.setHours(hours, minutes);
+    return date;
+};
+
+describe('createMockTransport', () => {
+    beforeAll(() => {
+        // Mock-транспорт разрешает относительные URL от адреса страницы
+        Object.assign(globalThis, {window: {location: {href: 'https://localhost/', protocol: 'https:'}}});
+    });
+
+    it('отвечает на archive.get_frames_timeline интервалами записи фикстуры', async () => {
+        // У камеры 0 записи нет с 02:30 до 03:00
+        const {timeline} = await createClient('user:pass').getFramesTimeline({
+            startTime: yesterdayAt(2),
+            endTime: yesterdayAt(4),
+            unitLength: 1800,
+            channel: 0
+        });
+
+        expect(timeline).toEqual([1, 0, 1, 1]);
+    });
+
+    it('отвечает на archive.get_objects_timeline интервалами выбранных типов объектов', async () => {
+        // У камеры 0 люди обнаружены с 07:50 до 08:00
+        const {timeline} = await createClient('user:pass').getObjectsTimeline({
+            startTime: yesterdayAt(7, 40),
+            endTime: yesterdayAt(8, 10),
+            unitLength: 600,
+            channel: 0,
+            filter: {types: ['human']}
+        });
+
+        expect(timeline).toEqual([0, 1, 0]);
+    });
+
+    it('отклоняет запросы с неверными учетными данными', async () => {
+        const fixture = {...defaultMockFixture, login: 'admin', password: 'secret'};
+
+        await expect(createClient('admin:secret', fixture).getVersion()).resolves.toBe(fixture.apiVersion);
+        await expect(createClient('admin:wrong', fixture).getVersion()).rejects.toBeInstanceOf(RpcAuthError);
+    });
+
+    it('отдает MP4-файл при скачивании записи', async () => {
+        const response = await createMockTransport().fetch(
+            'https://mock.devline.local/cameras/1/streaming/main.mp4?time=2026-01-16T08:27:52&duration=60'
+        );
+        const body = new Uint8Array(await response.arrayBuffer());
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('video/mp4');
+        expect(new TextDecoder().decode(body.subarray(4, 8))).toBe('ftyp');
+    });
+});
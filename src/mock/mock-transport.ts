@@ -0,0 +1,337 @@
+import {addDays, startOfDay} from 'date-fns';
+
+import {DevlineTransport} from '../utils/transport';
+import {getAuthToken} from '../utils/getAuthToken';
+import {getSupportedFastForwardSpeeds} from '../utils/fast-forward';
+import {MotionObjectType} from '../types/motion-filter';
+import {MockCameraFixture, MockServerFixture, MockTimeRange, defaultMockFixture} from './fixtures';
+
+export interface MockTransportOptions {
+    /** Искусственная задержка ответа в мс */
+    latencyMs?: number;
+}
+
+interface RpcRequestBody {
+    method?: string;
+    params?: {
+        start_time?: number[];
+        end_time?: number[];
+        unit_len?: number;
+        channel?: number;
+        camera?: string;
+        filter?: {types?: MotionObjectType[]};
+    };
+}
+
+const createAbortError = (): Error => new DOMException('The operation was aborted.', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timerId);
+            reject(createAbortError());
+        };
+        const timerId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort);
+    });
+
+const jsonResponse = (data: unknown, status: number = 200): Response =>
+    new Response(JSON.stringify(data), {status, headers: {'Content-Type': 'application/json'}});
+
+const rpcError = (type: string, message: string): Response => jsonResponse({error: {type, message}});
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fromRpcDateTime = (value: number[] = []): Date => {
+    const [year = 1970, month = 1, day = 1, hour = 0, minute = 0, second = 0] = value;
+    return new Date(year, month - 1, day, hour, minute, second);
+};
+
+const toRpcLocalTime = (date: Date): number[] => [
+    date.getFullYear(),
+    date.getMonth() + 1,
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+];
+
+const parseTimeOfDay = (value: string): number[] => value.split(':').map(part => Number.parseInt(part, 10) || 0);
+
+/**
+ * Извлекает токен Basic-авторизации из заголовка или query-параметра authorization
+ */
+const extractAuthToken = (url: URL, init?: RequestInit): string | null => {
+    const headers = new Headers(init?.headers);
+    const value = headers.get('Authorization') ?? url.searchParams.get('authorization');
+    if (!value) return null;
+    // В query-параметре '+' из base64 декодируется как пробел
+    return value.replace(/^Basic\s+/i, '').replace(/ /g, '+');
+};
+
+/**
+ * Строит посекундную (или с шагом unitLength) шкалу для суточных интервалов фикстуры.
+ * Единица шкалы равна 1, если хотя бы часть ее попадает в интервал и в глубину архива
+ */
+const buildTimeline = (
+    ranges: MockTimeRange[],
+    start: Date,
+    end: Date,
+    unitLength: number,
+    archiveStart: Date,
+    archiveEnd: Date
+): number[] => {
+    const unitMs = Math.max(1, unitLength) * 1000;
+    const length = Math.max(0, Math.ceil((end.getTime() - start.getTime()) / unitMs));
+    const timeline: number[] = new Array(length).fill(0);
+
+    if (!ranges.length || !length) {
+        return timeline;
+    }
+
+    // Переводим суточные интервалы в абсолютные для каждого дня запроса
+    const absoluteRanges: Array<{start: number; end: number}> = [];
+    for (let day = startOfDay(start); day.getTime() < end.getTime(); day = addDays(day, 1)) {
+        for (const range of ranges) {
+            const [startHour, startMinute, startSecond] = parseTimeOfDay(range.start);
+            const [endHour, endMinute, endSecond] = parseTimeOfDay(range.end);
+            const rangeStart = new Date(day);
+            rangeStart.setHours(startHour, startMinute, startSecond, 0);
+            const rangeEnd = new Date(day);
+            rangeEnd.setHours(endHour, endMinute, endSecond, 0);
+
+            const clippedStart = Math.max(rangeStart.getTime(), archiveStart.getTime());
+            const clippedEnd = Math.min(rangeEnd.getTime(), archiveEnd.getTime());
+            if (clippedStart < clippedEnd) {
+                absoluteRanges.push({start: clippedStart, end: clippedEnd});
+            }
+        }
+    }
+
+    for (const range of absoluteRanges) {
+        const firstUnit = Math.max(0, Math.floor((range.start - start.getTime()) / unitMs));
+        const lastUnit = Math.min(length - 1, Math.ceil((range.end - start.getTime()) / unitMs) - 1);
+        for (let i = firstUnit; i <= lastUnit; i++) {
+            timeline[i] = 1;
+        }
+    }
+
+    return timeline;
+};
+
+const buildCamerasXml = (cameras: MockCameraFixture[]): string => {
+    const items = cameras
+        .map(
+            camera => `    <camera>
+        <name>${escapeXml(camera.name)}</name>
+        <uri>/cameras/${camera.id}</uri>
+        <width>${camera.width}</width>
+        <height>${camera.height}</height>
+        <image-uri>/cameras/${camera.id}/image</image-uri>
+        <streaming-uri>/cameras/${camera.id}/streaming</streaming-uri>
+    </camera>`
+        )
+        .join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<cameras>\n${items}\n</cameras>\n`;
+};
+
+/**
+ * Кадр-заглушка для превью: SVG с названием камеры и временем кадра
+ */
+const buildPreviewDataUrl = (camera: MockCameraFixture | undefined, time: string | null): string => {
+    const title = escapeXml(camera?.name ?? 'Камера');
+    const subtitle = escapeXml(time ?? '');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="240" viewBox="0 0 320 240">
+<rect width="320" height="240" fill="#263238"/>
+<text x="160" y="110" fill="#ffffff" font-family="sans-serif" font-size="20" text-anchor="middle">${title}</text>
+<text x="160" y="140" fill="#4CAF50" font-family="monospace" font-size="14" text-anchor="middle">${subtitle}</text>
+</svg>`;
+
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+/**
+ * Бокс ISO BMFF: 32-битный размер, четырехсимвольный тип и содержимое
+ */
+const buildMp4Box = (type: string, payload: Uint8Array): Uint8Array => {
+    const box = concatBytes([new Uint8Array(4), new TextEncoder().encode(type), payload]);
+    new DataView(box.buffer).setUint32(0, box.length, false);
+    return box;
+};
+
+/**
+ * Тело MP4-файла для скачивания записи: заголовок ftyp и бокс free с камерой и временем запроса,
+ * чтобы файлы разных фрагментов различались. Видеоданных в файле нет
+ */
+const buildMediaBody = (camera: string, time: string | null): Uint8Array =>
+    concatBytes([
+        buildMp4Box('ftyp', new TextEncoder().encode('isom\u0000\u0000\u0002\u0000isommp41')),
+        buildMp4Box('free', new TextEncoder().encode(`devline mock camera=${camera} time=${time ?? ''}`))
+    ]);
+
+/**
+ * Создает транспорт, отвечающий на запросы плеера данными фикстуры без обращения к сети.
+ * Поддерживает RPC-методы таймлайна, get_server_info, get_camera_state, get_version, список камер /cameras
+ * и скачивание записи /cameras/{id}/streaming/
+ */
+export const createMockTransport = (
+    fixture: MockServerFixture = defaultMockFixture,
+    {latencyMs = 0}: MockTransportOptions = {}
+): DevlineTransport => {
+    const findCamera = (id: number | string | undefined): MockCameraFixture | undefined =>
+        fixture.cameras.find(camera => camera.id === Number(id));
+
+    const isAuthorized = (token: string | null): boolean => {
+        if (fixture.login === undefined) return true;
+        return token === getAuthToken(`${fixture.login}:${fixture.password ?? ''}`);
+    };
+
+    const getArchiveBounds = () => {
+        const now = new Date();
+        return {archiveStart: startOfDay(addDays(now, -fixture.archiveDays)), archiveEnd: now};
+    };
+
+    const handleRpc = (body: RpcRequestBody): Response => {
+        const params = body.params ?? {};
+
+        switch (body.method) {
+            case 'archive.get_frames_timeline':
+            case 'archive.get_motions_timeline':
+            case 'archive.get_objects_timeline': {
+                const camera = findCamera(params.channel);
+                let ranges: MockTimeRange[] = [];
+                if (camera && body.method === 'archive.get_frames_timeline') {
+                    ranges = camera.recordings;
+                } else if (camera && body.method === 'archive.get_motions_timeline') {
+                    // Маска движения в фикстурах не учитывается
+                    ranges = camera.motions;
+                } else if (camera) {
+                    const types = params.filter?.types ?? [];
+                    ranges = types.reduce<MockTimeRange[]>((acc, type) => acc.concat(camera.objects[type] ?? []), []);
+                }
+
+                const {archiveStart, archiveEnd} = getArchiveBounds();
+                const timeline = buildTimeline(
+                    ranges,
+                    fromRpcDateTime(params.start_time),
+                    fromRpcDateTime(params.end_time),
+                    params.unit_len ?? 1,
+                    archiveStart,
+                    archiveEnd
+                );
+                return jsonResponse({result: {timeline}});
+            }
+            case 'get_server_info':
+                return jsonResponse({
+                    result: {info: {local_time: toRpcLocalTime(new Date())}}
+                });
+            case 'get_camera_state': {
+                const camera = findCamera(params.camera);
+                if (!camera) {
+                    return rpcError('not_found', 'camera not found');
+                }
+                return jsonResponse({
+                    result: {
+                        state: {
+                            video_streams: {video: {codec: camera.codec}},
+                            audio_streams: {audio: {signal: camera.hasAudio ? 'yes' : 'no'}}
+                        }
+                    }
+                });
+            }
+            case 'get_version':
+                return jsonResponse({result: {version: {value: fixture.apiVersion}}});
+            default:
+                return rpcError('method', 'method not found');
+        }
+    };
+
+    return {
+        fetch: async (input, init) => {
+            if (latencyMs > 0) {
+                await delay(latencyMs, init?.signal);
+            } else if (init?.signal?.aborted) {
+                throw createAbortError();
+            }
+
+            const url = new URL(input, window.location.href);
+            const authorized = isAuthorized(extractAuthToken(url, init));
+
+            if (/\/rpc$/.test(url.pathname)) {
+                if (!authorized) {
+                    return rpcError('auth', 'forbidden');
+                }
+                const body: RpcRequestBody = typeof init?.body === 'string' ? JSON.parse(init.body) : {};
+                return handleRpc(body);
+            }
+
+            if (/\/cameras\/?$/.test(url.pathname)) {
+                if (!authorized) {
+                    return new Response('', {status: 401});
+                }
+                return new Response(buildCamerasXml(fixture.cameras), {
+                    status: 200,
+                    headers: {'Content-Type': 'application/xml'}
+                });
+            }
+
+            const streamingMatch = url.pathname.match(/\/cameras\/(\d+)\/streaming\//);
+            if (streamingMatch) {
+                if (!authorized) {
+                    return new Response('', {status: 401});
+                }
+                if (!findCamera(streamingMatch[1])) {
+                    return new Response('', {status: 404});
+                }
+                const body = buildMediaBody(streamingMatch[1], url.searchParams.get('time'));
+                return new Response(body, {
+                    status: 200,
+                    headers: {'Content-Type': 'video/mp4', 'Content-Length': String(body.length)}
+                });
+            }
+
+            return new Response('', {status: 404});
+        },
+        resolveMediaUrl: input => {
+            const url = new URL(input, window.location.href);
+
+            const imageMatch = url.pathname.match(/\/cameras\/(\d+)\/image$/);
+            if (imageMatch) {
+                return buildPreviewDataUrl(findCamera(imageMatch[1]), url.searchParams.get('time'));
+            }
+
+            if (fixture.mediaUrl && /\/cameras\/\d+\/streaming\//.test(url.pathname)) {
+                // Ускоренный поток отдается только для поддерживаемых версией скоростей, остальные сервер игнорирует
+                const speed = Number(url.searchParams.get('speed'));
+                if (getSupportedFastForwardSpeeds(fixture.apiVersion).includes(speed)) {
+                    return fixture.fastForwardMediaUrl ?? fixture.mediaUrl;
+                }
+                return fixture.mediaUrl;
+            }
+
+            return input;
+        }
+    };
+};
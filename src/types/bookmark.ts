@@ -0,0 +1,13 @@
+/**
+ * Закладка на моменте архива
+ */
+export interface Bookmark {
+    id: string;
+    /** Момент архива, на который указывает закладка */
+    time: Date;
+    /** Подпись оператора, например "человек у ворот" */
+    label: string;
+    createdAt: Date;
+}
+
+export type BookmarksFileFormat = 'json' | 'csv';
@@ -0,0 +1,80 @@
+export type ExportJobStatus = 'queued' | 'downloading' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Способ сохранения: один непрерывный файл, ZIP с файлами записанных фрагментов,
+ * отдельные файлы фрагментов с плейлистом M3U или ZIP-пакет для передачи с манифестом и SHA-256
+ */
+export type ExportPackaging = 'single' | 'zip' | 'playlist' | 'evidence';
+
+/**
+ * Сведения для манифеста пакета evidence
+ */
+export interface EvidenceInfo {
+    cameraId: number;
+    cameraName?: string;
+    /** Адрес сервера без прокси и учетных данных */
+    server: string;
+    /** Логин оператора, выполнившего экспорт */
+    operator: string;
+}
+
+/**
+ * Записанный фрагмент периода экспорта
+ */
+export interface ExportSegment {
+    url: string;
+    /** Имя файла фрагмента без расширения */
+    fileName: string;
+    start: Date;
+    end: Date;
+}
+
+/**
+ * Задание экспорта фрагмента архива в файл
+ */
+export interface ExportJob {
+    id: string;
+    /** Имя сохраняемого файла без расширения */
+    fileName: string;
+    url: string;
+    start: Date;
+    end: Date;
+    packaging: ExportPackaging;
+    /** Фрагменты для packaging zip, playlist и evidence */
+    segments: ExportSegment[];
+    /** Количество полностью загруженных фрагментов */
+    completedSegments: number;
+    status: ExportJobStatus;
+    /** Доля выполнения от 0 до 1; null, если оценить нельзя (сервер не передал размер файла) */
+    progress: number | null;
+    receivedBytes: number;
+    /** Размер файла из Content-Length; null, если сервер его не передал или фрагментов несколько */
+    totalBytes: number | null;
+    /** Оценка оставшегося времени загрузки, сек; null, пока оценка невозможна */
+    estimatedSecondsLeft: number | null;
+    /** Описание ошибки для статуса failed */
+    error?: string;
+    evidence?: EvidenceInfo;
+    /** Файлы (все или часть) переданы браузеру по ссылке, их загрузку показывает браузер */
+    savedByLink?: boolean;
+}
+
+export interface ExportRequest {
+    url: string;
+    fileName: string;
+    start: Date;
+    end: Date;
+    /** По умолчанию single */
+    packaging?: ExportPackaging;
+    segments?: ExportSegment[];
+    /** Обязателен для packaging evidence */
+    evidence?: EvidenceInfo;
+}
+
+/**
+ * Выбор в окне сохранения: выгрузить период по фрагментам (только записанные части или пакет evidence)
+ */
+export interface RecordedSegmentsExport {
+    packaging: Exclude<ExportPackaging, 'single'>;
+    segments: Array<{start: Date; end: Date}>;
+}
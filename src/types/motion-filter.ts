@@ -1,6 +1,9 @@
 export type MotionObjectType = 'human' | 'transport';
 export type MotionFilterOption = 'motion' | MotionObjectType;
 
+/** Все типы объектов в порядке, в котором они передаются в фильтре */
+export const MOTION_OBJECT_TYPES: MotionObjectType[] = ['human', 'transport'];
+
 export interface MotionMaskPayload {
     width: number;
     height: number;
@@ -12,5 +15,49 @@ export interface TimelineMotionFilter {
     types?: MotionObjectType[];
 }
 
+/**
+ * Типы объектов без повторов в порядке MOTION_OBJECT_TYPES, чтобы одинаковые фильтры давали одну сигнатуру
+ */
+export const normalizeObjectTypes = (types: MotionObjectType[]): MotionObjectType[] =>
+    MOTION_OBJECT_TYPES.filter(type => types.includes(type));
+
 export const createMotionFilterSignature = (filter?: TimelineMotionFilter | null): string =>
     JSON.stringify(filter ?? null);
+
+/**
+ * Именованный фильтр (маска и типы объектов), сохраненный для камеры
+ */
+export interface MotionFilterPreset {
+    id: string;
+    name: string;
+    filter: TimelineMotionFilter;
+    createdAt: Date;
+}
+
+/**
+ * Непрерывный участок движения (или объектов фильтра), собранный из посекундного таймлайна
+ */
+export interface MotionEvent {
+    start: Date;
+    end: Date;
+    /** Длительность, сек */
+    duration: number;
+}
+
+/**
+ * Настройки воспроизведения только событий
+ */
+export interface EventsPlaybackSettings {
+    /** Сколько секунд показывать перед началом события */
+    preRollSeconds: number;
+    /** Сколько секунд показывать после окончания события */
+    postRollSeconds: number;
+    /** События короче этого значения (сек) пропускаются */
+    minEventSeconds: number;
+}
+
+export const DEFAULT_EVENTS_PLAYBACK_SETTINGS: EventsPlaybackSettings = {
+    preRollSeconds: 2,
+    postRollSeconds: 2,
+    minEventSeconds: 1
+};
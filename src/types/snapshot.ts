@@ -0,0 +1,17 @@
+export type SnapshotFormat = 'png' | 'jpeg';
+
+/**
+ * Стоп-кадр с нанесенными названием камеры и временем
+ */
+export interface Snapshot {
+    blob: Blob;
+    /** Имя файла с расширением */
+    fileName: string;
+    format: SnapshotFormat;
+    /** Абсолютное время кадра */
+    time: Date;
+    camera: number;
+    cameraName?: string;
+    width: number;
+    height: number;
+}
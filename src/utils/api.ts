@@ -4,6 +4,9 @@ import {Protocol} from './types';
 import {getAuthToken} from './getAuthToken';
 import {buildRequestUrl} from './url-builder';
 import {TimelineMotionFilter} from '../types/motion-filter';
+import {CameraStateResult, DevlineRpcClient} from './rpc-client';
+import {DevlineTransport, fetchTransport} from './transport';
+import {RpcAuthError, RpcMalformedResponseError, RpcNetworkError} from './rpc-errors';
 
 export interface CameraInfo {
     id: number;
@@ -26,110 +29,39 @@ interface GetFramesTimelineParams {
     stream?: string;
     protocol?: Protocol;
     proxy?: string;
+    transport?: DevlineTransport;
 }
 
 interface TimelineResponse {
     timeline: number[];
 }
 
-const makeSingleDayRequest = async (
+const createRpcClient = (
     url: string,
     port: number,
     credentials: string,
+    protocol?: Protocol,
+    proxy?: string,
+    transport?: DevlineTransport
+): DevlineRpcClient => new DevlineRpcClient({host: url, port, credentials, protocol, proxy, transport});
+
+const makeSingleDayRequest = (
+    client: DevlineRpcClient,
     startTime: Date,
     endTime: Date,
     unitLength: number,
     channel: number | undefined,
     stream: string | undefined,
-    preferredProtocol: Protocol,
-    proxy: string | undefined,
     signal?: AbortSignal
-): Promise<TimelineResponse> => {
-    const requestParams = {
-        start_time: [
-            startTime.getFullYear(),
-            startTime.getMonth() + 1,
-            startTime.getDate(),
-            startTime.getHours(),
-            startTime.getMinutes(),
-            startTime.getSeconds()
-        ],
-        end_time: [
-            endTime.getFullYear(),
-            endTime.getMonth() + 1,
-            endTime.getDate(),
-            endTime.getHours(),
-            endTime.getMinutes(),
-            endTime.getSeconds()
-        ],
-        unit_len: unitLength,
-        ...(channel !== undefined && {channel}),
-        ...(stream !== undefined && {stream})
-    };
-
-    const rpcUrl = buildRequestUrl({
-        host: url,
-        port,
-        protocol: preferredProtocol,
-        proxy,
-        path: proxy ? '/rpc' : `/rpc?authorization=Basic ${getAuthToken(credentials)}&content-type=application/json`
-    });
-
-    const headers: HeadersInit = {};
-    if (proxy) {
-        headers['Content-Type'] = 'application/json';
-        headers['Authorization'] = `Basic ${getAuthToken(credentials)}`;
-    }
-
-    try {
-        const response = await fetch(rpcUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({method: 'archive.get_frames_timeline', params: requestParams, version: 13}),
-            signal
-        });
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch timeline data');
-        }
-
-        const data = await response.json();
-
-        // Проверяем наличие ошибки авторизации
-        if (data.error && data.error.type === 'auth' && data.error.message === 'forbidden') {
-            throw new Error('FORBIDDEN');
-        }
-
-        return data.result;
-    } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
-            throw new Error('Request aborted');
-        }
-        if (error instanceof Error && error.message === 'FORBIDDEN') {
-            throw error;
-        }
-        throw new Error('Failed to fetch timeline data');
-    }
-};
+): Promise<TimelineResponse> => client.getFramesTimeline({startTime, endTime, unitLength, channel, stream}, signal);
 
 export const getFramesTimeline = async (params: GetFramesTimelineParams): Promise<TimelineResponse> => {
-    const {url, port, credentials, startTime, endTime, unitLength, channel, stream, proxy} = params;
-    const preferredProtocol = params.protocol ?? getProtocol();
+    const {url, port, credentials, startTime, endTime, unitLength, channel, stream, proxy, transport} = params;
+    const client = createRpcClient(url, port, credentials, params.protocol ?? getProtocol(), proxy, transport);
 
     // Если запрос в пределах одного дня, делаем один запрос
     if (isSameDay(startTime, endTime)) {
-        return makeSingleDayRequest(
-            url,
-            port,
-            credentials,
-            startTime,
-            endTime,
-            unitLength,
-            channel,
-            stream,
-            preferredProtocol,
-            proxy
-        );
+        return makeSingleDayRequest(client, startTime, endTime, unitLength, channel, stream);
     }
 
     // Разбиваем запрос по суткам
@@ -146,20 +78,7 @@ export const getFramesTimeline = async (params: GetFramesTimelineParams): Promis
     // Ограничиваем концом запроса, если он меньше начала следующего дня
     const actualFirstDayEnd = endTime.getTime() < firstDayEnd.getTime() ? endTime : firstDayEnd;
     if (startTime.getTime() < actualFirstDayEnd.getTime()) {
-        requests.push(
-            makeSingleDayRequest(
-                url,
-                port,
-                credentials,
-                startTime,
-                actualFirstDayEnd,
-                unitLength,
-                channel,
-                stream,
-                preferredProtocol,
-                proxy
-            )
-        );
+        requests.push(makeSingleDayRequest(client, startTime, actualFirstDayEnd, unitLength, channel, stream));
     }
 
     // Промежуточные дни: от начала до начала следующего дня (00:00:00 следующего дня)
@@ -170,20 +89,7 @@ export const getFramesTimeline = async (params: GetFramesTimelineParams): Promis
     while (currentDate <= intermediateEndDate) {
         const dayStart = startOfDay(currentDate);
         const dayEnd = startOfDay(addDays(currentDate, 1));
-        requests.push(
-            makeSingleDayRequest(
-                url,
-                port,
-                credentials,
-                dayStart,
-                dayEnd,
-                unitLength,
-                channel,
-                stream,
-                preferredProtocol,
-                proxy
-            )
-        );
+        requests.push(makeSingleDayRequest(client, dayStart, dayEnd, unitLength, channel, stream));
         currentDate = addDays(currentDate, 1);
     }
 
@@ -191,48 +97,16 @@ export const getFramesTimeline = async (params: GetFramesTimelineParams): Promis
     if (!isEndTimeAtDayStart) {
         const lastDayStart = startOfDay(endTime);
         if (lastDayStart.getTime() < endTime.getTime()) {
-            requests.push(
-                makeSingleDayRequest(
-                    url,
-                    port,
-                    credentials,
-                    lastDayStart,
-                    endTime,
-                    unitLength,
-                    channel,
-                    stream,
-                    preferredProtocol,
-                    proxy
-                )
-            );
+            requests.push(makeSingleDayRequest(client, lastDayStart, endTime, unitLength, channel, stream));
         }
     }
 
     // Выполняем все запросы параллельно и объединяем результаты
-    try {
-        const results = await Promise.all(requests);
-
-        // Вычисляем общий размер для предварительного выделения памяти
-        const totalLength = results.reduce((sum, result) => sum + result.timeline.length, 0);
-        const combinedTimeline: number[] = new Array(totalLength);
-
-        // Копируем данные без использования spread оператора для больших массивов
-        let offset = 0;
-        for (const result of results) {
-            for (let i = 0; i < result.timeline.length; i++) {
-                combinedTimeline[offset + i] = result.timeline[i];
-            }
-            offset += result.timeline.length;
-        }
+    // Ошибки клиента (RpcAuthError, RpcNetworkError и т.д.) пробрасываются как есть
+    const results = await Promise.all(requests);
 
-        return {timeline: combinedTimeline};
-    } catch (error) {
-        // Если один из запросов вернул FORBIDDEN, пробрасываем его
-        if (error instanceof Error && error.message === 'FORBIDDEN') {
-            throw error;
-        }
-        throw new Error('Failed to fetch timeline data');
-    }
+    // Массивы суток объединяются нативным concat за один проход, без поэлементного копирования
+    return {timeline: ([] as number[]).concat(...results.map(result => result.timeline))};
 };
 
 interface GetMotionsTimelineParams extends GetFramesTimelineParams {
@@ -242,73 +116,11 @@ interface GetMotionsTimelineParams extends GetFramesTimelineParams {
 export const getMotionsTimeline = async (
     params: GetMotionsTimelineParams & {signal?: AbortSignal}
 ): Promise<TimelineResponse> => {
-    const {url, port, credentials, startTime, endTime, unitLength, channel, stream, proxy, filter, signal} = params;
-    const preferredProtocol = params.protocol ?? getProtocol();
-
-    const requestParams = {
-        start_time: [
-            startTime.getFullYear(),
-            startTime.getMonth() + 1,
-            startTime.getDate(),
-            startTime.getHours(),
-            startTime.getMinutes(),
-            startTime.getSeconds()
-        ],
-        end_time: [
-            endTime.getFullYear(),
-            endTime.getMonth() + 1,
-            endTime.getDate(),
-            endTime.getHours(),
-            endTime.getMinutes(),
-            endTime.getSeconds()
-        ],
-        unit_len: unitLength,
-        ...(channel !== undefined && {channel}),
-        ...(stream !== undefined && {stream}),
-        ...(filter ? {filter} : {})
-    };
-
-    const rpcUrl = buildRequestUrl({
-        host: url,
-        port,
-        protocol: preferredProtocol,
-        proxy,
-        path: proxy ? '/rpc' : `/rpc?authorization=Basic ${getAuthToken(credentials)}&content-type=application/json`
-    });
-
-    const headers: HeadersInit = {};
-    if (proxy) {
-        headers['Content-Type'] = 'application/json';
-        headers['Authorization'] = `Basic ${getAuthToken(credentials)}`;
-    }
-
-    try {
-        const response = await fetch(rpcUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({method: 'archive.get_motions_timeline', params: requestParams, version: 71}),
-            signal
-        });
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch motion timeline data');
-        }
+    const {url, port, credentials, startTime, endTime, unitLength, channel, stream, proxy, filter, signal, transport} =
+        params;
+    const client = createRpcClient(url, port, credentials, params.protocol ?? getProtocol(), proxy, transport);
 
-        const data = await response.json();
-        if (data.error && data.error.type === 'auth' && data.error.message === 'forbidden') {
-            throw new Error('FORBIDDEN');
-        }
-
-        return data.result;
-    } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
-            throw new Error('Request aborted');
-        }
-        if (error instanceof Error && error.message === 'FORBIDDEN') {
-            throw error;
-        }
-        throw new Error('Failed to fetch motion timeline data');
-    }
+    return client.getMotionsTimeline({startTime, endTime, unitLength, channel, stream, filter}, signal);
 };
 
 interface UrlForDownloadParams {
@@ -336,61 +148,12 @@ export const getServerTime = async (
     credentials: string,
     protocol?: Protocol,
     proxy?: string,
-    signal?: AbortSignal
-): Promise<Date> => {
-    const rpcUrl = buildRequestUrl({
-        host: url,
-        port,
-        protocol: protocol ?? getProtocol(),
-        proxy,
-        path: proxy ? '/rpc' : `/rpc?authorization=Basic ${getAuthToken(credentials)}&content-type=application/json`
-    });
-
-    const headers: HeadersInit = {};
-    if (proxy) {
-        headers['Content-Type'] = 'application/json';
-        headers['Authorization'] = `Basic ${getAuthToken(credentials)}`;
-    }
-
-    try {
-        const response = await fetch(rpcUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({method: 'get_server_info', version: 12}),
-            signal
-        });
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch server time');
-        }
-
-        const data = await response.json();
-        const localTime = data.result.info.local_time;
-
-        if (Array.isArray(localTime) && localTime.length >= 7) {
-            // local_time format: [year, month, day, hour, minute, second, millisecond]
-            // Note: JavaScript months are 0-indexed, but the API returns 1-indexed months
-            const [year, month, day, hour, minute, second, millisecond] = localTime;
-            const serverDate = new Date(year, month - 1, day, hour, minute, second, millisecond);
-            return serverDate;
-        } else {
-            throw new Error('Invalid server time format');
-        }
-    } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
-            throw new Error('Request aborted');
-        }
-        throw new Error('Failed to fetch server time');
-    }
-};
+    signal?: AbortSignal,
+    transport?: DevlineTransport
+): Promise<Date> => createRpcClient(url, port, credentials, protocol, proxy, transport).getServerTime(signal);
 
 interface CameraStateResponse {
-    result: {
-        state: {
-            video_streams: {video: {codec: string}};
-            audio_streams: {audio: {signal: string}};
-        };
-    };
+    result: CameraStateResult;
 }
 
 export const getCameraState = async (
@@ -400,42 +163,14 @@ export const getCameraState = async (
     camera: number,
     protocol?: Protocol,
     proxy?: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    transport?: DevlineTransport
 ): Promise<CameraStateResponse> => {
-    const rpcUrl = buildRequestUrl({
-        host: url,
-        port,
-        protocol: protocol ?? getProtocol(),
-        proxy,
-        path: proxy ? '/rpc' : `/rpc?authorization=Basic ${getAuthToken(credentials)}&content-type=application/json`
-    });
-
-    const headers: HeadersInit = {};
-    if (proxy) {
-        headers['Content-Type'] = 'application/json';
-        headers['Authorization'] = `Basic ${getAuthToken(credentials)}`;
-    }
-
-    try {
-        const response = await fetch(rpcUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({method: 'get_camera_state', params: {camera: String(camera)}, version: 13}),
-            signal
-        });
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch camera state');
-        }
-
-        const data = (await response.json()) as CameraStateResponse;
-        return data;
-    } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
-            throw new Error('Request aborted');
-        }
-        throw new Error('Failed to fetch camera state');
-    }
+    const result = await createRpcClient(url, port, credentials, protocol, proxy, transport).getCameraState(
+        camera,
+        signal
+    );
+    return {result};
 };
 
 /**
@@ -447,7 +182,8 @@ export const getCamerasList = (
     credentials: string,
     timeoutMs: number = 5000,
     protocol?: Protocol,
-    proxy?: string
+    proxy?: string,
+    transport: DevlineTransport = fetchTransport
 ): Promise<CameraInfo[]> => {
     return new Promise(async (resolve, reject) => {
         try {
@@ -462,16 +198,16 @@ export const getCamerasList = (
                 path: `/cameras?authorization=Basic%20${getAuthToken(credentials)}`
             });
 
-            const res = await fetch(requestUrl, {method: 'GET', signal: controller.signal});
+            const res = await transport.fetch(requestUrl, {method: 'GET', signal: controller.signal});
             clearTimeout(timeoutId);
 
             if (res.status === 401) {
-                reject(new Error('FORBIDDEN'));
+                reject(new RpcAuthError('cameras'));
                 return;
             }
 
             if (!res.ok) {
-                reject(new Error(`Failed to fetch cameras: ${res.status}`));
+                reject(new RpcNetworkError('cameras', res.status));
                 return;
             }
 
@@ -481,7 +217,7 @@ export const getCamerasList = (
 
             const parserError = doc.getElementsByTagName('parsererror')[0];
             if (parserError) {
-                reject(new Error('Failed to parse cameras XML'));
+                reject(new RpcMalformedResponseError('cameras', 'invalid XML'));
                 return;
             }
 
@@ -507,11 +243,8 @@ export const getCamerasList = (
 
             resolve(cameras);
         } catch (err) {
-            if ((err as Error).name === 'AbortError') {
-                reject(new Error('Failed to fetch cameras: timeout'));
-                return;
-            }
-            reject(new Error('Failed to fetch cameras'));
+            // Отмена здесь возможна только по таймауту, поэтому считаем её сетевой ошибкой
+            reject(new RpcNetworkError('cameras'));
         }
     });
 };
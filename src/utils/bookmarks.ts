@@ -0,0 +1,178 @@
+import {format} from 'date-fns';
+
+import {Bookmark, BookmarksFileFormat} from '../types/bookmark';
+import {
+    createLocalId,
+    getCameraStorageKey,
+    loadStoredList,
+    parseStoredDate,
+    parseStoredItems,
+    saveStoredList
+} from './camera-storage';
+
+const STORAGE_PREFIX = 'devline-bookmarks';
+const CSV_HEADER = ['time', 'label', 'created_at'];
+
+interface StoredBookmark {
+    id: string;
+    time: string;
+    label: string;
+    createdAt: string;
+}
+
+export const getBookmarksStorageKey = (camera: number, url: string, port: number): string =>
+    getCameraStorageKey(STORAGE_PREFIX, camera, url, port);
+
+export const sortBookmarks = (bookmarks: Bookmark[]): Bookmark[] =>
+    [...bookmarks].sort((a, b) => a.time.getTime() - b.time.getTime());
+
+const toStored = (bookmark: Bookmark): StoredBookmark => ({
+    id: bookmark.id,
+    time: bookmark.time.toISOString(),
+    label: bookmark.label,
+    createdAt: bookmark.createdAt.toISOString()
+});
+
+/**
+ * Восстанавливает закладку из произвольного объекта; некорректные записи отбрасываются
+ */
+const fromStored = (value: unknown): Bookmark | null => {
+    if (!value || typeof value !== 'object') return null;
+    const item = value as Partial<Record<keyof StoredBookmark, unknown>>;
+
+    const time = parseStoredDate(item.time);
+    if (!time) return null;
+
+    return {
+        id: typeof item.id === 'string' && item.id ? item.id : createLocalId(),
+        time,
+        label: typeof item.label === 'string' ? item.label : '',
+        createdAt: parseStoredDate(item.createdAt) ?? new Date()
+    };
+};
+
+export const loadBookmarks = (storageKey: string): Bookmark[] =>
+    sortBookmarks(loadStoredList(storageKey, fromStored, 'закладки'));
+
+export const saveBookmarks = (storageKey: string, bookmarks: Bookmark[]): void =>
+    saveStoredList(storageKey, bookmarks, toStored, 'закладки');
+
+const escapeCsvValue = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Разбирает CSV с учетом кавычек, экранированных кавычек и переводов строк внутри значений
+ */
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+
+    if (value || row.length) {
+        row.push(value);
+        rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+export const serializeBookmarks = (bookmarks: Bookmark[], fileFormat: BookmarksFileFormat): string => {
+    const sorted = sortBookmarks(bookmarks);
+
+    if (fileFormat === 'json') {
+        return JSON.stringify(sorted.map(toStored), null, 2);
+    }
+
+    const lines = sorted.map(bookmark =>
+        [bookmark.time.toISOString(), bookmark.label, bookmark.createdAt.toISOString()].map(escapeCsvValue).join(',')
+    );
+    return [CSV_HEADER.join(','), ...lines].join('\r\n');
+};
+
+/**
+ * Разбирает файл закладок. Бросает ошибку, если в файле нет ни одной корректной закладки
+ */
+export const parseBookmarks = (text: string, fileFormat: BookmarksFileFormat): Bookmark[] => {
+    let items: unknown[];
+
+    if (fileFormat === 'json') {
+        const parsed: unknown = JSON.parse(text);
+        if (!Array.isArray(parsed)) {
+            throw new Error('Ожидается массив закладок');
+        }
+        items = parsed;
+    } else {
+        const rows = parseCsvRows(text);
+        const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+        const hasHeader = header.includes('time');
+        const timeIndex = hasHeader ? header.indexOf('time') : 0;
+        const labelIndex = hasHeader ? header.indexOf('label') : 1;
+        const createdAtIndex = hasHeader ? header.indexOf('created_at') : 2;
+
+        items = (hasHeader ? rows.slice(1) : rows).map(cells => ({
+            time: cells[timeIndex]?.trim(),
+            label: labelIndex >= 0 ? cells[labelIndex] : '',
+            createdAt: createdAtIndex >= 0 ? cells[createdAtIndex]?.trim() : undefined
+        }));
+    }
+
+    const bookmarks = parseStoredItems(items, fromStored);
+    if (items.length > 0 && bookmarks.length === 0) {
+        throw new Error('В файле нет корректных закладок');
+    }
+
+    return sortBookmarks(bookmarks);
+};
+
+/**
+ * Объединяет закладки, пропуская импортируемые с уже существующим id или тем же моментом и подписью
+ */
+export const mergeBookmarks = (current: Bookmark[], imported: Bookmark[]): Bookmark[] => {
+    const result = [...current];
+
+    imported.forEach(bookmark => {
+        const isDuplicate = result.some(
+            existing =>
+                existing.id === bookmark.id ||
+                (existing.time.getTime() === bookmark.time.getTime() && existing.label === bookmark.label)
+        );
+        if (!isDuplicate) {
+            result.push(bookmark);
+        }
+    });
+
+    return sortBookmarks(result);
+};
+
+export const getBookmarksFileName = (camera: number, fileFormat: BookmarksFileFormat): string =>
+    `bookmarks_camera${camera}_${format(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.${fileFormat}`;
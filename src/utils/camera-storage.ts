@@ -0,0 +1,74 @@
+/**
+ * Хранение пользовательских списков камеры (закладки, пресеты фильтра движения) в localStorage
+ * и общие помощники для разбора их записей
+ */
+
+/**
+ * Ключ хранилища списка камеры. Совпадает по составу с ключом кэша фреймов таймлайна
+ */
+export const getCameraStorageKey = (prefix: string, camera: number, url: string, port: number): string =>
+    `${prefix}:${camera}-${url}-${port}`;
+
+/**
+ * Идентификатор записи, созданной в браузере (закладки, пресета, задания экспорта)
+ */
+export const createLocalId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Дата из сохраненного значения (ISO-строка или метка времени); null, если значение не является датой
+ */
+export const parseStoredDate = (value: unknown): Date | null => {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Восстанавливает записи списка; некорректные записи отбрасываются
+ */
+export const parseStoredItems = <T>(items: unknown[], fromStored: (value: unknown) => T | null): T[] =>
+    items.map(fromStored).filter((item): item is T => item !== null);
+
+/**
+ * Читает список из localStorage. Если данных нет или они повреждены, возвращает пустой список
+ *
+ * @param description Что хранится, для сообщения об ошибке (например, 'закладки')
+ */
+export const loadStoredList = <T>(
+    storageKey: string,
+    fromStored: (value: unknown) => T | null,
+    description: string
+): T[] => {
+    try {
+        const raw = window.localStorage.getItem(storageKey);
+        if (!raw) return [];
+        const parsed: unknown = JSON.parse(raw);
+        if (!Array.isArray(parsed)) return [];
+        return parseStoredItems(parsed, fromStored);
+    } catch (error) {
+        console.warn(`Не удалось прочитать ${description} из localStorage`, error);
+        return [];
+    }
+};
+
+/**
+ * Сохраняет список в localStorage; пустой список удаляет ключ
+ *
+ * @param description Что хранится, для сообщения об ошибке (например, 'закладки')
+ */
+export const saveStoredList = <T>(
+    storageKey: string,
+    items: T[],
+    toStored: (item: T) => unknown,
+    description: string
+): void => {
+    try {
+        if (items.length === 0) {
+            window.localStorage.removeItem(storageKey);
+            return;
+        }
+        window.localStorage.setItem(storageKey, JSON.stringify(items.map(toStored)));
+    } catch (error) {
+        console.warn(`Не удалось сохранить ${description} в localStorage`, error);
+    }
+};
@@ -0,0 +1,47 @@
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Минимальный типизированный эмиттер событий.
+ * EventMap описывает имена событий и тип передаваемых данных
+ */
+export class TypedEventEmitter<EventMap extends object> {
+    private handlers: {[K in keyof EventMap]?: Set<EventHandler<EventMap[K]>>} = {};
+
+    on<K extends keyof EventMap>(event: K, handler: EventHandler<EventMap[K]>): void {
+        let set = this.handlers[event];
+        if (!set) {
+            set = new Set();
+            this.handlers[event] = set;
+        }
+        set.add(handler);
+    }
+
+    /**
+     * Отписывает обработчик; без обработчика снимает все подписки на событие
+     */
+    off<K extends keyof EventMap>(event: K, handler?: EventHandler<EventMap[K]>): void {
+        if (!handler) {
+            delete this.handlers[event];
+            return;
+        }
+        this.handlers[event]?.delete(handler);
+    }
+
+    emit<K extends keyof EventMap>(event: K, payload: EventMap[K]): void {
+        const set = this.handlers[event];
+        if (!set) return;
+
+        // Копируем, чтобы отписка внутри обработчика не влияла на текущий обход
+        Array.from(set).forEach(handler => {
+            try {
+                handler(payload);
+            } catch (error) {
+                console.error(`Ошибка в обработчике события ${String(event)}:`, error);
+            }
+        });
+    }
+
+    clear(): void {
+        this.handlers = {};
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * Пакет для передачи записей (например, по запросу правоохранительных органов): видеофайлы,
+ * манифест с описанием экспорта и контрольные суммы SHA-256. Хеши видеофайлов считаются по мере загрузки
+ */
+import {EvidenceInfo} from '../types/export';
+import {sha256Hex} from './sha256';
+import {ZipEntry} from './zip';
+
+export const EVIDENCE_MANIFEST_FILE = 'manifest.json';
+export const EVIDENCE_CHECKSUMS_FILE = 'SHA256SUMS.txt';
+
+export interface EvidenceFile {
+    name: string;
+    start: Date;
+    end: Date;
+    data: Blob;
+    /** CRC-32 данных, посчитанная при загрузке */
+    crc32: number;
+    /** SHA-256 данных в шестнадцатеричном виде, посчитанный при загрузке; обязателен для пакета */
+    sha256?: string;
+}
+
+type HashedEvidenceFile = EvidenceFile & {sha256: string};
+
+const isHashedEvidenceFile = (file: EvidenceFile): file is HashedEvidenceFile => typeof file.sha256 === 'string';
+
+interface EvidenceManifestFile {
+    name: string;
+    start: string;
+    end: string;
+    size: number;
+    sha256: string;
+}
+
+export interface EvidenceManifest {
+    format: 'devline-evidence';
+    version: 1;
+    camera: {id: number; name: string | null};
+    server: string;
+    operator: string;
+    requestedRange: {start: string; end: string};
+    /** Границы фактически выгруженных записей */
+    actualRange: {start: string; end: string};
+    exportedAt: string;
+    hashAlgorithm: 'SHA-256';
+    files: EvidenceManifestFile[];
+}
+
+/**
+ * Собирает файлы пакета: видео, манифест и список контрольных сумм в формате sha256sum
+ */
+export const buildEvidenceEntries = (
+    files: EvidenceFile[],
+    info: EvidenceInfo,
+    requestedRange: {start: Date; end: Date},
+    exportedAt: Date = new Date()
+): ZipEntry[] => {
+    if (files.length === 0) {
+        throw new Error('Пакет не содержит файлов');
+    }
+    const hashedFiles = files.filter(isHashedEvidenceFile);
+    if (hashedFiles.length !== files.length) {
+        throw new Error('Для файлов пакета не посчитаны контрольные суммы');
+    }
+
+    const manifestFiles: EvidenceManifestFile[] = hashedFiles.map(file => ({
+        name: file.name,
+        start: file.start.toISOString(),
+        end: file.end.toISOString(),
+        size: file.data.size,
+        sha256: file.sha256
+    }));
+
+    const manifest: EvidenceManifest = {
+        format: 'devline-evidence',
+        version: 1,
+        camera: {id: info.cameraId, name: info.cameraName ?? null},
+        server: info.server,
+        operator: info.operator,
+        requestedRange: {start: requestedRange.start.toISOString(), end: requestedRange.end.toISOString()},
+        actualRange: {
+            start: new Date(Math.min(...files.map(file => file.start.getTime()))).toISOString(),
+            end: new Date(Math.max(...files.map(file => file.end.getTime()))).toISOString()
+        },
+        exportedAt: exportedAt.toISOString(),
+        hashAlgorithm: 'SHA-256',
+        files: manifestFiles
+    };
+
+    const encoder = new TextEncoder();
+    const manifestData = encoder.encode(JSON.stringify(manifest, null, 2));
+    const checksums = [
+        ...manifestFiles.map(file => `${file.sha256}  ${file.name}`),
+        `${sha256Hex(manifestData)}  ${EVIDENCE_MANIFEST_FILE}`
+    ].join('\n');
+
+    return [
+        ...files.map(file => ({name: file.name, data: file.data, crc32: file.crc32, modifiedAt: file.start})),
+        {name: EVIDENCE_MANIFEST_FILE, data: manifestData, modifiedAt: exportedAt},
+        {name: EVIDENCE_CHECKSUMS_FILE, data: encoder.encode(`${checksums}\n`), modifiedAt: exportedAt}
+    ];
+};
@@ -0,0 +1,486 @@
+/**
+ * Очередь экспорта фрагментов архива. MP4 загружается через fetch потоком, чтобы показывать прогресс,
+ * отменять загрузку и сообщать об ошибках сервера. В памяти собираются только файлы до MAX_BUFFERED_FILE_BYTES:
+ * длинные периоды, большие файлы и ответы без CORS-заголовков сохраняются браузером по обычной ссылке.
+ * Период с пропусками записи может выгружаться по записанным фрагментам: одним ZIP или файлами с плейлистом
+ */
+import {format} from 'date-fns';
+
+import {ExportJob, ExportRequest, ExportSegment} from '../types/export';
+import {TypedEventEmitter} from './event-emitter';
+import {DevlineTransport, fetchTransport} from './transport';
+import {clickA} from './url-params';
+import {createLocalId} from './camera-storage';
+import {buildEvidenceEntries, EvidenceFile} from './evidence';
+import {Sha256} from './sha256';
+import {createZipArchive, getZipArchiveSize, MAX_ZIP_SIZE, updateCrc32, ZipEntry} from './zip';
+
+/** Количество одновременно загружаемых файлов; остальные ждут в очереди */
+const MAX_CONCURRENT_EXPORTS = 1;
+/** Минимальный интервал между уведомлениями о прогрессе */
+const PROGRESS_EMIT_INTERVAL_MS = 250;
+/** Максимальная длина текста ответа сервера в сообщении об ошибке */
+const MAX_ERROR_TEXT_LENGTH = 200;
+/** Предел размера файла, который собирается в памяти; файлы больше сохраняются по ссылке */
+const MAX_BUFFERED_FILE_BYTES = 256 * 1024 * 1024;
+/** Файлы длиннее этого периода сохраняются по ссылке сразу, без попытки загрузки через fetch, сек */
+const MAX_BUFFERED_FILE_SECONDS = 30 * 60;
+/** Запас под манифест и список контрольных сумм пакета evidence при проверке предела размера ZIP */
+const EVIDENCE_FILES_RESERVE_BYTES = 1024 * 1024;
+
+export interface ExportManagerEvents {
+    change: ExportJob[];
+}
+
+export class ExportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExportError';
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+type ProgressHandler = (receivedBytes: number, totalBytes: number | null) => void;
+
+interface DownloadOptions {
+    onProgress: ProgressHandler;
+    /** Предел размера файла: при превышении загрузка прекращается и возвращается null */
+    maxBytes?: number;
+    /** Вызывается для каждой полученной порции данных (например, для подсчета контрольной суммы) */
+    onChunk?: (chunk: Uint8Array) => void;
+}
+
+interface DownloadedSegment {
+    segment: ExportSegment;
+    blob: Blob;
+}
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} Б`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} МБ`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} ГБ`;
+};
+
+/**
+ * Формирует понятное сообщение об ошибке из ответа сервера, который не является видеофайлом
+ */
+const readServerError = async (response: Response): Promise<string> => {
+    let details = '';
+    try {
+        details = (await response.text()).trim().slice(0, MAX_ERROR_TEXT_LENGTH);
+    } catch {
+        // Тело ответа недоступно - ограничиваемся статусом
+    }
+    const status = response.ok ? '' : ` ${response.status}`;
+    return details ? `Сервер вернул ошибку${status}: ${details}` : `Сервер вернул ошибку${status}`;
+};
+
+const getDurationSeconds = (start: Date, end: Date): number => Math.max(0, (end.getTime() - start.getTime()) / 1000);
+
+const saveBlob = (blob: Blob, fileName: string) => {
+    const objectUrl = URL.createObjectURL(blob);
+    clickA(objectUrl, fileName);
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+};
+
+/**
+ * Плейлист M3U со списком сохраненных файлов фрагментов (имена относительно папки загрузки)
+ */
+const buildPlaylist = (segments: ExportSegment[]): string =>
+    [
+        '#EXTM3U',
+        ...segments.flatMap(segment => [
+            `#EXTINF:${Math.round(getDurationSeconds(segment.start, segment.end))},${format(
+                segment.start,
+                'dd.MM.yyyy HH:mm:ss'
+            )} - ${format(segment.end, 'dd.MM.yyyy HH:mm:ss')}`,
+            `${segment.fileName}.mp4`
+        ])
+    ].join('\n');
+
+export class ExportManager {
+    private jobs: ExportJob[] = [];
+    private readonly controllers = new Map<string, AbortController>();
+    private readonly events = new TypedEventEmitter<ExportManagerEvents>();
+    private readonly transport: DevlineTransport;
+
+    constructor(transport: DevlineTransport = fetchTransport) {
+        this.transport = transport;
+    }
+
+    on(handler: (jobs: ExportJob[]) => void): void {
+        this.events.on('change', handler);
+    }
+
+    off(handler: (jobs: ExportJob[]) => void): void {
+        this.events.off('change', handler);
+    }
+
+    getJobs(): ExportJob[] {
+        return this.jobs;
+    }
+
+    enqueue(request: ExportRequest): ExportJob {
+        const job: ExportJob = {
+            ...request,
+            id: createLocalId(),
+            packaging: request.packaging ?? 'single',
+            segments: request.segments ?? [],
+            completedSegments: 0,
+            status: 'queued',
+            progress: null,
+            receivedBytes: 0,
+            totalBytes: null,
+            estimatedSecondsLeft: null
+        };
+        this.jobs = [...this.jobs, job];
+        this.emitChange();
+        this.processQueue();
+        return job;
+    }
+
+    cancel(id: string): void {
+        const job = this.findJob(id);
+        if (!job || (job.status !== 'queued' && job.status !== 'downloading')) return;
+
+        this.controllers.get(id)?.abort();
+        this.controllers.delete(id);
+        this.updateJob(id, {status: 'cancelled', estimatedSecondsLeft: null});
+        this.processQueue();
+    }
+
+    retry(id: string): void {
+        const job = this.findJob(id);
+        if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+        this.updateJob(id, {
+            status: 'queued',
+            completedSegments: 0,
+            progress: null,
+            receivedBytes: 0,
+            totalBytes: null,
+            estimatedSecondsLeft: null,
+            error: undefined,
+            savedByLink: undefined
+        });
+        this.processQueue();
+    }
+
+    /**
+     * Убирает задание из списка; активная загрузка при этом отменяется
+     */
+    remove(id: string): void {
+        this.controllers.get(id)?.abort();
+        this.controllers.delete(id);
+        this.jobs = this.jobs.filter(job => job.id !== id);
+        this.emitChange();
+        this.processQueue();
+    }
+
+    /**
+     * Отменяет все загрузки и снимает подписки
+     */
+    dispose(): void {
+        this.controllers.forEach(controller => controller.abort());
+        this.controllers.clear();
+        this.jobs = [];
+        this.events.clear();
+    }
+
+    private findJob(id: string): ExportJob | undefined {
+        return this.jobs.find(job => job.id === id);
+    }
+
+    private updateJob(id: string, patch: Partial<ExportJob>): void {
+        this.jobs = this.jobs.map(job => (job.id === id ? {...job, ...patch} : job));
+        this.emitChange();
+    }
+
+    private emitChange(): void {
+        this.events.emit('change', this.jobs);
+    }
+
+    private processQueue(): void {
+        const activeCount = this.jobs.filter(job => job.status === 'downloading').length;
+        const queued = this.jobs.filter(job => job.status === 'queued');
+
+        queued.slice(0, Math.max(0, MAX_CONCURRENT_EXPORTS - activeCount)).forEach(job => {
+            void this.run(job);
+        });
+    }
+
+    private async run(job: ExportJob): Promise<void> {
+        const controller = new AbortController();
+        this.controllers.set(job.id, controller);
+        this.updateJob(job.id, {status: 'downloading'});
+
+        try {
+            if (job.packaging === 'single') {
+                await this.exportSingle(job, controller.signal);
+            } else {
+                await this.exportSegments(job, controller.signal);
+            }
+            if (controller.signal.aborted) return;
+
+            this.updateJob(job.id, {status: 'completed', progress: 1, estimatedSecondsLeft: 0});
+        } catch (error) {
+            // Отмена или удаление задания - статус уже выставлен
+            if (controller.signal.aborted) return;
+
+            console.error('Ошибка экспорта архива', error);
+            const message =
+                error instanceof ExportError
+                    ? error.message
+                    : `Загрузка прервана: ${error instanceof Error ? error.message : String(error)}`;
+            this.updateJob(job.id, {status: 'failed', error: message, estimatedSecondsLeft: null});
+        } finally {
+            if (this.controllers.get(job.id) === controller) {
+                this.controllers.delete(job.id);
+            }
+            this.processQueue();
+        }
+    }
+
+    /**
+     * Обновляет прогресс задания и оценку оставшегося времени по скорости с начала загрузки
+     */
+    private reportProgress(id: string, startedAt: number, patch: Partial<ExportJob>): void {
+        const {progress} = patch;
+        const elapsedSeconds = (Date.now() - startedAt) / 1000;
+        const estimatedSecondsLeft =
+            progress !== null && progress !== undefined && progress > 0
+                ? (elapsedSeconds * (1 - progress)) / progress
+                : null;
+        this.updateJob(id, {...patch, estimatedSecondsLeft});
+    }
+
+    private async exportSingle(job: ExportJob, signal: AbortSignal): Promise<void> {
+        if (getDurationSeconds(job.start, job.end) > MAX_BUFFERED_FILE_SECONDS) {
+            this.saveByLink(job, job.url, `${job.fileName}.mp4`);
+            return;
+        }
+
+        const startedAt = Date.now();
+        const blob = await this.downloadOrLink(job.url, signal, (receivedBytes, totalBytes) => {
+            this.reportProgress(job.id, startedAt, {
+                receivedBytes,
+                totalBytes,
+                progress: totalBytes !== null ? Math.min(1, receivedBytes / totalBytes) : null
+            });
+        });
+        if (signal.aborted) return;
+
+        if (blob) {
+            saveBlob(blob, `${job.fileName}.mp4`);
+        } else {
+            this.saveByLink(job, job.url, `${job.fileName}.mp4`);
+        }
+    }
+
+    /**
+     * Передает файл браузеру по прямой ссылке: он сохраняется на диск потоком, без сборки в памяти.
+     * Прогресс и ошибки такой загрузки показывает менеджер загрузок браузера
+     */
+    private saveByLink(job: ExportJob, url: string, fileName: string): void {
+        clickA(this.transport.resolveMediaUrl(url), fileName);
+        this.updateJob(job.id, {savedByLink: true});
+    }
+
+    /**
+     * Загружает файл в память; null - файл нужно сохранить по ссылке: он больше MAX_BUFFERED_FILE_BYTES
+     * или fetch не прошел на сетевом уровне (например, сервер не отдает CORS-заголовки)
+     */
+    private async downloadOrLink(url: string, signal: AbortSignal, onProgress: ProgressHandler): Promise<Blob | null> {
+        try {
+            return await this.download(url, signal, {onProgress, maxBytes: MAX_BUFFERED_FILE_BYTES});
+        } catch (error) {
+            if (error instanceof TypeError && !signal.aborted) {
+                console.warn('Загрузка через fetch недоступна, файл сохраняется по ссылке', error);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Загружает записанные фрагменты по очереди. Прогресс считается по длительности фрагментов
+     */
+    private async exportSegments(job: ExportJob, signal: AbortSignal): Promise<void> {
+        if (job.segments.length === 0) {
+            throw new ExportError('В выбранном периоде нет записанных фрагментов');
+        }
+        if (job.packaging === 'evidence' && !job.evidence) {
+            throw new ExportError('Не переданы сведения для манифеста пакета');
+        }
+
+        const startedAt = Date.now();
+        const durations = job.segments.map(segment => getDurationSeconds(segment.start, segment.end));
+        const totalDuration = durations.reduce((sum, duration) => sum + duration, 0) || 1;
+        const downloaded: DownloadedSegment[] = [];
+        const archiveFiles: EvidenceFile[] = [];
+        const isArchive = job.packaging === 'zip' || job.packaging === 'evidence';
+        // Заголовки архива и служебные файлы пакета evidence (манифест и контрольные суммы - единицы КБ)
+        const archiveOverhead = isArchive
+            ? getZipArchiveSize(
+                  job.segments.map(segment => `${segment.fileName}.mp4`),
+                  job.packaging === 'evidence' ? EVIDENCE_FILES_RESERVE_BYTES : 0
+              )
+            : 0;
+        let completedDuration = 0;
+        let completedBytes = 0;
+
+        for (let i = 0; i < job.segments.length; i++) {
+            const segment = job.segments[i];
+            const handleProgress: ProgressHandler = (receivedBytes, totalBytes) => {
+                const segmentShare = totalBytes !== null ? Math.min(1, receivedBytes / totalBytes) : 0;
+                this.reportProgress(job.id, startedAt, {
+                    receivedBytes: completedBytes + receivedBytes,
+                    progress: (completedDuration + segmentShare * durations[i]) / totalDuration
+                });
+            };
+
+            if (isArchive) {
+                // Фрагмент, который не помещается в архив, отклоняется по Content-Length до загрузки его данных.
+                // Контрольные суммы считаются по порциям во время загрузки, повторно файл не читается
+                let crc = 0;
+                const hash = job.packaging === 'evidence' ? new Sha256() : null;
+                const blob = await this.download(segment.url, signal, {
+                    onProgress: handleProgress,
+                    maxBytes: MAX_ZIP_SIZE - archiveOverhead - completedBytes,
+                    onChunk: chunk => {
+                        crc = updateCrc32(crc, chunk);
+                        hash?.update(chunk);
+                    }
+                });
+                if (signal.aborted) return;
+                if (!blob) {
+                    throw new ExportError('Размер архива превышает 4 ГБ: выберите период короче или сохраните файлами');
+                }
+                archiveFiles.push({
+                    name: `${segment.fileName}.mp4`,
+                    start: segment.start,
+                    end: segment.end,
+                    data: blob,
+                    crc32: crc,
+                    sha256: hash?.digestHex()
+                });
+                completedBytes += blob.size;
+            } else {
+                // Отдельные файлы плейлиста не обязаны проходить через память: длинные и большие сохраняются по ссылке
+                const blob =
+                    durations[i] > MAX_BUFFERED_FILE_SECONDS
+                        ? null
+                        : await this.downloadOrLink(segment.url, signal, handleProgress);
+                if (signal.aborted) return;
+
+                if (blob) {
+                    downloaded.push({segment, blob});
+                    completedBytes += blob.size;
+                } else {
+                    this.saveByLink(job, segment.url, `${segment.fileName}.mp4`);
+                }
+            }
+            completedDuration += durations[i];
+            this.reportProgress(job.id, startedAt, {
+                completedSegments: i + 1,
+                receivedBytes: completedBytes,
+                progress: completedDuration / totalDuration
+            });
+        }
+
+        if (isArchive) {
+            try {
+                const entries: ZipEntry[] =
+                    job.packaging === 'evidence' && job.evidence
+                        ? buildEvidenceEntries(archiveFiles, job.evidence, {start: job.start, end: job.end})
+                        : archiveFiles.map(file => ({
+                              name: file.name,
+                              data: file.data,
+                              crc32: file.crc32,
+                              modifiedAt: file.start
+                          }));
+                if (signal.aborted) return;
+
+                saveBlob(createZipArchive(entries), `${job.fileName}.zip`);
+            } catch (error) {
+                throw new ExportError(error instanceof Error ? error.message : String(error));
+            }
+            return;
+        }
+
+        // Браузер может запросить разрешение на сохранение нескольких файлов подряд
+        downloaded.forEach(({segment, blob}) => saveBlob(blob, `${segment.fileName}.mp4`));
+        saveBlob(new Blob([buildPlaylist(job.segments)], {type: 'audio/x-mpegurl'}), `${job.fileName}.m3u`);
+    }
+
+    /**
+     * Загружает файл потоком. При заданном maxBytes возвращает null, как только выясняется, что файл больше:
+     * по Content-Length до чтения тела или по объему уже полученных данных
+     */
+    private async download(
+        url: string,
+        signal: AbortSignal,
+        {onProgress, maxBytes, onChunk}: DownloadOptions
+    ): Promise<Blob | null> {
+        const response = await this.transport.fetch(url, {signal});
+
+        // Вместо видео сервер может вернуть описание ошибки (например, при отсутствии записи)
+        const contentType = response.headers.get('Content-Type') ?? '';
+        if (!response.ok || /json|text|xml/i.test(contentType)) {
+            throw new ExportError(await readServerError(response));
+        }
+
+        const contentLength = Number(response.headers.get('Content-Length'));
+        const totalBytes = contentLength > 0 ? contentLength : null;
+        if (maxBytes !== undefined && totalBytes !== null && totalBytes > maxBytes) {
+            void response.body?.cancel();
+            return null;
+        }
+        onProgress(0, totalBytes);
+
+        if (!response.body) {
+            const blob = await response.blob();
+            if (maxBytes !== undefined && blob.size > maxBytes) return null;
+            onChunk?.(new Uint8Array(await blob.arrayBuffer()));
+            onProgress(blob.size, totalBytes);
+            return blob;
+        }
+
+        const reader = response.body.getReader();
+        const chunks: Uint8Array[] = [];
+        let receivedBytes = 0;
+        let lastEmitAt = 0;
+
+        for (;;) {
+            const {done, value} = await reader.read();
+            if (done) break;
+
+            chunks.push(value);
+            receivedBytes += value.byteLength;
+            if (maxBytes !== undefined && receivedBytes > maxBytes) {
+                void reader.cancel();
+                return null;
+            }
+            onChunk?.(value);
+
+            const now = Date.now();
+            if (now - lastEmitAt >= PROGRESS_EMIT_INTERVAL_MS) {
+                lastEmitAt = now;
+                onProgress(receivedBytes, totalBytes);
+            }
+        }
+
+        if (totalBytes !== null && receivedBytes < totalBytes) {
+            throw new ExportError(
+                `Соединение оборвалось: получено ${formatBytes(receivedBytes)} из ${formatBytes(totalBytes)}`
+            );
+        }
+        if (receivedBytes === 0) {
+            throw new ExportError('Сервер вернул пустой файл');
+        }
+
+        onProgress(receivedBytes, totalBytes);
+        return new Blob(chunks, {type: 'video/mp4'});
+    }
+}
@@ -0,0 +1,14 @@
+import {describe, expect, it} from '@jest/globals';
+
+import {FAST_FORWARD_MIN_VERSION, FAST_FORWARD_SPEEDS, getSupportedFastForwardSpeeds} from './fast-forward';
+
+describe('getSupportedFastForwardSpeeds', () => {
+    it('не предлагает ускоренный просмотр серверам старше минимальной версии', () => {
+        expect(getSupportedFastForwardSpeeds(null)).toEqual([]);
+        expect(getSupportedFastForwardSpeeds(FAST_FORWARD_MIN_VERSION - 1)).toEqual([]);
+    });
+
+    it('предлагает все скорости ускоренного просмотра серверам с минимальной версии', () => {
+        expect(getSupportedFastForwardSpeeds(FAST_FORWARD_MIN_VERSION)).toEqual(FAST_FORWARD_SPEEDS);
+    });
+});
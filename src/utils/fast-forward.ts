@@ -0,0 +1,25 @@
+/**
+ * Ускоренный просмотр архива на стороне сервера. С параметром speed сервер отдает поток только из опорных
+ * кадров, в котором секунда видео соответствует speed секундам архива. Браузер воспроизводит такой поток
+ * с обычной скоростью и не загружает все кадры, как при увеличении playbackRate.
+ * Серверы старше FAST_FORWARD_MIN_VERSION параметр speed не знают: для них ускорение ограничено браузером
+ */
+
+/** Скорости, для которых используется поток сервера, если сервер их поддерживает */
+export const FAST_FORWARD_SPEEDS = [16, 32, 64];
+
+/** Поток ускоренного просмотра сервер отдает начиная с этой версии API */
+export const FAST_FORWARD_MIN_VERSION = 92;
+
+/** Наибольшая скорость, с которой браузер воспроизводит обычный поток */
+export const MAX_CLIENT_PLAYBACK_SPEED = 4;
+
+export const isFastForwardSpeed = (speed: number): boolean => speed > MAX_CLIENT_PLAYBACK_SPEED;
+
+/**
+ * Скорости ускоренного просмотра, которые поддерживает сервер указанной версии
+ */
+export const getSupportedFastForwardSpeeds = (serverVersion: number | null | undefined): number[] =>
+    serverVersion !== null && serverVersion !== undefined && serverVersion >= FAST_FORWARD_MIN_VERSION
+        ? FAST_FORWARD_SPEEDS
+        : [];
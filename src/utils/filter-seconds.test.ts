@@ -0,0 +1,49 @@
+import {describe, expect, it} from '@jest/globals';
+
+import {buildFilterSecondsBatch} from './filter-seconds';
+
+const bufferStart = new Date(2026, 0, 16, 8, 0, 0);
+const at = (seconds: number): Date => new Date(bufferStart.getTime() + seconds * 1000);
+
+describe('buildFilterSecondsBatch', () => {
+    it('обрезает участок, не поместившийся в порцию, и продолжает следующую порцию с места обрезки', () => {
+        const batch = buildFilterSecondsBatch({
+            fragments: [1, 1, 0, 1, 1, 1],
+            bufferStart,
+            bufferEnd: at(60),
+            unitLengthSeconds: 10,
+            baseTime: bufferStart,
+            now: at(3600),
+            maxDuration: 30
+        });
+
+        expect(batch).toEqual({value: '0,20;30,10;', startTime: bufferStart, nextTime: at(40)});
+    });
+
+    it('не добавляет участок нулевой длины, когда предыдущие участки заполнили порцию целиком', () => {
+        const batch = buildFilterSecondsBatch({
+            fragments: [1, 1, 0, 1, 0, 1, 1],
+            bufferStart,
+            bufferEnd: at(70),
+            unitLengthSeconds: 10,
+            baseTime: bufferStart,
+            now: at(3600),
+            maxDuration: 30
+        });
+
+        expect(batch).toEqual({value: '0,20;30,10;', startTime: bufferStart, nextTime: at(50)});
+    });
+
+    it('не ожидает следующей порции, если данные доходят до текущего времени', () => {
+        const batch = buildFilterSecondsBatch({
+            fragments: [0, 1, 1],
+            bufferStart,
+            bufferEnd: at(30),
+            unitLengthSeconds: 10,
+            baseTime: at(15),
+            now: at(30)
+        });
+
+        expect(batch).toEqual({value: '0,15;', startTime: at(15), nextTime: null});
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Построение параметра filter_seconds: сервер воспроизводит только перечисленные участки архива.
+ * Участки задаются парами "смещение от time,длительность" в секундах. Длинный отфильтрованный
+ * период передается порциями: длина URL ограничена, а данные таймлайна загружены только вокруг
+ * видимой области
+ */
+
+/** Суммарная длительность участков в одной порции, сек */
+export const FILTER_SECONDS_BATCH_DURATION = 300;
+
+export interface FilterSecondsBatch {
+    /** Значение параметра filter_seconds относительно baseTime */
+    value: string;
+    /** Начало первого участка порции */
+    startTime: Date;
+    /** Момент, с которого строится следующая порция; null, если архив после порции не ожидается */
+    nextTime: Date | null;
+}
+
+interface BuildFilterSecondsBatchParams {
+    /** Наличие кадров по единицам времени, как в данных таймлайна */
+    fragments: number[];
+    bufferStart: Date;
+    bufferEnd: Date;
+    unitLengthSeconds: number;
+    /** Время, от которого отсчитываются смещения (параметр time потока) */
+    baseTime: Date;
+    /** Текущее время сервера: после него архива нет */
+    now: Date;
+    maxDuration?: number;
+}
+
+/**
+ * Собирает порцию участков, начиная с baseTime. Участки до baseTime отбрасываются,
+ * участок, начавшийся раньше, обрезается. Возвращает null, если после baseTime в загруженных
+ * данных нет ни одного участка
+ */
+export const buildFilterSecondsBatch = ({
+    fragments,
+    bufferStart,
+    bufferEnd,
+    unitLengthSeconds,
+    baseTime,
+    now,
+    maxDuration = FILTER_SECONDS_BATCH_DURATION
+}: BuildFilterSecondsBatchParams): FilterSecondsBatch | null => {
+    const unitLengthMs = unitLengthSeconds * 1000;
+    const baseTimeMs = baseTime.getTime();
+    const ranges: Array<{start: number; duration: number}> = [];
+    let totalDuration = 0;
+    let truncatedAt: number | null = null;
+    let rangeStartIndex: number | null = null;
+
+    for (let i = 0; i <= fragments.length && truncatedAt === null; i++) {
+        if (i < fragments.length && fragments[i] > 0) {
+            if (rangeStartIndex === null) rangeStartIndex = i;
+            continue;
+        }
+        if (rangeStartIndex === null) continue;
+
+        const rangeStart = Math.max(bufferStart.getTime() + rangeStartIndex * unitLengthMs, baseTimeMs);
+        const rangeEnd = bufferStart.getTime() + i * unitLengthMs;
+        rangeStartIndex = null;
+
+        if (rangeEnd <= rangeStart) continue;
+
+        const duration = (rangeEnd - rangeStart) / 1000;
+        const remaining = maxDuration - totalDuration;
+
+        // Порция уже заполнена предыдущими участками: этот участок начнет следующую порцию
+        if (remaining <= 0) {
+            truncatedAt = rangeStart;
+        } else if (duration > remaining) {
+            ranges.push({start: rangeStart, duration: remaining});
+            truncatedAt = rangeStart + remaining * 1000;
+        } else {
+            ranges.push({start: rangeStart, duration});
+            totalDuration += duration;
+        }
+    }
+
+    if (ranges.length === 0) return null;
+
+    const value = ranges.map(range => `${(range.start - baseTimeMs) / 1000},${range.duration}`).join(';') + ';';
+    // Без обрезки порция заканчивается вместе с загруженными данными; дальше архив есть, только если они не доходят до текущего времени
+    const nextTime =
+        truncatedAt !== null
+            ? new Date(truncatedAt)
+            : bufferEnd.getTime() < now.getTime()
+              ? new Date(bufferEnd.getTime())
+              : null;
+
+    return {value, startTime: new Date(ranges[0].start), nextTime};
+};
@@ -0,0 +1,267 @@
+/**
+ * Постоянный кэш посекундных данных таймлайна (archive.get_frames_timeline, unit_len=1) в IndexedDB.
+ * Сутки хранятся в компактном виде (битовая маска или RLE - что короче) по ключу сервер+учетные данные+камера+день.
+ * Текущие сутки не сохраняются, так как запись по ним еще продолжается. Записи старше MAX_RECORD_AGE_MS
+ * не используются (архив на сервере перезаписывается по кругу); при превышении лимита размера удаляются
+ * давно не использованные записи
+ */
+import {Protocol} from './types';
+
+const DB_NAME = 'devline-player-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'frames-days';
+
+/** Лимит суммарного размера закодированных данных */
+const MAX_CACHE_BYTES = 10 * 1024 * 1024;
+/** Срок жизни записи с момента сохранения */
+const MAX_RECORD_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+type FramesDayEncoding = 'bitset' | 'rle';
+
+interface FramesDayRecord {
+    key: string;
+    encoding: FramesDayEncoding;
+    /** Количество секунд в исходном массиве */
+    length: number;
+    data: ArrayBuffer;
+    size: number;
+    /** Время окончания суток, мс */
+    dayEnd: number;
+    savedAt: number;
+    lastAccess: number;
+}
+
+interface EncodedFramesDay {
+    encoding: FramesDayEncoding;
+    data: ArrayBuffer;
+}
+
+/**
+ * Посекундные данные дня в виде серий с кадрами: границы [start0, end0, start1, end1, ...], end не включается
+ */
+export interface FramesDayRuns {
+    length: number;
+    runs: Uint32Array;
+}
+
+/**
+ * Кодирует серии для хранения. RLE - длины чередующихся серий, начиная с серии нулей
+ */
+export const encodeFramesDay = ({length, runs}: FramesDayRuns): EncodedFramesDay => {
+    const bitset = new Uint8Array(Math.ceil(length / 8));
+    const runLengths: number[] = [];
+    let position = 0;
+
+    for (let i = 0; i < runs.length; i += 2) {
+        const start = runs[i];
+        const end = runs[i + 1];
+        for (let j = start; j < end; j++) {
+            bitset[j >> 3] |= 1 << (j & 7);
+        }
+        runLengths.push(start - position, end - start);
+        position = end;
+    }
+    if (position < length || runLengths.length === 0) {
+        runLengths.push(length - position);
+    }
+
+    const rle = new Uint32Array(runLengths);
+    return rle.byteLength < bitset.byteLength
+        ? {encoding: 'rle', data: rle.buffer}
+        : {encoding: 'bitset', data: bitset.buffer};
+};
+
+export const decodeFramesDay = (encoding: FramesDayEncoding, data: ArrayBuffer, length: number): FramesDayRuns => {
+    const bounds: number[] = [];
+
+    if (encoding === 'bitset') {
+        const bitset = new Uint8Array(data);
+        let runStart = -1;
+        for (let i = 0; i < length; i++) {
+            const hasFrame = (bitset[i >> 3] & (1 << (i & 7))) !== 0;
+            if (hasFrame && runStart === -1) {
+                runStart = i;
+            } else if (!hasFrame && runStart !== -1) {
+                bounds.push(runStart, i);
+                runStart = -1;
+            }
+        }
+        if (runStart !== -1) {
+            bounds.push(runStart, length);
+        }
+        return {length, runs: new Uint32Array(bounds)};
+    }
+
+    const runLengths = new Uint32Array(data);
+    let position = 0;
+    for (let i = 0; i < runLengths.length && position < length; i++) {
+        const end = Math.min(length, position + runLengths[i]);
+        // Нечетные серии - серии единиц
+        if (i % 2 === 1 && end > position) {
+            bounds.push(position, end);
+        }
+        position = end;
+    }
+    return {length, runs: new Uint32Array(bounds)};
+};
+
+export interface FramesCacheScope {
+    url: string;
+    port: number;
+    protocol?: Protocol;
+    proxy?: string;
+    credentials: string;
+    camera: number;
+}
+
+/**
+ * 32-битный FNV-1a: учетные данные входят в ключ, но не хранятся в IndexedDB в открытом виде
+ */
+const hashString = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+/**
+ * Ключ кэша камеры: разные серверы, маршруты через прокси и учетные данные не видят записи друг друга
+ */
+export const getFramesCacheKey = ({url, port, protocol, proxy, credentials, camera}: FramesCacheScope): string =>
+    [protocol ?? '', proxy ?? '', `${url}:${port}`, hashString(credentials), camera].join('|');
+
+const getRecordKey = (cacheKey: string, dayKey: string): string => `${cacheKey}|${dayKey}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Открывает базу один раз на страницу. Если IndexedDB недоступна (приватный режим, старый браузер),
+ * кэш просто не используется
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    db.createObjectStore(STORE_NAME, {keyPath: 'key'});
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('Кэш таймлайна в IndexedDB недоступен', request.error);
+                resolve(null);
+            };
+        } catch (error) {
+            console.warn('Кэш таймлайна в IndexedDB недоступен', error);
+            resolve(null);
+        }
+    });
+
+    return dbPromise;
+};
+
+/**
+ * Удаляет давно не использованные записи, пока суммарный размер превышает лимит
+ */
+const evictLeastRecentlyUsed = async (db: IDBDatabase): Promise<void> => {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const records = await requestToPromise(store.getAll() as IDBRequest<FramesDayRecord[]>);
+
+    let totalSize = records.reduce((sum, record) => sum + record.size, 0);
+    if (totalSize <= MAX_CACHE_BYTES) return;
+
+    const keysToDelete: string[] = [];
+    records
+        .sort((a, b) => a.lastAccess - b.lastAccess)
+        .forEach(record => {
+            if (totalSize > MAX_CACHE_BYTES) {
+                keysToDelete.push(record.key);
+                totalSize -= record.size;
+            }
+        });
+
+    const writeStore = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await Promise.all(keysToDelete.map(key => requestToPromise(writeStore.delete(key))));
+};
+
+/**
+ * Возвращает посекундные данные дня из кэша или null, если их нет или запись устарела
+ */
+export const readCachedFramesDay = async (cacheKey: string, dayKey: string): Promise<FramesDayRuns | null> => {
+    try {
+        const db = await openDatabase();
+        if (!db) return null;
+
+        const key = getRecordKey(cacheKey, dayKey);
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        const record = await requestToPromise(store.get(key) as IDBRequest<FramesDayRecord | undefined>);
+        if (!record) return null;
+
+        const now = Date.now();
+        if (now - record.savedAt > MAX_RECORD_AGE_MS) {
+            await requestToPromise(store.delete(key));
+            return null;
+        }
+
+        record.lastAccess = now;
+        await requestToPromise(store.put(record));
+
+        return decodeFramesDay(record.encoding, record.data, record.length);
+    } catch (error) {
+        console.warn('Не удалось прочитать кэш таймлайна', error);
+        return null;
+    }
+};
+
+/**
+ * Сохраняет посекундные данные завершившихся суток. Данные текущих и будущих суток не сохраняются
+ */
+export const writeCachedFramesDay = async (
+    cacheKey: string,
+    dayKey: string,
+    dayEnd: Date,
+    timeline: FramesDayRuns
+): Promise<void> => {
+    const now = Date.now();
+    if (dayEnd.getTime() > now) return;
+
+    try {
+        const db = await openDatabase();
+        if (!db) return;
+
+        const {encoding, data} = encodeFramesDay(timeline);
+        const record: FramesDayRecord = {
+            key: getRecordKey(cacheKey, dayKey),
+            encoding,
+            length: timeline.length,
+            data,
+            size: data.byteLength,
+            dayEnd: dayEnd.getTime(),
+            savedAt: now,
+            lastAccess: now
+        };
+
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        await requestToPromise(store.put(record));
+        await evictLeastRecentlyUsed(db);
+    } catch (error) {
+        console.warn('Не удалось сохранить кэш таймлайна', error);
+    }
+};
@@ -0,0 +1,111 @@
+import {EventsPlaybackSettings, MotionEvent} from '../types/motion-filter';
+
+/** Паузы короче этого значения (сек) не разделяют событие: объект мог на мгновение пропасть из кадра */
+export const MOTION_EVENT_MERGE_GAP_SECONDS = 3;
+
+/**
+ * При переходе к предыдущему событию текущее считается пройденным, если с его начала прошло больше
+ * этого времени (сек) - как кнопка "назад" в плеерах, которая сначала возвращает к началу трека
+ */
+const PREVIOUS_EVENT_THRESHOLD_SECONDS = 2;
+
+/**
+ * Собирает события из интервалов движения: сортирует, объединяет пересекающиеся и близкие интервалы
+ */
+export const buildMotionEvents = (
+    ranges: Array<{start: Date; end: Date}>,
+    mergeGapSeconds: number = MOTION_EVENT_MERGE_GAP_SECONDS
+): MotionEvent[] => {
+    const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const merged: Array<{start: number; end: number}> = [];
+
+    sorted.forEach(range => {
+        const start = range.start.getTime();
+        const end = range.end.getTime();
+        const last = merged[merged.length - 1];
+
+        if (last && start - last.end <= mergeGapSeconds * 1000) {
+            last.end = Math.max(last.end, end);
+        } else {
+            merged.push({start, end});
+        }
+    });
+
+    return merged.map(({start, end}) => ({
+        start: new Date(start),
+        end: new Date(end),
+        duration: (end - start) / 1000
+    }));
+};
+
+/**
+ * Индекс события, в которое попадает время, или -1
+ */
+export const findMotionEventIndexAt = (events: MotionEvent[], time: Date): number => {
+    const timeMs = time.getTime();
+    return events.findIndex(event => event.start.getTime() <= timeMs && timeMs < event.end.getTime());
+};
+
+/**
+ * Следующее событие после времени воспроизведения или null, если событий дальше нет
+ */
+export const findNextMotionEvent = (events: MotionEvent[], time: Date): MotionEvent | null =>
+    events.find(event => event.start.getTime() > time.getTime()) ?? null;
+
+/**
+ * Предыдущее событие: начало текущего, если с него прошло больше пары секунд, иначе событие перед ним
+ */
+export const findPreviousMotionEvent = (events: MotionEvent[], time: Date): MotionEvent | null => {
+    const thresholdMs = time.getTime() - PREVIOUS_EVENT_THRESHOLD_SECONDS * 1000;
+    for (let i = events.length - 1; i >= 0; i--) {
+        if (events[i].start.getTime() < thresholdMs) {
+            return events[i];
+        }
+    }
+    return null;
+};
+
+/**
+ * События, пересекающиеся с диапазоном, обрезанные по его границам
+ */
+export const clipMotionEventsToRange = (events: MotionEvent[], range: {start: Date; end: Date}): MotionEvent[] =>
+    events
+        .filter(event => event.end.getTime() > range.start.getTime() && event.start.getTime() < range.end.getTime())
+        .map(event => {
+            const start = Math.max(event.start.getTime(), range.start.getTime());
+            const end = Math.min(event.end.getTime(), range.end.getTime());
+            return {start: new Date(start), end: new Date(end), duration: (end - start) / 1000};
+        });
+
+/**
+ * Участки для воспроизведения только событий: события не короче минимальной длительности,
+ * расширенные на pre/post-roll; пересекающиеся после расширения участки объединяются
+ */
+export const buildEventsPlaybackRanges = (
+    events: MotionEvent[],
+    {preRollSeconds, postRollSeconds, minEventSeconds}: EventsPlaybackSettings
+): Array<{start: Date; end: Date}> =>
+    buildMotionEvents(
+        events
+            .filter(event => event.duration >= minEventSeconds)
+            .map(event => ({
+                start: new Date(event.start.getTime() - preRollSeconds * 1000),
+                end: new Date(event.end.getTime() + postRollSeconds * 1000)
+            })),
+        0
+    ).map(({start, end}) => ({start, end}));
+
+export type EventsPlaybackStep = {action: 'play'} | {action: 'seek'; time: Date} | {action: 'stop'};
+
+/**
+ * Что делать в момент воспроизведения: продолжать внутри участка, перейти к началу следующего
+ * или остановиться, если участков дальше нет
+ */
+export const getEventsPlaybackStep = (ranges: Array<{start: Date; end: Date}>, time: Date): EventsPlaybackStep => {
+    const timeMs = time.getTime();
+    const next = ranges.find(range => range.end.getTime() > timeMs);
+
+    if (!next) return {action: 'stop'};
+    if (next.start.getTime() <= timeMs) return {action: 'play'};
+    return {action: 'seek', time: next.start};
+};
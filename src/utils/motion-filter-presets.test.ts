@@ -0,0 +1,29 @@
+import {describe, expect, it} from '@jest/globals';
+
+import {parsePresets} from './motion-filter-presets';
+
+const serialize = (mask: unknown, types?: string[]): string =>
+    JSON.stringify([{id: 'preset', name: 'Вход', filter: {mask, types}, createdAt: '2026-01-16T08:00:00.000Z'}]);
+
+describe('parsePresets', () => {
+    it('принимает маску известного разрешения, закрывающую все ячейки', () => {
+        const [preset] = parsePresets(serialize({width: 16, height: 16, data: [100, 0, 156, 1]}));
+
+        expect(preset.filter.mask).toEqual({width: 16, height: 16, data: [100, 0, 156, 1]});
+    });
+
+    it.each([
+        ['неизвестного разрешения', {width: 10, height: 10, data: [100, 1]}],
+        ['с числом ячеек меньше размера сетки', {width: 8, height: 8, data: [10, 1]}],
+        ['с числом ячеек больше размера сетки', {width: 8, height: 8, data: [60, 0, 10, 1]}],
+        ['со значениями кроме 0 и 1', {width: 8, height: 8, data: [64, 2]}],
+        ['с нецелым количеством ячеек', {width: 8, height: 8, data: [63.5, 1, 0.5, 0]}],
+        ['с незавершенной парой', {width: 8, height: 8, data: [64, 1, 3]}]
+    ])('отклоняет маску %s', (_, mask) => {
+        expect(() => parsePresets(serialize(mask))).toThrow('В файле нет корректных пресетов');
+    });
+
+    it('отклоняет пресет с поврежденной маской, даже если в нем выбраны типы объектов', () => {
+        expect(() => parsePresets(serialize({width: 8, height: 8, data: [64, 5]}, ['human']))).toThrow();
+    });
+});
@@ -0,0 +1,153 @@
+import {format} from 'date-fns';
+
+import {
+    createMotionFilterSignature,
+    MotionFilterPreset,
+    MotionMaskPayload,
+    MOTION_OBJECT_TYPES,
+    MotionObjectType,
+    TimelineMotionFilter
+} from '../types/motion-filter';
+import {
+    createLocalId,
+    getCameraStorageKey,
+    loadStoredList,
+    parseStoredDate,
+    parseStoredItems,
+    saveStoredList
+} from './camera-storage';
+import {isValidMaskPayload} from './motion-mask';
+
+const STORAGE_PREFIX = 'devline-motion-presets';
+
+interface StoredPreset {
+    id: string;
+    name: string;
+    filter: TimelineMotionFilter;
+    createdAt: string;
+}
+
+export const getPresetsStorageKey = (camera: number, url: string, port: number): string =>
+    getCameraStorageKey(STORAGE_PREFIX, camera, url, port);
+
+export const sortPresets = (presets: MotionFilterPreset[]): MotionFilterPreset[] =>
+    [...presets].sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+
+const toStored = (preset: MotionFilterPreset): StoredPreset => ({
+    id: preset.id,
+    name: preset.name,
+    filter: preset.filter,
+    createdAt: preset.createdAt.toISOString()
+});
+
+const isNumberArray = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+const parseMask = (value: unknown): MotionMaskPayload | undefined => {
+    if (!value || typeof value !== 'object') return undefined;
+    const mask = value as Partial<Record<keyof MotionMaskPayload, unknown>>;
+
+    if (typeof mask.width !== 'number' || typeof mask.height !== 'number' || !isNumberArray(mask.data)) {
+        return undefined;
+    }
+
+    // Поврежденная маска исказила бы зоны в редакторе и в запросе к серверу
+    const payload: MotionMaskPayload = {width: mask.width, height: mask.height, data: mask.data};
+    return isValidMaskPayload(payload) ? payload : undefined;
+};
+
+/**
+ * Восстанавливает фильтр с тем же порядком полей, что и у фильтров плеера, чтобы совпадали сигнатуры
+ */
+const parseFilter = (value: unknown): TimelineMotionFilter | null => {
+    if (!value || typeof value !== 'object') return null;
+    const item = value as Partial<Record<keyof TimelineMotionFilter, unknown>>;
+
+    const mask = parseMask(item.mask);
+    if (item.mask !== undefined && !mask) return null;
+    const types = Array.isArray(item.types)
+        ? item.types.filter((type): type is MotionObjectType => MOTION_OBJECT_TYPES.includes(type as MotionObjectType))
+        : [];
+    if (!mask && types.length === 0) return null;
+
+    const filter: TimelineMotionFilter = {};
+    if (mask) filter.mask = mask;
+    if (types.length > 0) filter.types = types;
+    return filter;
+};
+
+/**
+ * Восстанавливает пресет из произвольного объекта; некорректные записи отбрасываются
+ */
+const fromStored = (value: unknown): MotionFilterPreset | null => {
+    if (!value || typeof value !== 'object') return null;
+    const item = value as Partial<Record<keyof StoredPreset, unknown>>;
+
+    const filter = parseFilter(item.filter);
+    if (!filter) return null;
+
+    return {
+        id: typeof item.id === 'string' && item.id ? item.id : createLocalId(),
+        name: typeof item.name === 'string' && item.name.trim() ? item.name.trim() : 'Без названия',
+        filter,
+        createdAt: parseStoredDate(item.createdAt) ?? new Date()
+    };
+};
+
+export const loadPresets = (storageKey: string): MotionFilterPreset[] =>
+    sortPresets(loadStoredList(storageKey, fromStored, 'пресеты фильтра'));
+
+export const savePresets = (storageKey: string, presets: MotionFilterPreset[]): void =>
+    saveStoredList(storageKey, presets, toStored, 'пресеты фильтра');
+
+export const serializePresets = (presets: MotionFilterPreset[]): string =>
+    JSON.stringify(sortPresets(presets).map(toStored), null, 2);
+
+/**
+ * Разбирает файл пресетов. Бросает ошибку, если в файле нет ни одного корректного пресета
+ */
+export const parsePresets = (text: string): MotionFilterPreset[] => {
+    const parsed: unknown = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+        throw new Error('Ожидается массив пресетов');
+    }
+
+    const presets = parseStoredItems(parsed, fromStored);
+    if (parsed.length > 0 && presets.length === 0) {
+        throw new Error('В файле нет корректных пресетов');
+    }
+    return sortPresets(presets);
+};
+
+/**
+ * Ищет пресет с тем же фильтром (маска и типы объектов)
+ */
+export const findPresetByFilter = (
+    presets: MotionFilterPreset[],
+    filter: TimelineMotionFilter | null | undefined
+): MotionFilterPreset | undefined => {
+    if (!filter) return undefined;
+    const signature = createMotionFilterSignature(filter);
+    return presets.find(preset => createMotionFilterSignature(preset.filter) === signature);
+};
+
+/**
+ * Объединяет пресеты, пропуская импортируемые с уже существующим id или тем же фильтром
+ */
+export const mergePresets = (current: MotionFilterPreset[], imported: MotionFilterPreset[]): MotionFilterPreset[] => {
+    const result = [...current];
+
+    imported.forEach(preset => {
+        const isDuplicate =
+            result.some(existing => existing.id === preset.id) ||
+            findPresetByFilter(result, preset.filter) !== undefined;
+        if (!isDuplicate) {
+            result.push(preset);
+        }
+    });
+
+    return sortPresets(result);
+};
+
+export const getPresetsFileName = (camera: number): string =>
+    `motion_presets_camera${camera}_${format(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.json`;
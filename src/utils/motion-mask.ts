@@ -0,0 +1,221 @@
+/**
+ * Маска зон поиска движения: сетка ячеек 0/1, которая передается серверу в RLE-формате
+ * (пары [количество, значение] по строкам сверху вниз)
+ */
+import {MotionMaskPayload} from '../types/motion-filter';
+
+export type MaskGrid = number[][];
+
+export interface MotionMaskResolution {
+    width: number;
+    height: number;
+}
+
+/** Точка в долях ширины и высоты кадра (0..1) */
+export interface MaskPoint {
+    x: number;
+    y: number;
+}
+
+export const DEFAULT_MASK_RESOLUTION: MotionMaskResolution = {width: 8, height: 8};
+
+/** Сетки выше 8x8 сервер принимает начиная с этой версии API */
+const HIGH_RESOLUTION_MASK_MIN_VERSION = 91;
+
+const HIGH_MASK_RESOLUTIONS: MotionMaskResolution[] = [
+    {width: 16, height: 16},
+    {width: 32, height: 24}
+];
+
+/** Все разрешения сетки, которые бывают у масок */
+export const MOTION_MASK_RESOLUTIONS: MotionMaskResolution[] = [DEFAULT_MASK_RESOLUTION, ...HIGH_MASK_RESOLUTIONS];
+
+/**
+ * Разрешения сетки, которые поддерживает сервер указанной версии
+ */
+export const getSupportedMaskResolutions = (serverVersion: number | null | undefined): MotionMaskResolution[] =>
+    serverVersion !== null && serverVersion !== undefined && serverVersion >= HIGH_RESOLUTION_MASK_MIN_VERSION
+        ? MOTION_MASK_RESOLUTIONS
+        : [DEFAULT_MASK_RESOLUTION];
+
+export const isSameResolution = (a: MotionMaskResolution, b: MotionMaskResolution): boolean =>
+    a.width === b.width && a.height === b.height;
+
+/**
+ * Проверяет маску из внешнего источника (файла, localStorage): известное разрешение сетки,
+ * пары [количество, значение] с целыми положительными количествами и значениями 0/1,
+ * сумма количеств равна числу ячеек
+ */
+export const isValidMaskPayload = (payload: MotionMaskPayload): boolean => {
+    if (!MOTION_MASK_RESOLUTIONS.some(resolution => isSameResolution(resolution, payload))) return false;
+    if (payload.data.length % 2 !== 0) return false;
+
+    let totalCells = 0;
+    for (let i = 0; i < payload.data.length; i += 2) {
+        const count = payload.data[i];
+        const value = payload.data[i + 1];
+        if (!Number.isInteger(count) || count <= 0 || (value !== 0 && value !== 1)) return false;
+        totalCells += count;
+    }
+    return totalCells === payload.width * payload.height;
+};
+
+export const getGridResolution = (grid: MaskGrid): MotionMaskResolution => ({
+    width: grid[0]?.length ?? 0,
+    height: grid.length
+});
+
+export const createFilledMaskGrid = (
+    resolution: MotionMaskResolution = DEFAULT_MASK_RESOLUTION,
+    fillValue: 0 | 1 = 0
+): MaskGrid => Array.from({length: resolution.height}, () => Array.from({length: resolution.width}, () => fillValue));
+
+export const gridFromMaskPayload = (payload: MotionMaskPayload): MaskGrid => {
+    const totalCells = payload.width * payload.height;
+    const values: number[] = [];
+
+    for (let i = 0; i < payload.data.length; i += 2) {
+        const count = payload.data[i];
+        const value = payload.data[i + 1] ?? 0;
+        for (let j = 0; j < count; j += 1) {
+            if (values.length >= totalCells) break;
+            values.push(value);
+        }
+    }
+
+    while (values.length < totalCells) {
+        values.push(0);
+    }
+
+    const grid: MaskGrid = [];
+    for (let row = 0; row < payload.height; row += 1) {
+        const start = row * payload.width;
+        grid.push(values.slice(start, start + payload.width));
+    }
+    return grid;
+};
+
+export const buildMaskPayload = (grid: MaskGrid): MotionMaskPayload => {
+    const {width, height} = getGridResolution(grid);
+    const flatValues = grid.reduce<number[]>((acc, row) => acc.concat(row), []);
+    if (flatValues.length === 0) {
+        return {width, height, data: []};
+    }
+
+    const data: number[] = [];
+    let currentValue = flatValues[0];
+    let count = 0;
+
+    flatValues.forEach(value => {
+        if (value === currentValue) {
+            count += 1;
+            return;
+        }
+        data.push(count, currentValue);
+        currentValue = value;
+        count = 1;
+    });
+
+    data.push(count, currentValue);
+
+    return {width, height, data};
+};
+
+/**
+ * Пересчитывает маску в другое разрешение: ячейка новой сетки берет значение ячейки исходной сетки под своим центром
+ */
+export const resampleMaskGrid = (grid: MaskGrid, resolution: MotionMaskResolution): MaskGrid => {
+    const source = getGridResolution(grid);
+    if (isSameResolution(source, resolution)) return grid.map(row => row.slice());
+    if (source.width === 0 || source.height === 0) return createFilledMaskGrid(resolution);
+
+    return Array.from({length: resolution.height}, (_, row) => {
+        const sourceRow = Math.floor(((row + 0.5) / resolution.height) * source.height);
+        return Array.from({length: resolution.width}, (__, col) => {
+            const sourceCol = Math.floor(((col + 0.5) / resolution.width) * source.width);
+            return grid[sourceRow][sourceCol];
+        });
+    });
+};
+
+/**
+ * Маска в разрешении, которое сервер не поддерживает, пересчитывается в первое поддерживаемое (базовую сетку)
+ */
+export const fitMaskGridToResolutions = (grid: MaskGrid, resolutions: MotionMaskResolution[]): MaskGrid => {
+    const gridResolution = getGridResolution(grid);
+    return resolutions.some(resolution => isSameResolution(resolution, gridResolution))
+        ? grid
+        : resampleMaskGrid(grid, resolutions[0]);
+};
+
+export const invertMaskGrid = (grid: MaskGrid): MaskGrid => grid.map(row => row.map(value => (value ? 0 : 1)));
+
+/**
+ * Заполняет ячейки, центр которых удовлетворяет условию (координаты центра в долях кадра)
+ */
+const fillCells = (grid: MaskGrid, value: 0 | 1, predicate: (center: MaskPoint) => boolean): MaskGrid => {
+    const {width, height} = getGridResolution(grid);
+    return grid.map((row, rowIndex) =>
+        row.map((cell, colIndex) =>
+            predicate({x: (colIndex + 0.5) / width, y: (rowIndex + 0.5) / height}) ? value : cell
+        )
+    );
+};
+
+export const fillMaskRectangle = (grid: MaskGrid, from: MaskPoint, to: MaskPoint, value: 0 | 1): MaskGrid => {
+    const {width, height} = getGridResolution(grid);
+    // Растягиваем границы до ячеек, которых коснулся прямоугольник
+    const left = Math.floor(Math.min(from.x, to.x) * width);
+    const right = Math.ceil(Math.max(from.x, to.x) * width);
+    const top = Math.floor(Math.min(from.y, to.y) * height);
+    const bottom = Math.ceil(Math.max(from.y, to.y) * height);
+
+    return grid.map((row, rowIndex) =>
+        row.map((cell, colIndex) =>
+            colIndex >= left &&
+            colIndex < Math.max(right, left + 1) &&
+            rowIndex >= top &&
+            rowIndex < Math.max(bottom, top + 1)
+                ? value
+                : cell
+        )
+    );
+};
+
+const isPointInPolygon = (point: MaskPoint, polygon: MaskPoint[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+export const fillMaskPolygon = (grid: MaskGrid, polygon: MaskPoint[], value: 0 | 1): MaskGrid =>
+    polygon.length < 3 ? grid : fillCells(grid, value, center => isPointInPolygon(center, polygon));
+
+/**
+ * Закрашивает ячейки кистью: size - диаметр кисти в ячейках
+ */
+export const paintMaskBrush = (grid: MaskGrid, point: MaskPoint, size: number, value: 0 | 1): MaskGrid => {
+    const {width, height} = getGridResolution(grid);
+    const centerCol = Math.min(width - 1, Math.max(0, Math.floor(point.x * width)));
+    const centerRow = Math.min(height - 1, Math.max(0, Math.floor(point.y * height)));
+    const radius = (size - 1) / 2;
+    let changed = false;
+
+    const next = grid.map((row, rowIndex) =>
+        row.map((cell, colIndex) => {
+            const dx = colIndex - centerCol;
+            const dy = rowIndex - centerRow;
+            if (cell === value || dx * dx + dy * dy > radius * radius + 0.5) return cell;
+            changed = true;
+            return value;
+        })
+    );
+
+    return changed ? next : grid;
+};
@@ -0,0 +1,284 @@
+import {Protocol} from './types';
+import {getAuthToken} from './getAuthToken';
+import {buildRequestUrl} from './url-builder';
+import {getProtocol} from './url-params';
+import {DevlineTransport, fetchTransport} from './transport';
+import {MotionMaskPayload, MotionObjectType, TimelineMotionFilter} from '../types/motion-filter';
+import {RpcAbortError, RpcAuthError, RpcMalformedResponseError, RpcNetworkError, RpcServerError} from './rpc-errors';
+
+/**
+ * Версии API, с которыми вызывается каждый RPC-метод
+ */
+export const RPC_METHOD_VERSIONS = {
+    'archive.get_frames_timeline': 13,
+    'archive.get_motions_timeline': 71,
+    'archive.get_objects_timeline': 71,
+    get_server_info: 12,
+    get_camera_state: 13,
+    get_version: undefined
+} as const;
+
+export type RpcMethod = keyof typeof RPC_METHOD_VERSIONS;
+
+export interface DevlineRpcClientOptions {
+    host: string;
+    port: number;
+    credentials: string;
+    protocol?: Protocol;
+    proxy?: string;
+    /** Транспорт запросов; по умолчанию fetch браузера */
+    transport?: DevlineTransport;
+}
+
+export interface RpcCallOptions {
+    signal?: AbortSignal;
+    /** Переопределяет версию из RPC_METHOD_VERSIONS */
+    version?: number;
+}
+
+export interface TimelineRequestParams {
+    startTime: Date;
+    endTime: Date;
+    unitLength: number;
+    channel?: number;
+    stream?: string;
+}
+
+export interface MotionsTimelineRequestParams extends TimelineRequestParams {
+    filter?: TimelineMotionFilter;
+}
+
+export interface ObjectsTimelineRequestParams extends TimelineRequestParams {
+    filter: {
+        types: MotionObjectType[];
+        mask?: MotionMaskPayload;
+    };
+}
+
+export interface TimelineResult {
+    timeline: number[];
+}
+
+export interface ServerInfoResult {
+    info: {
+        /** [year, month, day, hour, minute, second, millisecond], месяц с 1 */
+        local_time: number[];
+    };
+}
+
+export interface CameraStateResult {
+    state: {
+        video_streams: {video: {codec: string}};
+        audio_streams: {audio: {signal: string}};
+    };
+}
+
+interface RpcResponse<T> {
+    result?: T;
+    error?: {type?: string; message?: string};
+}
+
+/**
+ * Переводит дату в формат [year, month, day, hour, minute, second], принятый в RPC (месяц с 1)
+ */
+export const toRpcDateTime = (date: Date): number[] => [
+    date.getFullYear(),
+    date.getMonth() + 1,
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+];
+
+const buildTimelineParams = ({startTime, endTime, unitLength, channel, stream}: TimelineRequestParams) => ({
+    start_time: toRpcDateTime(startTime),
+    end_time: toRpcDateTime(endTime),
+    unit_len: unitLength,
+    ...(channel !== undefined && {channel}),
+    ...(stream !== undefined && {stream})
+});
+
+const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Клиент JSON-RPC сервера Devline.
+ * Хранит параметры подключения, формирует URL и заголовки авторизации и приводит ошибки к иерархии RpcError
+ */
+export class DevlineRpcClient {
+    private readonly options: DevlineRpcClientOptions;
+
+    constructor(options: DevlineRpcClientOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Выполняет произвольный RPC-метод и возвращает поле result ответа
+     */
+    async call<T>(method: RpcMethod, params?: object, {signal, version}: RpcCallOptions = {}): Promise<T> {
+        const {host, port, credentials, proxy} = this.options;
+        const authToken = getAuthToken(credentials);
+
+        const rpcUrl = buildRequestUrl({
+            host,
+            port,
+            protocol: this.options.protocol ?? getProtocol(),
+            proxy,
+            path: proxy ? '/rpc' : `/rpc?authorization=Basic ${authToken}&content-type=application/json`
+        });
+
+        const headers: HeadersInit = {};
+        if (proxy) {
+            headers['Content-Type'] = 'application/json';
+            headers['Authorization'] = `Basic ${authToken}`;
+        }
+
+        const methodVersion = version ?? RPC_METHOD_VERSIONS[method];
+
+        let response: Response;
+        try {
+            const transport = this.options.transport ?? fetchTransport;
+            response = await transport.fetch(rpcUrl, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    method,
+                    ...(params !== undefined && {params}),
+                    ...(methodVersion !== undefined && {version: methodVersion})
+                }),
+                signal
+            });
+        } catch (error) {
+            if (isAbortError(error)) {
+                throw new RpcAbortError(method);
+            }
+            throw new RpcNetworkError(method);
+        }
+
+        if (response.status === 401) {
+            throw new RpcAuthError(method);
+        }
+
+        if (!response.ok) {
+            throw new RpcNetworkError(method, response.status);
+        }
+
+        let data: RpcResponse<T>;
+        try {
+            data = await response.json();
+        } catch (error) {
+            if (isAbortError(error)) {
+                throw new RpcAbortError(method);
+            }
+            throw new RpcMalformedResponseError(method, 'invalid JSON');
+        }
+
+        if (!data || typeof data !== 'object') {
+            throw new RpcMalformedResponseError(method, 'empty body');
+        }
+
+        if (data.error) {
+            if (data.error.type === 'auth' && data.error.message === 'forbidden') {
+                throw new RpcAuthError(method);
+            }
+            throw new RpcServerError(method, data.error.type, data.error.message);
+        }
+
+        if (data.result === undefined || data.result === null) {
+            throw new RpcMalformedResponseError(method, 'missing result');
+        }
+
+        return data.result;
+    }
+
+    /**
+     * Наличие записей в архиве (archive.get_frames_timeline)
+     */
+    async getFramesTimeline(params: TimelineRequestParams, signal?: AbortSignal): Promise<TimelineResult> {
+        const result = await this.call<TimelineResult>('archive.get_frames_timeline', buildTimelineParams(params), {
+            signal
+        });
+        return this.ensureTimeline('archive.get_frames_timeline', result);
+    }
+
+    /**
+     * Наличие движения в архиве (archive.get_motions_timeline)
+     */
+    async getMotionsTimeline(params: MotionsTimelineRequestParams, signal?: AbortSignal): Promise<TimelineResult> {
+        const {filter} = params;
+        const result = await this.call<TimelineResult>(
+            'archive.get_motions_timeline',
+            {...buildTimelineParams(params), ...(filter && {filter})},
+            {signal}
+        );
+        return this.ensureTimeline('archive.get_motions_timeline', result);
+    }
+
+    /**
+     * Наличие объектов заданных типов в архиве (archive.get_objects_timeline)
+     */
+    async getObjectsTimeline(params: ObjectsTimelineRequestParams, signal?: AbortSignal): Promise<TimelineResult> {
+        const result = await this.call<TimelineResult>(
+            'archive.get_objects_timeline',
+            {...buildTimelineParams(params), filter: params.filter},
+            {signal}
+        );
+        return this.ensureTimeline('archive.get_objects_timeline', result);
+    }
+
+    /**
+     * Информация о сервере (get_server_info)
+     */
+    async getServerInfo(signal?: AbortSignal): Promise<ServerInfoResult> {
+        const result = await this.call<ServerInfoResult>('get_server_info', undefined, {signal});
+        if (!result.info || !Array.isArray(result.info.local_time)) {
+            throw new RpcMalformedResponseError('get_server_info', 'missing info.local_time');
+        }
+        return result;
+    }
+
+    /**
+     * Текущее время сервера
+     */
+    async getServerTime(signal?: AbortSignal): Promise<Date> {
+        const {info} = await this.getServerInfo(signal);
+        const localTime = info.local_time;
+
+        if (localTime.length < 7) {
+            throw new RpcMalformedResponseError('get_server_info', 'invalid local_time format');
+        }
+
+        // Месяцы в JavaScript нумеруются с 0, а API возвращает их с 1
+        const [year, month, day, hour, minute, second, millisecond] = localTime;
+        return new Date(year, month - 1, day, hour, minute, second, millisecond);
+    }
+
+    /**
+     * Состояние видео- и аудиопотоков камеры (get_camera_state)
+     */
+    async getCameraState(camera: number, signal?: AbortSignal): Promise<CameraStateResult> {
+        const result = await this.call<CameraStateResult>('get_camera_state', {camera: String(camera)}, {signal});
+        if (!result.state || !result.state.video_streams || !result.state.audio_streams) {
+            throw new RpcMalformedResponseError('get_camera_state', 'missing state');
+        }
+        return result;
+    }
+
+    /**
+     * Версия API сервера (get_version)
+     */
+    async getVersion(signal?: AbortSignal): Promise<number> {
+        const result = await this.call<{version?: {value?: unknown}}>('get_version', undefined, {signal});
+        const value = result.version?.value;
+        if (typeof value !== 'number') {
+            throw new RpcMalformedResponseError('get_version', 'missing version.value');
+        }
+        return value;
+    }
+
+    private ensureTimeline(method: RpcMethod, result: TimelineResult): TimelineResult {
+        if (!Array.isArray(result.timeline)) {
+            throw new RpcMalformedResponseError(method, 'missing timeline');
+        }
+        return result;
+    }
+}
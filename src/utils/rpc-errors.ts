@@ -0,0 +1,82 @@
+/**
+ * Иерархия ошибок RPC-клиента Devline
+ */
+
+export type RpcErrorKind = 'auth' | 'network' | 'abort' | 'malformed' | 'server';
+
+/**
+ * Базовая ошибка RPC-запроса
+ */
+export class RpcError extends Error {
+    readonly kind: RpcErrorKind;
+    readonly method?: string;
+
+    constructor(kind: RpcErrorKind, message: string, method?: string) {
+        super(message);
+        // Восстанавливаем цепочку прототипов: при компиляции в ES5 instanceof для наследников Error не работает
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'RpcError';
+        this.kind = kind;
+        this.method = method;
+    }
+}
+
+/**
+ * Сервер отклонил запрос из-за отсутствия прав (auth/forbidden или HTTP 401)
+ */
+export class RpcAuthError extends RpcError {
+    constructor(method?: string) {
+        super('auth', 'Forbidden', method);
+        this.name = 'RpcAuthError';
+    }
+}
+
+/**
+ * Сервер недоступен или ответил неуспешным HTTP-статусом
+ */
+export class RpcNetworkError extends RpcError {
+    readonly status?: number;
+
+    constructor(method?: string, status?: number) {
+        super('network', status ? `Request failed with status ${status}` : 'Network request failed', method);
+        this.name = 'RpcNetworkError';
+        this.status = status;
+    }
+}
+
+/**
+ * Запрос был отменен через AbortSignal
+ */
+export class RpcAbortError extends RpcError {
+    constructor(method?: string) {
+        super('abort', 'Request aborted', method);
+        this.name = 'RpcAbortError';
+    }
+}
+
+/**
+ * Ответ сервера не удалось разобрать или он не соответствует ожидаемому формату
+ */
+export class RpcMalformedResponseError extends RpcError {
+    constructor(method?: string, details?: string) {
+        super('malformed', details ? `Malformed response: ${details}` : 'Malformed response', method);
+        this.name = 'RpcMalformedResponseError';
+    }
+}
+
+/**
+ * Сервер вернул ошибку, не связанную с авторизацией
+ */
+export class RpcServerError extends RpcError {
+    readonly type?: string;
+
+    constructor(method: string | undefined, type?: string, message?: string) {
+        super('server', message ? `Server error: ${message}` : 'Server error', method);
+        this.name = 'RpcServerError';
+        this.type = type;
+    }
+}
+
+export const isRpcAuthError = (error: unknown): error is RpcAuthError => error instanceof RpcAuthError;
+
+export const isRpcAbortError = (error: unknown): error is RpcAbortError => error instanceof RpcAbortError;
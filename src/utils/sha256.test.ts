@@ -0,0 +1,47 @@
+import {describe, expect, it} from '@jest/globals';
+
+import {Sha256, sha256Hex} from './sha256';
+
+const encode = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+/**
+ * Контрольные значения из примеров NIST (FIPS 180-4, SHA256.pdf / SHA2_Additional.pdf)
+ */
+const NIST_VECTORS: Array<{message: string; digest: string}> = [
+    {message: '', digest: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'},
+    {message: 'abc', digest: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'},
+    {
+        message: 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+        digest: '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    },
+    {
+        message:
+            'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+        digest: 'cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1'
+    }
+];
+
+describe('sha256', () => {
+    it.each(NIST_VECTORS)('считает хеш сообщения "$message"', ({message, digest}) => {
+        expect(sha256Hex(encode(message))).toBe(digest);
+    });
+
+    it('считает хеш миллиона символов "a", переданных порциями разной длины', () => {
+        const hash = new Sha256();
+        const data = new Uint8Array(1000000).fill(0x61);
+        // Порции не кратны блоку в 64 байта, чтобы проверить дополнение блока между вызовами update
+        for (let offset = 0, size = 1; offset < data.length; offset += size, size = (size * 7 + 3) % 1000) {
+            hash.update(data.subarray(offset, offset + size));
+        }
+
+        expect(hash.digestHex()).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+    });
+
+    it('совпадает для данных, переданных целиком и побайтно', () => {
+        const data = encode('Контрольная сумма видеофайла пакета'.repeat(10));
+        const hash = new Sha256();
+        data.forEach(byte => hash.update(new Uint8Array([byte])));
+
+        expect(hash.digestHex()).toBe(sha256Hex(data));
+    });
+});
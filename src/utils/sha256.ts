@@ -0,0 +1,134 @@
+/**
+ * Потоковый SHA-256 (FIPS 180-4). WebCrypto считает хеш только по всему буферу сразу, а видеофайлы
+ * пакета хешируются порциями по мере загрузки, без хранения файла целиком в памяти
+ */
+
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+    0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+    0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+    0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+    0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+    0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+    0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+    0xc67178f2
+]);
+
+const INITIAL_STATE = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const BLOCK_SIZE = 64;
+
+const rotr = (value: number, bits: number): number => (value >>> bits) | (value << (32 - bits));
+
+export class Sha256 {
+    private readonly state = new Uint32Array(INITIAL_STATE);
+    private readonly block = new Uint8Array(BLOCK_SIZE);
+    private readonly words = new Uint32Array(64);
+    private blockLength = 0;
+    private totalBytes = 0;
+
+    /**
+     * Добавляет очередную порцию данных
+     */
+    update(data: Uint8Array): this {
+        let offset = 0;
+        this.totalBytes += data.length;
+
+        // Дополняем блок, оставшийся от предыдущей порции
+        if (this.blockLength > 0) {
+            const take = Math.min(BLOCK_SIZE - this.blockLength, data.length);
+            this.block.set(data.subarray(0, take), this.blockLength);
+            this.blockLength += take;
+            offset = take;
+            if (this.blockLength < BLOCK_SIZE) return this;
+
+            this.processBlock(this.block, 0);
+            this.blockLength = 0;
+        }
+
+        for (; offset + BLOCK_SIZE <= data.length; offset += BLOCK_SIZE) {
+            this.processBlock(data, offset);
+        }
+
+        if (offset < data.length) {
+            this.block.set(data.subarray(offset), 0);
+            this.blockLength = data.length - offset;
+        }
+        return this;
+    }
+
+    /**
+     * Завершает подсчет и возвращает хеш в шестнадцатеричном виде. После вызова объект не используется
+     */
+    digestHex(): string {
+        const block = this.block;
+        block[this.blockLength++] = 0x80;
+
+        if (this.blockLength > BLOCK_SIZE - 8) {
+            block.fill(0, this.blockLength);
+            this.processBlock(block, 0);
+            this.blockLength = 0;
+        }
+        block.fill(0, this.blockLength);
+
+        // Длина сообщения в битах, 64-битное big-endian число
+        const view = new DataView(block.buffer);
+        view.setUint32(BLOCK_SIZE - 8, Math.floor(this.totalBytes / 0x20000000), false);
+        view.setUint32(BLOCK_SIZE - 4, (this.totalBytes << 3) >>> 0, false);
+        this.processBlock(block, 0);
+
+        return Array.from(this.state)
+            .map(word => word.toString(16).padStart(8, '0'))
+            .join('');
+    }
+
+    private processBlock(data: Uint8Array, offset: number): void {
+        const w = this.words;
+        for (let i = 0; i < 16; i++) {
+            const index = offset + i * 4;
+            w[i] = (data[index] << 24) | (data[index + 1] << 16) | (data[index + 2] << 8) | data[index + 3];
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+
+        const state = this.state;
+        let a = state[0];
+        let b = state[1];
+        let c = state[2];
+        let d = state[3];
+        let e = state[4];
+        let f = state[5];
+        let g = state[6];
+        let h = state[7];
+        for (let i = 0; i < 64; i++) {
+            const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + s1 + ch + K[i] + w[i]) | 0;
+            const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (s0 + maj) | 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) | 0;
+        }
+
+        state[0] += a;
+        state[1] += b;
+        state[2] += c;
+        state[3] += d;
+        state[4] += e;
+        state[5] += f;
+        state[6] += g;
+        state[7] += h;
+    }
+}
+
+export const sha256Hex = (data: Uint8Array): string => new Sha256().update(data).digestHex();
@@ -0,0 +1,141 @@
+/**
+ * Снимок текущего кадра: вырезается видимая с учетом зума область, поверх наносятся
+ * название камеры и время кадра
+ */
+import {format} from 'date-fns';
+
+import {SnapshotFormat} from '../types/snapshot';
+
+/** Зум видео в плеере: масштаб и точка, относительно которой он применен (доли ширины и высоты) */
+export interface SnapshotViewport {
+    zoom: number;
+    originX: number;
+    originY: number;
+}
+
+export interface SnapshotSource {
+    image: CanvasImageSource;
+    /** Собственный размер кадра */
+    width: number;
+    height: number;
+}
+
+interface SourceRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const JPEG_QUALITY = 0.92;
+const OVERLAY_FONT_SIZE_RATIO = 0.03;
+const MIN_OVERLAY_FONT_SIZE = 12;
+
+/**
+ * Область кадра, видимая в элементе размером elementWidth x elementHeight при object-fit: contain
+ * и CSS-масштабе viewport.zoom
+ */
+const getVisibleSourceRect = (
+    source: SnapshotSource,
+    elementWidth: number,
+    elementHeight: number,
+    viewport: SnapshotViewport
+): SourceRect => {
+    const full = {x: 0, y: 0, width: source.width, height: source.height};
+    if (viewport.zoom <= 1 || elementWidth <= 0 || elementHeight <= 0) return full;
+
+    // Положение кадра внутри элемента (поля при несовпадении пропорций)
+    const scale = Math.min(elementWidth / source.width, elementHeight / source.height);
+    const contentWidth = source.width * scale;
+    const contentHeight = source.height * scale;
+    const contentLeft = (elementWidth - contentWidth) / 2;
+    const contentTop = (elementHeight - contentHeight) / 2;
+
+    // Видимое окно элемента после transform: scale(zoom) с transform-origin
+    const windowWidth = elementWidth / viewport.zoom;
+    const windowHeight = elementHeight / viewport.zoom;
+    const windowLeft = viewport.originX * elementWidth * (1 - 1 / viewport.zoom);
+    const windowTop = viewport.originY * elementHeight * (1 - 1 / viewport.zoom);
+
+    const left = Math.max(windowLeft, contentLeft);
+    const top = Math.max(windowTop, contentTop);
+    const right = Math.min(windowLeft + windowWidth, contentLeft + contentWidth);
+    const bottom = Math.min(windowTop + windowHeight, contentTop + contentHeight);
+    if (right <= left || bottom <= top) return full;
+
+    return {
+        x: (left - contentLeft) / scale,
+        y: (top - contentTop) / scale,
+        width: (right - left) / scale,
+        height: (bottom - top) / scale
+    };
+};
+
+/**
+ * Подпись в левом нижнем углу на полупрозрачной подложке
+ */
+const drawOverlay = (ctx: CanvasRenderingContext2D, lines: string[]) => {
+    const {width, height} = ctx.canvas;
+    const fontSize = Math.max(MIN_OVERLAY_FONT_SIZE, Math.round(Math.min(width, height) * OVERLAY_FONT_SIZE_RATIO));
+    const padding = Math.round(fontSize / 2);
+    const lineHeight = Math.round(fontSize * 1.3);
+
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+
+    const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const boxHeight = lines.length * lineHeight + padding * 2;
+    const boxTop = height - boxHeight;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, boxTop, textWidth + padding * 2, boxHeight);
+
+    ctx.fillStyle = '#ffffff';
+    lines.forEach((line, index) => {
+        ctx.fillText(line, padding, boxTop + padding + index * lineHeight);
+    });
+};
+
+/**
+ * Рисует снимок на canvas в собственном разрешении видимой области кадра
+ */
+export const renderSnapshot = (
+    source: SnapshotSource,
+    elementWidth: number,
+    elementHeight: number,
+    viewport: SnapshotViewport,
+    overlay: {cameraName: string; time: Date}
+): HTMLCanvasElement => {
+    const rect = getVisibleSourceRect(source, elementWidth, elementHeight, viewport);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(rect.width));
+    canvas.height = Math.max(1, Math.round(rect.height));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D недоступен');
+    }
+
+    ctx.drawImage(source.image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+    drawOverlay(ctx, [overlay.cameraName, format(overlay.time, 'dd.MM.yyyy HH:mm:ss')]);
+
+    return canvas;
+};
+
+/**
+ * Кодирует canvas в файл. Если видео загружено с другого домена без CORS, canvas помечен как
+ * небезопасный и браузер выбросит SecurityError
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, snapshotFormat: SnapshotFormat): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => (blob ? resolve(blob) : reject(new Error('Не удалось сохранить снимок'))),
+            `image/${snapshotFormat}`,
+            snapshotFormat === 'jpeg' ? JPEG_QUALITY : undefined
+        );
+    });
+
+export const getSnapshotFileName = (cameraName: string, time: Date, snapshotFormat: SnapshotFormat): string => {
+    const safeName = cameraName.replace(/[\\/:*?"<>|\s]+/g, '_');
+    return `snapshot_${safeName}_${format(time, 'yyyy-MM-dd_HH-mm-ss')}.${snapshotFormat === 'jpeg' ? 'jpg' : 'png'}`;
+};
@@ -0,0 +1,16 @@
+/**
+ * Транспорт, через который плеер обращается к серверу Devline.
+ * По умолчанию используется fetch браузера; для офлайн-разработки его можно подменить (см. src/mock).
+ * Плеер получает транспорт через TransportProvider, функции api.ts и DevlineRpcClient - параметром
+ */
+export interface DevlineTransport {
+    /** Выполняет HTTP-запрос к серверу (сигнатура совместима с fetch) */
+    fetch(url: string, init?: RequestInit): Promise<Response>;
+    /** Преобразует URL ресурса, который браузер загружает сам (HLS/MP4-поток, превью, скачивание) */
+    resolveMediaUrl(url: string): string;
+}
+
+export const fetchTransport: DevlineTransport = {
+    fetch: (url, init) => fetch(url, init),
+    resolveMediaUrl: url => url
+};
@@ -1,4 +1,4 @@
-import {isValidTimestamp, parseDate, isValid, parseTimestamp, addDaysToDate} from './dates';
+import {isValidTimestamp, parseDate, isValid, parseTimestamp, addDaysToDate, formatDate} from './dates';
 import {Protocol} from './types';
 
 export interface PlayerParams {
@@ -76,9 +76,24 @@ export const parseUrlParams = (): PlayerParams => {
     };
 };
 
-export const clickA = (link: string) => {
+/**
+ * Ссылка на текущую страницу с интервалом архива камеры в параметрах camera, mode, start и end
+ */
+export const buildShareLink = ({camera, start, end}: {camera: number; start: Date; end: Date}): string => {
+    const link = new URL(window.location.href);
+    link.searchParams.set('camera', String(camera));
+    link.searchParams.set('mode', 'record');
+    link.searchParams.set('start', formatDate(start, "yyyy-MM-dd'T'HH:mm:ss"));
+    link.searchParams.set('end', formatDate(end, "yyyy-MM-dd'T'HH:mm:ss"));
+    return link.toString();
+};
+
+export const clickA = (link: string, fileName?: string) => {
     const a = document.createElement('a');
     a.href = link;
+    if (fileName) {
+        a.download = fileName;
+    }
     a.style.display = 'none'; // Скрываем элемент
     document.body.appendChild(a); // Добавляем в DOM для корректной работы в некоторых браузерах
     a.click();
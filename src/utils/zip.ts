@@ -0,0 +1,141 @@
+/**
+ * Сборка ZIP-архива без сжатия (метод stored). Видео уже сжато, поэтому упаковка без компрессии
+ * не увеличивает размер заметно и не требует сторонних библиотек. Архив собирается из частей Blob без
+ * копирования данных, CRC-32 больших файлов считается по мере их загрузки (updateCrc32).
+ * ZIP64 не поддерживается: размер каждого файла и архива ограничен 4 ГБ
+ */
+
+interface ZipEntryBase {
+    /** Путь файла внутри архива */
+    name: string;
+    modifiedAt?: Date;
+}
+
+/**
+ * Файл архива. Для Blob контрольная сумма передается готовой, чтобы не читать данные повторно
+ */
+export type ZipEntry = ZipEntryBase & ({data: Uint8Array; crc32?: number} | {data: Blob; crc32: number});
+
+export const MAX_ZIP_SIZE = 0xffffffff;
+/** Размер заголовков ZIP без учета имен файлов: локальный и центральный на файл и конец архива */
+const ZIP_ENTRY_OVERHEAD = 30 + 46;
+const ZIP_END_SIZE = 22;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+    if (crcTable) return crcTable;
+
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let value = i;
+        for (let bit = 0; bit < 8; bit++) {
+            value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+        }
+        crcTable[i] = value >>> 0;
+    }
+    return crcTable;
+};
+
+/**
+ * Продолжает расчет CRC-32 по очередной порции данных. Начальное значение - 0,
+ * результат для последней порции равен CRC-32 всех данных
+ */
+export const updateCrc32 = (crc: number, chunk: Uint8Array): number => {
+    const table = getCrcTable();
+    let value = (crc ^ 0xffffffff) >>> 0;
+    for (let i = 0; i < chunk.length; i++) {
+        value = table[(value ^ chunk[i]) & 0xff] ^ (value >>> 8);
+    }
+    return (value ^ 0xffffffff) >>> 0;
+};
+
+export const crc32 = (data: Uint8Array): number => updateCrc32(0, data);
+
+/**
+ * Дата и время в формате MS-DOS, который используется в заголовках ZIP
+ */
+const toDosDateTime = (date: Date): {time: number; date: number} => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const encodeName = (name: string): Uint8Array => new TextEncoder().encode(name);
+
+/**
+ * Размер архива с файлами указанных имен и суммарным размером данных; позволяет отказаться
+ * от упаковки до загрузки данных, которые не поместятся в архив
+ */
+export const getZipArchiveSize = (names: string[], dataSize: number): number =>
+    names.reduce((sum, name) => sum + ZIP_ENTRY_OVERHEAD + 2 * encodeName(name).length, dataSize) + ZIP_END_SIZE;
+
+/**
+ * Собирает архив из переданных файлов
+ */
+export const createZipArchive = (entries: ZipEntry[]): Blob => {
+    const parts: BlobPart[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encodeName(entry.name);
+        const crc = entry.crc32 ?? crc32(entry.data as Uint8Array);
+        const size = entry.data instanceof Blob ? entry.data.size : entry.data.length;
+        const {time, date} = toDosDateTime(entry.modifiedAt ?? new Date());
+
+        if (size > MAX_ZIP_SIZE || offset > MAX_ZIP_SIZE) {
+            throw new Error('Размер архива превышает 4 ГБ');
+        }
+
+        // Локальный заголовок файла; флаг 0x0800 - имя в UTF-8
+        const localHeader = new Uint8Array(30 + name.length);
+        const local = new DataView(localHeader.buffer);
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true);
+        local.setUint16(8, 0, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        localHeader.set(name, 30);
+
+        const centralHeader = new Uint8Array(46 + name.length);
+        const central = new DataView(centralHeader.buffer);
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, size, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralHeader.set(name, 46);
+
+        parts.push(localHeader, entry.data);
+        centralDirectory.push(centralHeader);
+        offset += localHeader.length + size;
+    });
+
+    const centralSize = centralDirectory.reduce((sum, header) => sum + header.length, 0);
+    if (offset + centralSize > MAX_ZIP_SIZE) {
+        throw new Error('Размер архива превышает 4 ГБ');
+    }
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end], {type: 'application/zip'});
+};